@@ -3,42 +3,72 @@
  * 
  * This file serves as the root component for the Movie Review App:
  * - Sets up React Navigation container
- * - Provides authentication and movie context providers
+ * - Provides authentication, genre and movie context providers
  * - Handles authentication state-based navigation routing
  * - Manages loading states during authentication checks
+ * - Covers the app with the lock screen while the app lock is engaged
  * - Configures status bar appearance
  * 
  * The app automatically switches between authentication screens
- * and main app screens based on user authentication status.
+ * and main app screens based on user authentication status, and
+ * starts the main app afresh whenever another account becomes current.
  */
 
 import React from 'react';
 import {NavigationContainer} from '@react-navigation/native';
-import {StatusBar} from 'react-native';
+import {StatusBar, StyleSheet, View} from 'react-native';
 import {AuthProvider, useAuth} from './src/context/AuthContext';
+import {AppLockProvider, useAppLock} from './src/context/AppLockContext';
 import AuthNavigator from './src/navigation/AuthNavigator';
 import AppNavigator from './src/navigation/AppNavigator';
 import {MovieProvider} from './src/context/MovieContext';
+import {GenreProvider} from './src/context/GenreContext';
 import Loading from './src/components/common/Loading';
+import AppLockScreen from './src/screens/auth/AppLockScreen';
+import {navigationRef} from './src/navigation/navigationRef';
 
 /**
  * Root component that decides which navigator to show based on auth state.
  * 
  * Renders either the main app navigator (for authenticated users) or
- * the authentication navigator (for unauthenticated users).
- * Shows loading spinner while checking authentication state.
+ * the authentication navigator (for unauthenticated users and while
+ * another account is being added).
+ * The movie provider and main navigator are keyed by account, so
+ * switching accounts never shows the previous account's data or screens.
+ * While the app lock is engaged the lock screen is drawn over the main
+ * navigator, which stays mounted so unlocking returns to the same screen.
+ * Touches anywhere count as activity for the app lock's idle timeout.
+ * Shows loading spinner while checking authentication and app lock state.
  * 
  * @returns {JSX.Element} The main application component
  */
 const AppContent: React.FC = () => {
-  const {user, isLoading} = useAuth();
+  const {user, isLoading, isAddingAccount} = useAuth();
+  const {isLoading: isLockLoading, isLocked, recordActivity} = useAppLock();
 
-  // Show a loading spinner while checking auth state
-  if (isLoading) {
+  // Show a loading spinner while checking auth and app lock state
+  if (isLoading || isLockLoading) {
     return <Loading />;
   }
 
-  return user ? <AppNavigator /> : <AuthNavigator />;
+  return user && !isAddingAccount ? (
+    <View
+      style={styles.app}
+      onStartShouldSetResponderCapture={() => {
+        recordActivity();
+        return false;
+      }}
+    >
+      <GenreProvider>
+        <MovieProvider key={user.id}>
+          <AppNavigator />
+        </MovieProvider>
+      </GenreProvider>
+      {isLocked && <AppLockScreen />}
+    </View>
+  ) : (
+    <AuthNavigator />
+  );
 };
 
 /**
@@ -47,24 +77,28 @@ const AppContent: React.FC = () => {
  * Sets up the complete application structure with:
  * - Navigation container for routing
  * - Status bar configuration
- * - Authentication context provider
- * - Movie context provider (nested for auth access)
- * - Main app content component
+ * - Authentication and app lock context providers
+ * - Main app content component, which adds the genre and per-account movie context providers
  * 
  * @returns {JSX.Element} The root of the application
  */
 const App: React.FC = () => {
   return (
-    <NavigationContainer>
+    <NavigationContainer ref={navigationRef}>
       <StatusBar barStyle="dark-content" />
       <AuthProvider>
-        {/* MovieProvider is nested so it can access AuthContext if needed */}
-        <MovieProvider>
+        <AppLockProvider>
           <AppContent />
-        </MovieProvider>
+        </AppLockProvider>
       </AuthProvider>
     </NavigationContainer>
   );
 };
 
+const styles = StyleSheet.create({
+  app: {
+    flex: 1,
+  },
+});
+
 export default App;
@@ -0,0 +1,104 @@
+/**
+ * @format
+ */
+
+import { AxiosError, AxiosHeaders, CanceledError, InternalAxiosRequestConfig } from 'axios';
+import { ApiError, getFormErrors, isCanceledError, toApiError } from '../src/service/apiError';
+
+const config = { headers: new AxiosHeaders() } as InternalAxiosRequestConfig;
+
+const responseError = (status: number, data: unknown = {}) =>
+  new AxiosError('Request failed', undefined, config, {}, {
+    status,
+    statusText: '',
+    data,
+    headers: {},
+    config,
+  });
+
+describe('toApiError', () => {
+  test.each([
+    [400, 'validation'],
+    [401, 'auth'],
+    [403, 'forbidden'],
+    [404, 'not_found'],
+    [409, 'conflict'],
+    [412, 'conflict'],
+    [422, 'validation'],
+    [429, 'throttled'],
+    [500, 'server'],
+    [503, 'server'],
+    [418, 'unknown'],
+  ])('classifies status %i as %s', (status, kind) => {
+    const error = toApiError(responseError(status));
+    expect(error.kind).toBe(kind);
+    expect(error.status).toBe(status);
+  });
+
+  test('classifies a request without response as a network error', () => {
+    const error = toApiError(new AxiosError('Network Error', AxiosError.ERR_NETWORK, config, {}));
+    expect(error.kind).toBe('network');
+    expect(error.message).toMatch(/network/);
+  });
+
+  test('classifies requests aborted by the app as canceled', () => {
+    expect(toApiError(new CanceledError()).kind).toBe('canceled');
+    expect(isCanceledError(new CanceledError())).toBe(true);
+    expect(isCanceledError(responseError(500))).toBe(false);
+  });
+
+  test('returns ApiErrors unchanged', () => {
+    const error = new ApiError('conflict', 'Changed');
+    expect(toApiError(error)).toBe(error);
+  });
+
+  test('wraps other errors as unknown, keeping their message', () => {
+    const error = toApiError(new Error('Boom'));
+    expect(error.kind).toBe('unknown');
+    expect(error.message).toBe('Boom');
+  });
+
+  test('uses the DRF detail as message and keeps field errors apart', () => {
+    const error = toApiError(
+      responseError(400, { detail: 'Invalid input.', title: ['This field is required.'], cast: ['Too long.', 'Bad.'] }),
+    );
+    expect(error.message).toBe('Invalid input.');
+    expect(error.fieldErrors).toEqual({ title: 'This field is required.', cast: 'Too long. Bad.' });
+  });
+
+  test('summarizes field errors when there is no general message', () => {
+    const error = toApiError(responseError(400, { title: ['Required.'] }));
+    expect(error.message).toBe('title: Required.');
+  });
+
+  test('ignores HTML error pages and falls back to the default message', () => {
+    const error = toApiError(responseError(502, '<html><body>Bad Gateway</body></html>'));
+    expect(error.kind).toBe('server');
+    expect(error.message).toMatch(/server encountered an error/);
+  });
+});
+
+describe('getFormErrors', () => {
+  const values = { title: '', director: '' };
+
+  test('maps known fields and reports the rest as a message', () => {
+    const { errors, message } = getFormErrors(
+      responseError(400, { title: ['Required.'], poster: ['Bad URL.'], non_field_errors: ['Check the form.'] }),
+      values,
+    );
+    expect(errors).toEqual({ title: 'Required.' });
+    expect(message).toBe('Check the form.\nposter: Bad URL.');
+  });
+
+  test('returns no message when every error maps to a field', () => {
+    const { errors, message } = getFormErrors(responseError(400, { director: ['Required.'] }), values);
+    expect(errors).toEqual({ director: 'Required.' });
+    expect(message).toBeNull();
+  });
+
+  test('returns the error message when there are no field errors', () => {
+    const { errors, message } = getFormErrors(new AxiosError('Network Error', undefined, config, {}), values);
+    expect(errors).toEqual({});
+    expect(message).toMatch(/network/);
+  });
+});
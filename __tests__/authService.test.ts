@@ -0,0 +1,42 @@
+/**
+ * @format
+ */
+
+import { api } from '../src/service/api';
+import { changePassword } from '../src/service/authService';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+jest.mock('react-native-keychain', () => ({}));
+
+const passwords = { old_password: 'old-pass1', new_password: 'new-pass1', new_password_confirm: 'new-pass1' };
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('changePassword', () => {
+  test('sends the current refresh token and returns the rotated pair', async () => {
+    const post = jest.spyOn(api, 'post').mockResolvedValue({ data: { access: 'access-2', refresh: 'refresh-2' } });
+
+    await expect(changePassword(passwords, 'refresh-1', true)).resolves.toEqual({
+      access: 'access-2',
+      refresh: 'refresh-2',
+    });
+    expect(post).toHaveBeenCalledWith('/auth/password/change/', {
+      ...passwords,
+      refresh: 'refresh-1',
+      logout_other_sessions: true,
+    });
+  });
+
+  test('keeps the current refresh token when the backend does not rotate it', async () => {
+    jest.spyOn(api, 'post').mockResolvedValue({ data: { access: 'access-2' } });
+
+    await expect(changePassword(passwords, 'refresh-1', false)).resolves.toEqual({
+      access: 'access-2',
+      refresh: 'refresh-1',
+    });
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * @format
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as cache from '../src/utils/cache';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+let now = Date.parse('2026-10-18T12:00:00Z');
+
+beforeEach(async () => {
+  jest.spyOn(Date, 'now').mockImplementation(() => now);
+  cache.setCacheAccount(null);
+  await cache.clearCache();
+  cache.setCacheAccount(1);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('readCache', () => {
+  test('returns nothing for endpoints that were never cached', async () => {
+    expect(await cache.readCache('/movies/1/', MINUTE)).toBeNull();
+  });
+
+  test('marks entries older than the TTL as stale but still returns them', async () => {
+    await cache.writeCache('/movies/1/', { id: 1 });
+
+    expect(await cache.readCache('/movies/1/', MINUTE)).toEqual({ data: { id: 1 }, isStale: false });
+    now += 2 * MINUTE;
+    expect(await cache.readCache('/movies/1/', MINUTE)).toEqual({ data: { id: 1 }, isStale: true });
+    expect(await cache.readCache('/movies/1/', 5 * MINUTE)).toEqual({ data: { id: 1 }, isStale: false });
+  });
+
+  test('discards entries older than a week', async () => {
+    await cache.writeCache('/movies/1/', { id: 1 });
+    now += 8 * DAY;
+
+    expect(await cache.readCache('/movies/1/', MINUTE)).toBeNull();
+    expect(await AsyncStorage.getItem('api_cache:1:/movies/1/')).toBeNull();
+  });
+
+  test('persists entries in AsyncStorage', async () => {
+    await cache.writeCache('/movies/1/', { id: 1 });
+
+    const stored = JSON.parse((await AsyncStorage.getItem('api_cache:1:/movies/1/')) ?? 'null');
+    expect(stored).toEqual({ data: { id: 1 }, storedAt: now });
+  });
+});
+
+describe('accounts', () => {
+  test("keeps each account's responses apart", async () => {
+    await cache.writeCache('/movies/1/', { id: 1, user_review: 'mine' });
+    cache.setCacheAccount(2);
+
+    expect(await cache.readCache('/movies/1/', MINUTE)).toBeNull();
+  });
+
+  test("clears one account's responses only", async () => {
+    await cache.writeCache('/movies/1/', { id: 1 });
+    cache.setCacheAccount(2);
+    await cache.writeCache('/movies/1/', { id: 1 });
+
+    await cache.clearAccountCache(1);
+
+    expect(await cache.readCache('/movies/1/', MINUTE)).not.toBeNull();
+    cache.setCacheAccount(1);
+    expect(await cache.readCache('/movies/1/', MINUTE)).toBeNull();
+  });
+});
+
+describe('invalidateCache', () => {
+  test('removes the endpoints starting with the prefix', async () => {
+    await cache.writeCache('/movies/?page=1', { results: [] });
+    await cache.writeCache('/movies/?page=2', { results: [] });
+    await cache.writeCache('/movies/1/', { id: 1 });
+
+    await cache.invalidateCache('/movies/?');
+
+    expect(await cache.readCache('/movies/?page=1', MINUTE)).toBeNull();
+    expect(await cache.readCache('/movies/?page=2', MINUTE)).toBeNull();
+    expect(await cache.readCache('/movies/1/', MINUTE)).not.toBeNull();
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * @format
+ */
+
+import { encodeBase64Url } from '../src/utils/base64';
+import { decodeJwtPayload, getTokenExpiry, isTokenExpiring } from '../src/utils/jwt';
+
+const NOW = Date.parse('2026-10-18T12:00:00Z');
+
+const makeToken = (payload: object) =>
+  `${encodeBase64Url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))}.${encodeBase64Url(JSON.stringify(payload))}.signature`;
+
+beforeEach(() => {
+  jest.spyOn(Date, 'now').mockReturnValue(NOW);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('decodeJwtPayload', () => {
+  test('reads the claims of a token', () => {
+    const payload = { exp: 1800000000, user_id: 7, token_type: 'access', name: 'Zoë' };
+    expect(decodeJwtPayload(makeToken(payload))).toEqual(payload);
+  });
+
+  test('returns null for malformed tokens', () => {
+    expect(decodeJwtPayload('not-a-token')).toBeNull();
+    expect(decodeJwtPayload('a.b')).toBeNull();
+    expect(decodeJwtPayload('a.%%%.c')).toBeNull();
+    expect(decodeJwtPayload(`a.${encodeBase64Url('"text"')}.c`)).toBeNull();
+  });
+});
+
+describe('getTokenExpiry', () => {
+  test('returns the expiry in milliseconds', () => {
+    expect(getTokenExpiry(makeToken({ exp: 1800000000 }))).toBe(1800000000000);
+  });
+
+  test('returns null without a numeric exp claim', () => {
+    expect(getTokenExpiry(makeToken({ user_id: 7 }))).toBeNull();
+    expect(getTokenExpiry(makeToken({ exp: 'tomorrow' }))).toBeNull();
+    expect(getTokenExpiry('opaque-token')).toBeNull();
+  });
+});
+
+describe('isTokenExpiring', () => {
+  const expiresIn = (seconds: number) => makeToken({ exp: NOW / 1000 + seconds });
+
+  test('is true for expired tokens', () => {
+    expect(isTokenExpiring(expiresIn(-1))).toBe(true);
+    expect(isTokenExpiring(expiresIn(0))).toBe(true);
+  });
+
+  test('is false for tokens valid beyond the window', () => {
+    expect(isTokenExpiring(expiresIn(120))).toBe(false);
+    expect(isTokenExpiring(expiresIn(120), 60 * 1000)).toBe(false);
+  });
+
+  test('is true for tokens expiring within the window', () => {
+    expect(isTokenExpiring(expiresIn(30), 60 * 1000)).toBe(true);
+  });
+
+  test('treats tokens without a readable expiry as not expiring', () => {
+    expect(isTokenExpiring('opaque-token', 60 * 1000)).toBe(false);
+  });
+});
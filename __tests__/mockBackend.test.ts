@@ -0,0 +1,175 @@
+/**
+ * @format
+ */
+
+import * as authService from '../src/service/authService';
+import * as movieService from '../src/service/movieService';
+import { applyDemoMode, clearAuthToken, setAuthToken } from '../src/service/api';
+import { ApiError } from '../src/service/apiError';
+import { db } from '../src/service/mock/mockStore';
+import * as storage from '../src/utils/storage';
+import { createMemoryBackend } from '../src/utils/storageBackends';
+import { MovieCreateInput } from '../src/types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+jest.mock('react-native-keychain', () => ({}));
+
+const newMovie: MovieCreateInput = {
+  title: 'Heat',
+  description: 'A group of professional bank robbers start to feel the heat.',
+  genres: [1],
+  release_date: '1995-12-15',
+  duration: 170,
+  director: 'Michael Mann',
+  cast: 'Al Pacino, Robert De Niro',
+  poster_url: 'https://example.com/heat.jpg',
+};
+
+/**
+ * Logs in as the demo user and stores the session like AuthContext does
+ */
+const logInAsDemoUser = async () => {
+  const session = await authService.login({ email: 'demo@example.com', password: 'demo1234' });
+  await storage.setTokens(session.tokens);
+  setAuthToken(session.tokens.access);
+  return session;
+};
+
+/**
+ * Runs a request expected to fail and returns its error
+ */
+const captureError = async (request: Promise<unknown>): Promise<ApiError> => {
+  try {
+    await request;
+  } catch (error) {
+    return error as ApiError;
+  }
+  throw new Error('Expected the request to fail');
+};
+
+beforeEach(() => {
+  storage.configureStorage({ app: createMemoryBackend(), secure: createMemoryBackend() });
+  applyDemoMode(false);
+  applyDemoMode(true);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  clearAuthToken();
+  jest.restoreAllMocks();
+});
+
+describe('login', () => {
+  test('returns the user and a token pair', async () => {
+    const { user, tokens } = await authService.login({ email: 'demo@example.com', password: 'demo1234' });
+
+    expect(user.email).toBe('demo@example.com');
+    expect(tokens.access).toEqual(expect.any(String));
+    expect(tokens.refresh).toEqual(expect.any(String));
+  });
+
+  test("rejects wrong credentials with the backend's message", async () => {
+    const error = await captureError(authService.login({ email: 'demo@example.com', password: 'wrong' }));
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.kind).toBe('auth');
+    expect(error.status).toBe(401);
+    expect(error.message).toBe('No active account found with the given credentials');
+  });
+});
+
+describe('token refresh', () => {
+  test('refreshes a rejected access token and retries the request', async () => {
+    const { user, tokens } = await logInAsDemoUser();
+    db.revokedTokens.add(tokens.access);
+
+    const profile = await authService.getUserProfile();
+
+    expect(profile.id).toBe(user.id);
+    const stored = await storage.getTokens();
+    expect(stored?.access).not.toBe(tokens.access);
+    expect(stored?.refresh).not.toBe(tokens.refresh);
+  });
+
+  test('refreshes an expired access token before sending the request', async () => {
+    const { tokens } = await logInAsDemoUser();
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 10 * 60 * 1000);
+
+    await movieService.getMovies(1);
+
+    expect((await storage.getTokens())?.access).not.toBe(tokens.access);
+  });
+
+  test('ends the session when the refresh token is rejected as well', async () => {
+    const { tokens } = await logInAsDemoUser();
+    db.revokedTokens.add(tokens.access);
+    db.revokedTokens.add(tokens.refresh);
+
+    const error = await captureError(authService.getUserProfile());
+
+    expect(error.kind).toBe('auth');
+    expect(await storage.getTokens()).toBeNull();
+  });
+});
+
+describe('movies', () => {
+  test('creates, updates and deletes a movie', async () => {
+    await logInAsDemoUser();
+
+    const created = await movieService.createMovie(newMovie);
+    expect(created).toMatchObject({ title: 'Heat', duration: 170 });
+
+    const updated = await movieService.updateMovie(created.id, { title: 'Heat (1995)' });
+    expect(updated.title).toBe('Heat (1995)');
+    expect((await movieService.getMovieById(created.id)).title).toBe('Heat (1995)');
+
+    await movieService.deleteMovie(created.id);
+    expect((await captureError(movieService.getMovieById(created.id))).kind).toBe('not_found');
+  });
+
+  test('reports invalid fields as field errors', async () => {
+    await logInAsDemoUser();
+
+    const error = await captureError(
+      movieService.createMovie({ ...newMovie, title: '', duration: 0, release_date: '15.12.1995', genres: [] }),
+    );
+
+    expect(error.kind).toBe('validation');
+    expect(error.status).toBe(400);
+    expect(Object.keys(error.fieldErrors).sort()).toEqual(['duration', 'genres', 'release_date', 'title']);
+  });
+
+  test('rejects an update based on an outdated version with a conflict', async () => {
+    await logInAsDemoUser();
+    const created = await movieService.createMovie(newMovie);
+    const edited = await movieService.updateMovie(created.id, { duration: 171 }, created.updated_at);
+
+    const error = await captureError(movieService.updateMovie(created.id, { duration: 172 }, created.updated_at));
+
+    expect(error.kind).toBe('conflict');
+    expect(error.status).toBe(412);
+    expect((await movieService.getMovieById(created.id)).duration).toBe(171);
+    await expect(movieService.updateMovie(created.id, { duration: 172 }, edited.updated_at)).resolves.toMatchObject({
+      duration: 172,
+    });
+  });
+});
+
+describe('data export', () => {
+  test("collects the user's profile, reviews and movies from every page", async () => {
+    const { user } = await logInAsDemoUser();
+    const created = await movieService.createMovie(newMovie);
+    const review = await movieService.createReview(created.id, { rating: 5, comment: 'Classic' });
+
+    const data = await authService.exportUserData();
+
+    expect(data.user.id).toBe(user.id);
+    expect(data.movies.map(movie => movie.id)).toContain(created.id);
+    expect(data.movies.every(movie => movie.created_by === user.id)).toBe(true);
+    expect(data.reviews).toContainEqual(expect.objectContaining({ id: review.id, movie: created.id }));
+    expect(data.reviews).toHaveLength(db.reviews.filter(candidate => candidate.user === user.id).length);
+  });
+});
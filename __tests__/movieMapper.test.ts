@@ -0,0 +1,77 @@
+/**
+ * @format
+ */
+
+import { Movie } from '../src/types';
+import {
+  getMovieChanges,
+  getMovieConflicts,
+  hasMovieChanges,
+  mergeMovieEdits,
+  movieToFormValues,
+} from '../src/utils/movieMapper';
+
+const base: Movie = {
+  id: 1,
+  title: 'Heat',
+  description: 'Cops and robbers.',
+  genres: [
+    { id: 1, value: 'ACTION', label: 'Action' },
+    { id: 12, value: 'CRIME', label: 'Crime' },
+  ],
+  release_date: '1995-12-15',
+  duration: 170,
+  poster: 'https://example.com/heat.jpg',
+  director: 'Michael Mann',
+  cast: 'Al Pacino, Robert De Niro',
+  created_by: 1,
+  updated_at: '2026-10-18T12:00:00.000Z',
+};
+
+describe('getMovieChanges', () => {
+  test('is empty when nothing was edited', () => {
+    const values = { ...movieToFormValues(base), title: ' Heat ', genres: [12, 1] };
+    expect(hasMovieChanges(getMovieChanges(base, values))).toBe(false);
+  });
+
+  test('holds only the edited fields, normalized for the API', () => {
+    const values = { ...movieToFormValues(base), duration: '171', director: ' M. Mann ' };
+    expect(getMovieChanges(base, values)).toEqual({ duration: 171, director: 'M. Mann' });
+  });
+});
+
+describe('getMovieConflicts', () => {
+  test('reports fields both sides changed to different values', () => {
+    const latest = { ...base, title: 'Heat (1995)', duration: 171 };
+    const values = { ...movieToFormValues(base), title: 'HEAT', director: 'M. Mann' };
+
+    expect(getMovieConflicts(base, latest, values)).toEqual(['title']);
+  });
+
+  test('ignores fields both sides changed to the same value', () => {
+    const latest = { ...base, title: 'Heat (1995)' };
+    const values = { ...movieToFormValues(base), title: 'Heat (1995)' };
+
+    expect(getMovieConflicts(base, latest, values)).toEqual([]);
+  });
+});
+
+describe('mergeMovieEdits', () => {
+  const latest = { ...base, title: 'Heat (1995)', duration: 171, genres: [base.genres[0]] };
+  const values = { ...movieToFormValues(base), title: 'HEAT', director: 'M. Mann' };
+
+  test("applies the user's edits onto the latest version", () => {
+    expect(mergeMovieEdits(base, latest, values)).toEqual({
+      ...movieToFormValues(latest),
+      title: 'HEAT',
+      director: 'M. Mann',
+    });
+  });
+
+  test('keeps the server value of conflicts resolved in its favour', () => {
+    expect(mergeMovieEdits(base, latest, values, ['title'])).toEqual({
+      ...movieToFormValues(latest),
+      director: 'M. Mann',
+    });
+  });
+});
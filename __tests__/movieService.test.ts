@@ -0,0 +1,125 @@
+/**
+ * @format
+ */
+
+import { api } from '../src/service/api';
+import { applyMovieQuery, getMovies } from '../src/service/movieService';
+import { Movie } from '../src/types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+jest.mock('react-native-keychain', () => ({}));
+
+const action = { id: 1, value: 'ACTION', label: 'Action' };
+const crime = { id: 12, value: 'CRIME', label: 'Crime' };
+const drama = { id: 18, value: 'DRAMA', label: 'Drama' };
+
+/**
+ * Creates a movie with the given fields; the rest is filled in
+ */
+const createMovie = (fields: Partial<Movie> & Pick<Movie, 'id'>): Movie => ({
+  title: `Movie ${fields.id}`,
+  description: '',
+  genres: [],
+  release_date: '2000-01-01',
+  duration: 100,
+  poster: '',
+  director: 'Someone',
+  cast: '',
+  created_by: 1,
+  ...fields,
+});
+
+const heat = createMovie({
+  id: 1,
+  title: 'Heat',
+  genres: [action, crime],
+  average_rating: 4.5,
+  release_date: '1995-12-15',
+  duration: 170,
+  director: 'Michael Mann',
+});
+const godfather = createMovie({
+  id: 2,
+  title: 'The Godfather',
+  genres: [crime, drama],
+  average_rating: 4.8,
+  release_date: '1972-03-24',
+  duration: 175,
+  director: 'Francis Ford Coppola',
+});
+const speed = createMovie({
+  id: 3,
+  title: 'Speed',
+  genres: [action],
+  release_date: '1994-06-10',
+  duration: 116,
+  director: 'Jan de Bont',
+});
+const movies = [heat, godfather, speed];
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('applyMovieQuery', () => {
+  test('keeps every movie without a query', () => {
+    expect(applyMovieQuery(movies, {})).toEqual(movies);
+  });
+
+  test('keeps movies with any of the genres', () => {
+    expect(applyMovieQuery(movies, { genres: [action.id, drama.id] })).toEqual(movies);
+    expect(applyMovieQuery(movies, { genres: [drama.id], genreMatch: 'any' })).toEqual([godfather]);
+  });
+
+  test('keeps movies with all of the genres', () => {
+    expect(applyMovieQuery(movies, { genres: [action.id, crime.id], genreMatch: 'all' })).toEqual([heat]);
+  });
+
+  test('keeps movies within the year and duration bounds', () => {
+    expect(applyMovieQuery(movies, { yearMin: 1990, yearMax: 1999 })).toEqual([heat, speed]);
+    expect(applyMovieQuery(movies, { durationMax: 120 })).toEqual([speed]);
+    expect(applyMovieQuery(movies, { yearMin: 1990, durationMin: 170 })).toEqual([heat]);
+  });
+
+  test('leaves unrated movies out of a minimum rating', () => {
+    expect(applyMovieQuery(movies, { ratingMin: 4.6 })).toEqual([godfather]);
+    expect(applyMovieQuery(movies, { ratingMin: 0 })).toEqual([heat, godfather]);
+  });
+
+  test("keeps movies whose director's name contains the text", () => {
+    expect(applyMovieQuery(movies, { director: 'MANN' })).toEqual([heat]);
+  });
+
+  test('sorts by the ordering in both directions', () => {
+    expect(applyMovieQuery(movies, { ordering: 'title' })).toEqual([heat, speed, godfather]);
+    expect(applyMovieQuery(movies, { ordering: '-id' })).toEqual([speed, godfather, heat]);
+  });
+
+  test('sorts unrated movies last in both directions', () => {
+    expect(applyMovieQuery(movies, { ordering: 'average_rating' })).toEqual([heat, godfather, speed]);
+    expect(applyMovieQuery(movies, { ordering: '-average_rating' })).toEqual([godfather, heat, speed]);
+  });
+
+  test('leaves the pages it was given untouched', () => {
+    const page = [speed, heat];
+
+    applyMovieQuery(page, { ordering: 'id' });
+
+    expect(page).toEqual([speed, heat]);
+  });
+});
+
+describe('getMovies', () => {
+  test('sends the query as params and applies it to the page in case the backend ignored it', async () => {
+    const get = jest
+      .spyOn(api, 'get')
+      .mockResolvedValue({ data: { count: 3, next: null, previous: null, results: movies } });
+
+    const page = await getMovies(1, { genres: [drama.id] });
+
+    expect(get).toHaveBeenCalledWith('/movies/?page=1&genres=18&genre_match=any', { signal: undefined });
+    expect(page.results).toEqual([godfather]);
+  });
+});
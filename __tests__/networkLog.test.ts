@@ -0,0 +1,55 @@
+/**
+ * @format
+ */
+
+import { AxiosHeaders } from 'axios';
+import { redactBody, redactHeaders } from '../src/service/networkLog';
+
+describe('redactBody', () => {
+  test('redacts passwords, tokens, secrets and emailed codes', () => {
+    expect(
+      redactBody({
+        email: 'demo@example.com',
+        code: '123456',
+        new_password: 'secret1',
+        new_password_confirm: 'secret1',
+        client_secret: 'abc',
+        refresh_token: 'r',
+      }),
+    ).toEqual({
+      email: 'demo@example.com',
+      code: '[redacted]',
+      new_password: '[redacted]',
+      new_password_confirm: '[redacted]',
+      client_secret: '[redacted]',
+      refresh_token: '[redacted]',
+    });
+  });
+
+  test('redacts token pairs in nested and serialized bodies', () => {
+    expect(redactBody(JSON.stringify({ user: { id: 1 }, tokens: { access: 'a', refresh: 'r' } }))).toEqual({
+      user: { id: 1 },
+      tokens: '[redacted]',
+    });
+    expect(redactBody([{ access: 'a', title: 'Heat' }])).toEqual([{ access: '[redacted]', title: 'Heat' }]);
+  });
+});
+
+describe('redactHeaders', () => {
+  test('masks the bearer token and drops cookies', () => {
+    const headers = new AxiosHeaders({ Authorization: 'Bearer abcdefghijkl', Cookie: 'sessionid=1', Accept: 'json' });
+    expect(redactHeaders(headers)).toEqual({
+      Authorization: 'Bearer …ghijkl',
+      Cookie: '[redacted]',
+      Accept: 'json',
+    });
+  });
+
+  test('accepts plain header objects', () => {
+    expect(redactHeaders({ 'content-type': 'application/json', 'set-cookie': 'a=b' })).toEqual({
+      'content-type': 'application/json',
+      'set-cookie': '[redacted]',
+    });
+    expect(redactHeaders(undefined)).toEqual({});
+  });
+});
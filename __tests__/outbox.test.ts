@@ -0,0 +1,125 @@
+/**
+ * @format
+ */
+
+import { ApiError } from '../src/service/apiError';
+import * as movieService from '../src/service/movieService';
+import * as outbox from '../src/service/outbox';
+import * as storage from '../src/utils/storage';
+import { createMemoryBackend } from '../src/utils/storageBackends';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+jest.mock('react-native-keychain', () => ({}));
+jest.mock('../src/service/movieService');
+
+const mockedService = jest.mocked(movieService);
+
+const review = { rating: 4, comment: 'Great' };
+
+beforeEach(async () => {
+  storage.configureStorage({ app: createMemoryBackend(), secure: createMemoryBackend() });
+  await storage.setActiveAccountId(1);
+  jest.resetAllMocks();
+});
+
+describe('enqueueMutation', () => {
+  test('queues mutations in order for the active account', async () => {
+    await outbox.enqueueMutation({ type: 'addReview', movieId: 1, data: review });
+    const queued = await outbox.enqueueMutation({ type: 'deleteMovie', movieId: 2 });
+
+    expect(queued.map(entry => entry.type)).toEqual(['addReview', 'deleteMovie']);
+    expect(queued.every(entry => entry.accountId === 1)).toBe(true);
+  });
+
+  test("keeps other accounts' mutations apart", async () => {
+    await outbox.enqueueMutation({ type: 'deleteMovie', movieId: 2 });
+    await storage.setActiveAccountId(2);
+
+    expect(await outbox.getOutbox()).toEqual([]);
+    await outbox.discardAccountMutations(1);
+    await storage.setActiveAccountId(1);
+    expect(await outbox.getOutbox()).toEqual([]);
+  });
+});
+
+describe('replayOutbox', () => {
+  test('sends every queued mutation and empties the queue', async () => {
+    await outbox.enqueueMutation({ type: 'addReview', movieId: 1, data: review });
+    await outbox.enqueueMutation({ type: 'updateMovie', movieId: 2, data: { title: 'New' }, version: 'v1' });
+
+    const { synced, failures, remaining } = await outbox.replayOutbox();
+
+    expect(synced).toHaveLength(2);
+    expect(failures).toEqual([]);
+    expect(remaining).toEqual([]);
+    expect(mockedService.createReview).toHaveBeenCalledWith(1, review);
+    expect(mockedService.updateMovie).toHaveBeenCalledWith(2, { title: 'New' }, 'v1');
+    expect(await outbox.getOutbox()).toEqual([]);
+  });
+
+  test.each(['network', 'auth', 'server', 'throttled'] as const)(
+    'stops at a %s error and keeps the rest queued',
+    async kind => {
+      mockedService.deleteMovie.mockRejectedValueOnce(new ApiError(kind, 'Failed'));
+      await outbox.enqueueMutation({ type: 'deleteMovie', movieId: 1 });
+      await outbox.enqueueMutation({ type: 'deleteReview', movieId: 1, reviewId: 5 });
+
+      const { synced, failures, remaining } = await outbox.replayOutbox();
+
+      expect(synced).toEqual([]);
+      expect(failures).toEqual([]);
+      expect(remaining.map(entry => entry.type)).toEqual(['deleteMovie', 'deleteReview']);
+      expect(mockedService.deleteReview).not.toHaveBeenCalled();
+      expect(await outbox.getOutbox()).toHaveLength(2);
+    },
+  );
+
+  test.each([
+    ['forbidden', 403],
+    ['validation', 400],
+    ['not_found', 404],
+    ['conflict', 412],
+    ['unknown', 418],
+  ] as const)('drops and reports a mutation refused as %s and continues', async (kind, status) => {
+    const error = new ApiError(kind, 'Refused', { status });
+    mockedService.createReview.mockRejectedValueOnce(error);
+    await outbox.enqueueMutation({ type: 'addReview', movieId: 1, data: review });
+    await outbox.enqueueMutation({ type: 'deleteMovie', movieId: 2 });
+
+    const { synced, failures, remaining } = await outbox.replayOutbox();
+
+    expect(failures).toEqual([{ entry: expect.objectContaining({ type: 'addReview' }), error }]);
+    expect(synced.map(entry => entry.type)).toEqual(['deleteMovie']);
+    expect(remaining).toEqual([]);
+    expect(await outbox.getOutbox()).toEqual([]);
+  });
+
+  test("leaves other accounts' mutations queued", async () => {
+    await storage.setActiveAccountId(2);
+    await outbox.enqueueMutation({ type: 'deleteMovie', movieId: 2 });
+    await storage.setActiveAccountId(1);
+
+    const { synced } = await outbox.replayOutbox();
+
+    expect(synced).toEqual([]);
+    expect(await storage.getOutbox()).toHaveLength(1);
+  });
+});
+
+describe('getReplayDelay', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('grows with every attempt and stays between half and the full ceiling', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    expect(outbox.getReplayDelay(0)).toBe(2500);
+    expect(outbox.getReplayDelay(2)).toBe(10000);
+
+    jest.spyOn(Math, 'random').mockReturnValue(0.999999);
+    expect(outbox.getReplayDelay(0)).toBe(5000);
+    expect(outbox.getReplayDelay(20)).toBe(300000);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * @format
+ */
+
+import { AxiosError, AxiosHeaders, CanceledError, InternalAxiosRequestConfig } from 'axios';
+import { MAX_RETRIES, getBackoffDelay, getRetryDelay, parseRetryAfter } from '../src/service/retryPolicy';
+
+const makeError = (
+  configOverrides: Partial<InternalAxiosRequestConfig> = {},
+  status?: number,
+  headers: Record<string, string> = {},
+) => {
+  const config = { headers: new AxiosHeaders(), method: 'get', ...configOverrides } as InternalAxiosRequestConfig;
+  const response = status === undefined ? undefined : { status, statusText: '', data: {}, headers, config };
+  return new AxiosError('Request failed', undefined, config, {}, response);
+};
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('parseRetryAfter', () => {
+  test('reads delays in seconds', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+    expect(parseRetryAfter(2)).toBe(2000);
+  });
+
+  test('reads HTTP dates relative to now', () => {
+    jest.spyOn(Date, 'now').mockReturnValue(Date.parse('Wed, 21 Oct 2026 07:28:00 GMT'));
+    expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:05 GMT')).toBe(5000);
+    expect(parseRetryAfter('Wed, 21 Oct 2026 07:27:00 GMT')).toBe(0);
+  });
+
+  test('returns null for missing or unreadable values', () => {
+    expect(parseRetryAfter(undefined)).toBeNull();
+    expect(parseRetryAfter('soon')).toBeNull();
+  });
+});
+
+describe('getBackoffDelay', () => {
+  test('stays between zero and the doubling ceiling', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.999999);
+    expect(getBackoffDelay(0)).toBe(500);
+    expect(getBackoffDelay(1)).toBe(1000);
+    expect(getBackoffDelay(3)).toBe(4000);
+    expect(getBackoffDelay(10)).toBe(8000);
+
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    expect(getBackoffDelay(3)).toBe(0);
+  });
+});
+
+describe('getRetryDelay', () => {
+  beforeEach(() => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+  });
+
+  test('retries idempotent requests after network and server errors', () => {
+    expect(getRetryDelay(makeError())).toBe(250);
+    expect(getRetryDelay(makeError({ method: 'head' }, 503))).toBe(250);
+    expect(getRetryDelay(makeError({ _retryCount: 2 }, 500))).toBe(1000);
+  });
+
+  test('never retries writes', () => {
+    ['post', 'put', 'patch', 'delete'].forEach(method => {
+      expect(getRetryDelay(makeError({ method }, 503))).toBeNull();
+    });
+  });
+
+  test('gives up after the maximum number of retries', () => {
+    expect(getRetryDelay(makeError({ _retryCount: MAX_RETRIES }, 500))).toBeNull();
+  });
+
+  test('does not retry opted-out, canceled or client-error requests', () => {
+    expect(getRetryDelay(makeError({ retry: false }, 500))).toBeNull();
+    expect(getRetryDelay(new CanceledError())).toBeNull();
+    expect(getRetryDelay(makeError({}, 404))).toBeNull();
+    expect(getRetryDelay(makeError({}, 400))).toBeNull();
+  });
+
+  test('waits as long as Retry-After asks on 429, within limits', () => {
+    expect(getRetryDelay(makeError({}, 429, { 'retry-after': '2' }))).toBe(2000);
+    expect(getRetryDelay(makeError({}, 429))).toBe(250);
+    expect(getRetryDelay(makeError({}, 429, { 'retry-after': '120' }))).toBeNull();
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * @format
+ */
+
+import * as storage from '../src/utils/storage';
+import { StorageBackend, createMemoryBackend } from '../src/utils/storageBackends';
+import { User } from '../src/types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+jest.mock('react-native-keychain', () => ({}));
+
+const tokens = { access: 'access-1', refresh: 'refresh-1' };
+const user = { id: 7, username: 'demo', email: 'demo@example.com' } as User;
+
+/**
+ * Creates a backend whose writes always fail, like a keystore that is unavailable
+ */
+const createFailingBackend = (): StorageBackend => ({
+  ...createMemoryBackend(),
+  setItem: () => Promise.reject(new Error('Keystore unavailable')),
+});
+
+beforeEach(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('legacy secret migration', () => {
+  test('moves secrets out of AsyncStorage into the encrypted backend', async () => {
+    const app = createMemoryBackend({ user_tokens: JSON.stringify(tokens), demo_mode: 'true' });
+    const secure = createMemoryBackend();
+    storage.configureStorage({ app, secure });
+
+    expect(await storage.getTokens()).toEqual(tokens);
+    expect(await app.getItem('user_tokens')).toBeNull();
+    expect(JSON.parse((await secure.getItem('user_tokens')) ?? 'null')).toEqual(tokens);
+    expect(await storage.getDemoModeEnabled()).toBe(true);
+  });
+
+  test('keeps a value already in the encrypted backend', async () => {
+    const newer = { access: 'access-2', refresh: 'refresh-2' };
+    const app = createMemoryBackend({ user_tokens: JSON.stringify(tokens) });
+    const secure = createMemoryBackend({ user_tokens: JSON.stringify(newer) });
+    storage.configureStorage({ app, secure });
+
+    expect(await storage.getTokens()).toEqual(newer);
+    expect(await app.getItem('user_tokens')).toBeNull();
+  });
+
+  test('keeps the legacy copy when the encrypted backend cannot be written', async () => {
+    const app = createMemoryBackend({ user_tokens: JSON.stringify(tokens) });
+    storage.configureStorage({ app, secure: createFailingBackend() });
+
+    await expect(storage.getTokens()).rejects.toThrow('Keystore unavailable');
+
+    expect(await app.getItem('user_tokens')).toBe(JSON.stringify(tokens));
+  });
+
+  test('tries again on the next access after a failure', async () => {
+    const app = createMemoryBackend({ user_tokens: JSON.stringify(tokens) });
+    const secure = createMemoryBackend();
+    const setItem = secure.setItem;
+    secure.setItem = jest.fn().mockRejectedValueOnce(new Error('Keystore unavailable')).mockImplementation(setItem);
+    storage.configureStorage({ app, secure });
+
+    await expect(storage.getTokens()).rejects.toThrow('Keystore unavailable');
+
+    expect(await storage.getTokens()).toEqual(tokens);
+    expect(await app.getItem('user_tokens')).toBeNull();
+  });
+});
+
+describe('read failures', () => {
+  test('are passed on when secrets cannot be read', async () => {
+    const secure = createMemoryBackend({ user_tokens: JSON.stringify(tokens) });
+    secure.getItem = () => Promise.reject(new Error('Keystore unavailable'));
+    storage.configureStorage({ app: createMemoryBackend(), secure });
+
+    await expect(storage.getTokens()).rejects.toThrow('Keystore unavailable');
+    await expect(storage.getAccounts()).rejects.toThrow('Keystore unavailable');
+  });
+
+  test('are only logged for other data', async () => {
+    const app = createMemoryBackend({ demo_mode: 'true' });
+    app.getItem = () => Promise.reject(new Error('Storage unavailable'));
+    storage.configureStorage({ app, secure: createMemoryBackend() });
+
+    await expect(storage.getDemoModeEnabled()).resolves.toBe(false);
+    expect(console.error).toHaveBeenCalled();
+  });
+});
+
+describe('write failures', () => {
+  test('are passed on when secrets cannot be stored', async () => {
+    storage.configureStorage({ app: createMemoryBackend(), secure: createFailingBackend() });
+
+    await expect(storage.saveAccount(user, tokens)).rejects.toThrow('Keystore unavailable');
+    await expect(storage.setTokens(tokens)).rejects.toThrow('Keystore unavailable');
+  });
+
+  test('are only logged for other data', async () => {
+    storage.configureStorage({ app: createFailingBackend(), secure: createMemoryBackend() });
+
+    await expect(storage.setDemoModeEnabled(true)).resolves.toBeUndefined();
+    expect(console.error).toHaveBeenCalled();
+  });
+
+  test('leave nothing behind when the account could not be stored', async () => {
+    storage.configureStorage({ app: createMemoryBackend(), secure: createFailingBackend() });
+
+    await storage.saveAccount(user, tokens).catch(() => undefined);
+
+    expect(await storage.getAccounts()).toEqual([]);
+    expect(await storage.getActiveAccountId()).toBeNull();
+  });
+});
@@ -4,6 +4,7 @@
  * This component provides a consistent card interface for movie listings with:
  * - Movie poster image with placeholder fallback
  * - Movie title, genres, and release date
+ * - Highlighting of search matches, including matching director and cast lines
  * - Touch interaction for navigation to movie details
  * - Consistent styling using global theme colors
  * - Shadow effects and rounded corners for modern UI
@@ -15,6 +16,7 @@ import React from 'react';
 import { View, Text, StyleSheet, Image } from 'react-native';
 import TouchableScale from 'react-native-touchable-scale';
 import { Movie } from '../../types';
+import HighlightedText, { containsSearchTerm } from '../common/HighlightedText';
 import { globalStyles,colors,spacing } from '../../styles/globalStyles';
 
 /**
@@ -23,10 +25,12 @@ import { globalStyles,colors,spacing } from '../../styles/globalStyles';
  * @interface MovieCardProps
  * @property {Movie} movie - Movie object containing all movie information
  * @property {() => void} onPress - Function to call when card is pressed
+ * @property {string} [highlight] - Search query whose matches are highlighted
  */
 interface MovieCardProps {
   movie: Movie;
   onPress: () => void;
+  highlight?: string;
 }
 
 /**
@@ -37,6 +41,7 @@ interface MovieCardProps {
  * - Movie title with line clamping for consistent layout
  * - Genre display as comma-separated list
  * - Release date information
+ * - Director and cast lines, shown when they match the search
  * - Touch interaction with scale animation
  * - Consistent styling using global theme colors
  * 
@@ -45,7 +50,7 @@ interface MovieCardProps {
  * @param {MovieCardProps} props - Component properties
  * @returns {JSX.Element} Rendered movie card component
  */
-const MovieCard: React.FC<MovieCardProps> = ({ movie, onPress }) => {
+const MovieCard: React.FC<MovieCardProps> = ({ movie, onPress, highlight }) => {
   return (
     <TouchableScale style={styles.card} onPress={onPress} activeScale={0.98}>
       <Image
@@ -54,9 +59,19 @@ const MovieCard: React.FC<MovieCardProps> = ({ movie, onPress }) => {
         defaultSource={require('../../assets/placeholder.jpeg')}
       />
       <View style={styles.infoContainer}>
-        <Text style={styles.title} numberOfLines={2}>{movie.title}</Text>
+        <HighlightedText style={styles.title} numberOfLines={2} text={movie.title} highlight={highlight} />
         <Text style={styles.genre}>{movie.genres.map(g => g.label).join(', ')}</Text>
         <Text style={styles.details}>Release: {movie.release_date}</Text>
+        {containsSearchTerm(movie.director, highlight) && (
+          <Text style={styles.details} numberOfLines={1}>
+            Director: <HighlightedText text={movie.director} highlight={highlight} />
+          </Text>
+        )}
+        {containsSearchTerm(movie.cast, highlight) && (
+          <Text style={styles.details} numberOfLines={2}>
+            Cast: <HighlightedText text={movie.cast} highlight={highlight} />
+          </Text>
+        )}
       </View>
     </TouchableScale>
   );
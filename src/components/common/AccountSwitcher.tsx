@@ -0,0 +1,160 @@
+/**
+ * @fileoverview Account switcher shown at the top of the drawer
+ *
+ * This component lists the signed-in accounts:
+ * - The current account with its name and email
+ * - Every other signed-in account, switched to with a single tap
+ * - An entry for signing in to another account
+ *
+ * Switching restarts the main app for the chosen account, so the drawer
+ * closes on its own. Integrates with AuthContext for the account list.
+ */
+
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Image, ActivityIndicator } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { useAuth } from '../../context/AuthContext';
+import { User } from '../../types';
+import { colors, spacing } from '../../styles/globalStyles';
+
+/**
+ * Props interface for the AccountAvatar component
+ *
+ * @interface AccountAvatarProps
+ * @property {User} user - Account to show the picture of
+ * @property {number} size - Diameter of the avatar
+ */
+interface AccountAvatarProps {
+  user: User;
+  size: number;
+}
+
+/**
+ * Profile picture of an account, with a fallback icon
+ *
+ * @param {AccountAvatarProps} props - Component properties
+ * @returns {JSX.Element} Rendered avatar
+ */
+const AccountAvatar: React.FC<AccountAvatarProps> = ({ user, size }) => {
+  const shape = { width: size, height: size, borderRadius: size / 2 };
+  return user.profile_picture ? (
+    <Image source={{ uri: user.profile_picture }} style={[styles.avatar, shape]} />
+  ) : (
+    <View style={[styles.avatar, shape]}>
+      <Icon name="account" size={size * 0.6} color={colors.primary} />
+    </View>
+  );
+};
+
+/**
+ * Drawer header for switching between signed-in accounts
+ *
+ * @returns {JSX.Element|null} Rendered switcher or null if no user is signed in
+ */
+const AccountSwitcher: React.FC = () => {
+  const { user, accounts, switchAccount, beginAddAccount } = useAuth();
+  const [switchingTo, setSwitchingTo] = useState<number | null>(null);
+
+  /**
+   * Switches to another account, showing progress on its row.
+   * @param {number} userId - User ID of the account.
+   */
+  const handleSwitch = async (userId: number) => {
+    setSwitchingTo(userId);
+    try {
+      await switchAccount(userId);
+    } finally {
+      setSwitchingTo(null);
+    }
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  const otherAccounts = accounts.filter(account => account.id !== user.id);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.current}>
+        <AccountAvatar user={user} size={56} />
+        <Text style={styles.name}>{user.first_name} {user.last_name}</Text>
+        <Text style={styles.email}>{user.email}</Text>
+      </View>
+      {otherAccounts.map(account => (
+        <TouchableOpacity
+          key={account.id}
+          style={styles.row}
+          onPress={() => handleSwitch(account.id)}
+          disabled={switchingTo !== null}
+        >
+          <AccountAvatar user={account} size={32} />
+          <View style={styles.rowText}>
+            <Text style={styles.rowName}>@{account.username}</Text>
+            <Text style={styles.email}>{account.email}</Text>
+          </View>
+          {switchingTo === account.id && <ActivityIndicator color={colors.primary} />}
+        </TouchableOpacity>
+      ))}
+      <TouchableOpacity style={styles.row} onPress={beginAddAccount} disabled={switchingTo !== null}>
+        <View style={styles.addIcon}>
+          <Icon name="account-plus-outline" size={20} color={colors.primary} />
+        </View>
+        <Text style={[styles.rowText, styles.addText]}>Add account</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.sm,
+    marginBottom: spacing.sm,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: colors.gray,
+  },
+  current: {
+    paddingVertical: spacing.md,
+  },
+  avatar: {
+    backgroundColor: colors.background,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: colors.gray,
+  },
+  name: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: colors.dark,
+    marginTop: spacing.sm,
+  },
+  email: {
+    fontSize: 12,
+    color: colors.gray,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+  },
+  rowText: {
+    flex: 1,
+    marginLeft: spacing.sm,
+  },
+  rowName: {
+    fontSize: 14,
+    color: colors.dark,
+  },
+  addIcon: {
+    width: 32,
+    alignItems: 'center',
+  },
+  addText: {
+    color: colors.primary,
+    fontWeight: 'bold',
+  },
+});
+
+export default AccountSwitcher;
@@ -0,0 +1,83 @@
+/**
+ * @fileoverview Row of removable pills for the active filters of a list
+ *
+ * This component shows which filters narrow a list down with:
+ * - One pill per active filter
+ * - A remove button on each pill
+ * - Nothing at all when no filter is active
+ */
+
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { colors, spacing } from '../../styles/globalStyles';
+
+/**
+ * Props interface for the FilterPills component
+ *
+ * @interface FilterPillsProps
+ * @property {{key: string, label: string}[]} pills - Active filters
+ * @property {(key: string) => void} onRemove - Called with the key of the removed filter
+ */
+interface FilterPillsProps {
+  pills: { key: string; label: string }[];
+  onRemove: (key: string) => void;
+}
+
+/**
+ * Removable filter pills
+ *
+ * @param {FilterPillsProps} props - Component properties
+ * @returns {JSX.Element|null} Pills, or null without active filters
+ */
+const FilterPills: React.FC<FilterPillsProps> = ({ pills, onRemove }) => {
+  if (pills.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.row}>
+      {pills.map(pill => (
+        <View key={pill.key} style={styles.pill}>
+          <Text style={styles.label} numberOfLines={1}>
+            {pill.label}
+          </Text>
+          <TouchableOpacity
+            onPress={() => onRemove(pill.key)}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            accessibilityLabel={`Remove filter ${pill.label}`}
+          >
+            <Icon name="close-circle" size={16} color={colors.white} />
+          </TouchableOpacity>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: spacing.sm,
+  },
+  pill: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+    paddingLeft: 10,
+    paddingRight: 6,
+    marginRight: spacing.sm,
+    marginBottom: 4,
+    borderRadius: 14,
+    backgroundColor: colors.primary,
+  },
+  label: {
+    fontSize: 12,
+    color: colors.white,
+    marginRight: 4,
+    maxWidth: 180,
+  },
+});
+
+export default FilterPills;
@@ -0,0 +1,159 @@
+/**
+ * @fileoverview Horizontally scrolling genre chips for filtering movie lists
+ *
+ * This component lets users narrow a movie list down by genre with:
+ * - One chip per genre, toggled on and off for multi-select filtering
+ * - A toggle between matching all selected genres (AND) or any of them (OR)
+ * - A chip that clears the selection
+ *
+ * Also provides a short description of the active genre filter for headers.
+ * Genres come from GenreContext, so the chips match the backend's genre ids.
+ */
+
+import React from 'react';
+import { ScrollView, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { useGenres } from '../../context/GenreContext';
+import { GenreMatch } from '../../service/movieService';
+import { Genre } from '../../types';
+import { colors, spacing } from '../../styles/globalStyles';
+
+/**
+ * Props interface for the GenreFilterBar component
+ *
+ * @interface GenreFilterBarProps
+ * @property {number[]} selected - Ids of the selected genres
+ * @property {GenreMatch} match - Whether movies have to match all or any selected genre
+ * @property {(selected: number[]) => void} onChangeSelected - Called with the new selection
+ * @property {(match: GenreMatch) => void} onChangeMatch - Called when AND/OR is toggled
+ */
+interface GenreFilterBarProps {
+  selected: number[];
+  match: GenreMatch;
+  onChangeSelected: (selected: number[]) => void;
+  onChangeMatch: (match: GenreMatch) => void;
+}
+
+/**
+ * Describes a genre filter in a few words, e.g. "Action + Drama" or "Action or Drama"
+ *
+ * @param {number[]} selected - Ids of the selected genres
+ * @param {GenreMatch} match - Whether movies have to match all or any selected genre
+ * @param {Genre[]} genres - Genres to look up the labels in
+ * @returns {string|null} Description, or null when no genre is selected
+ */
+export const describeGenreFilter = (selected: number[], match: GenreMatch, genres: Genre[]): string | null => {
+  const labels = genres.filter(genre => selected.includes(genre.id)).map(genre => genre.label);
+  if (labels.length === 0) {
+    return null;
+  }
+  if (labels.length > 2) {
+    return `${labels.length} genres (${match === 'all' ? 'all' : 'any'})`;
+  }
+  return labels.join(match === 'all' ? ' + ' : ' or ');
+};
+
+/**
+ * Genre filter chip bar
+ *
+ * @param {GenreFilterBarProps} props - Component properties
+ * @returns {JSX.Element} Rendered chip bar
+ */
+const GenreFilterBar: React.FC<GenreFilterBarProps> = ({ selected, match, onChangeSelected, onChangeMatch }) => {
+  const { genres } = useGenres();
+
+  /**
+   * Adds a genre to the selection, or removes it if it was selected
+   *
+   * @param {number} id - Genre id
+   */
+  const toggleGenre = (id: number) => {
+    onChangeSelected(selected.includes(id) ? selected.filter(genre => genre !== id) : [...selected, id]);
+  };
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      style={styles.bar}
+      contentContainerStyle={styles.content}
+      keyboardShouldPersistTaps="handled"
+    >
+      <TouchableOpacity
+        style={[styles.chip, styles.matchChip]}
+        onPress={() => onChangeMatch(match === 'all' ? 'any' : 'all')}
+        accessibilityRole="button"
+        accessibilityLabel={match === 'all' ? 'Matching all selected genres' : 'Matching any selected genre'}
+      >
+        <Icon name={match === 'all' ? 'set-center' : 'set-all'} size={16} color={colors.primary} />
+        <Text style={styles.matchText}>{match === 'all' ? 'All (AND)' : 'Any (OR)'}</Text>
+      </TouchableOpacity>
+      {selected.length > 0 && (
+        <TouchableOpacity style={styles.chip} onPress={() => onChangeSelected([])} accessibilityRole="button">
+          <Icon name="close" size={16} color={colors.gray} />
+          <Text style={[styles.chipText, styles.clearText]}>Clear</Text>
+        </TouchableOpacity>
+      )}
+      {genres.map(genre => {
+        const isSelected = selected.includes(genre.id);
+        return (
+          <TouchableOpacity
+            key={genre.id}
+            style={[styles.chip, isSelected && styles.selectedChip]}
+            onPress={() => toggleGenre(genre.id)}
+            accessibilityRole="checkbox"
+            accessibilityState={{ checked: isSelected }}
+          >
+            <Text style={[styles.chipText, isSelected && styles.selectedText]}>{genre.label}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  bar: {
+    flexGrow: 0,
+    marginBottom: spacing.sm,
+  },
+  content: {
+    alignItems: 'center',
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginRight: spacing.sm,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.gray,
+    backgroundColor: colors.white,
+  },
+  matchChip: {
+    borderColor: colors.primary,
+  },
+  selectedChip: {
+    borderColor: colors.primary,
+    backgroundColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    color: colors.dark,
+  },
+  clearText: {
+    marginLeft: 4,
+  },
+  matchText: {
+    fontSize: 14,
+    color: colors.primary,
+    fontWeight: 'bold',
+    marginLeft: 4,
+  },
+  selectedText: {
+    color: colors.white,
+  },
+});
+
+export default GenreFilterBar;
@@ -0,0 +1,88 @@
+/**
+ * @fileoverview Text component that highlights search matches
+ *
+ * This component renders text with every occurrence of the search terms emphasized:
+ * - Splits the search query into whitespace-separated terms, like the backend does
+ * - Matches terms case-insensitively
+ * - Renders plain text when there is nothing to highlight
+ *
+ * Used by movie cards to show why a movie matched the search.
+ */
+
+import React from 'react';
+import { Text, StyleSheet, TextProps } from 'react-native';
+import { colors } from '../../styles/globalStyles';
+
+/**
+ * Props interface for the HighlightedText component
+ *
+ * @interface HighlightedTextProps
+ * @extends TextProps - Inherits all standard Text properties
+ * @property {string} text - Text to render
+ * @property {string} [highlight] - Search query whose terms are highlighted
+ */
+interface HighlightedTextProps extends TextProps {
+  text: string;
+  highlight?: string;
+}
+
+/**
+ * Escapes characters with a special meaning in regular expressions
+ *
+ * @param {string} value - Literal text
+ * @returns {string} Text safe to embed in a RegExp
+ */
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Tells whether a text contains any of the search query's terms
+ *
+ * @param {string} text - Text to search
+ * @param {string} [highlight] - Search query
+ * @returns {boolean} Whether at least one term occurs in the text
+ */
+export const containsSearchTerm = (text: string, highlight?: string): boolean => {
+  const lowerText = text.toLowerCase();
+  return (highlight ?? '')
+    .toLowerCase()
+    .split(/\s+/)
+    .some(term => term !== '' && lowerText.includes(term));
+};
+
+/**
+ * Text with the search query's terms highlighted
+ *
+ * @param {HighlightedTextProps} props - Component properties
+ * @returns {JSX.Element} Rendered text
+ */
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, highlight, ...props }) => {
+  const terms = (highlight ?? '').split(/\s+/).filter(Boolean).map(escapeRegExp);
+  if (terms.length === 0) {
+    return <Text {...props}>{text}</Text>;
+  }
+
+  // Splitting on a capturing group keeps the matches at the odd indexes
+  const parts = text.split(new RegExp(`(${terms.join('|')})`, 'gi'));
+  return (
+    <Text {...props}>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <Text key={index} style={styles.match}>
+            {part}
+          </Text>
+        ) : (
+          part
+        ),
+      )}
+    </Text>
+  );
+};
+
+const styles = StyleSheet.create({
+  match: {
+    backgroundColor: colors.secondary,
+    color: colors.dark,
+  },
+});
+
+export default HighlightedText;
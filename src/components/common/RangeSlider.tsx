@@ -0,0 +1,137 @@
+/**
+ * @fileoverview Slider with one or two draggable thumbs
+ *
+ * This component provides a dependency-free slider built on PanResponder with:
+ * - A single thumb for a minimum, or two thumbs for a range
+ * - Values snapped to a step and kept between the bounds and each other
+ * - The selected part of the track highlighted in the theme color
+ *
+ * Used by the advanced movie filters for year, duration and rating bounds.
+ */
+
+import React, { useMemo, useRef, useState } from 'react';
+import { View, PanResponder, StyleSheet, LayoutChangeEvent } from 'react-native';
+import { colors } from '../../styles/globalStyles';
+
+/** Diameter of a thumb (px) */
+const THUMB_SIZE = 24;
+
+/**
+ * Props interface for the RangeSlider component
+ *
+ * @interface RangeSliderProps
+ * @property {number} min - Lowest selectable value
+ * @property {number} max - Highest selectable value
+ * @property {number} step - Distance between selectable values
+ * @property {number[]} values - Current value, or lower and upper value of a range
+ * @property {(values: number[]) => void} onChange - Called with the new values while dragging
+ */
+interface RangeSliderProps {
+  min: number;
+  max: number;
+  step: number;
+  values: number[];
+  onChange: (values: number[]) => void;
+}
+
+/**
+ * Slider component
+ *
+ * @param {RangeSliderProps} props - Component properties
+ * @returns {JSX.Element} Rendered slider
+ */
+const RangeSlider: React.FC<RangeSliderProps> = ({ min, max, step, values, onChange }) => {
+  const [trackWidth, setTrackWidth] = useState(0);
+  // Pan handlers are created once, so they read the latest props from here
+  const latest = useRef({ values, onChange, trackWidth });
+  latest.current = { values, onChange, trackWidth };
+  const dragStart = useRef(0);
+
+  const responders = useMemo(
+    () =>
+      [0, 1].map(index =>
+        PanResponder.create({
+          onStartShouldSetPanResponder: () => true,
+          onMoveShouldSetPanResponder: () => true,
+          onPanResponderTerminationRequest: () => false,
+          onPanResponderGrant: () => {
+            dragStart.current = latest.current.values[index];
+          },
+          onPanResponderMove: (_event, gesture) => {
+            const current = latest.current;
+            if (current.trackWidth === 0) return;
+            const raw = dragStart.current + (gesture.dx / current.trackWidth) * (max - min);
+            const lower = index > 0 ? current.values[index - 1] : min;
+            const upper = index < current.values.length - 1 ? current.values[index + 1] : max;
+            const snapped = Math.min(upper, Math.max(lower, min + Math.round((raw - min) / step) * step));
+            if (snapped !== current.values[index]) {
+              const next = [...current.values];
+              next[index] = snapped;
+              current.onChange(next);
+            }
+          },
+        }),
+      ),
+    [min, max, step],
+  );
+
+  /**
+   * Converts a value to its distance from the start of the track
+   *
+   * @param {number} value - Slider value
+   * @returns {number} Offset in px
+   */
+  const toOffset = (value: number): number => ((value - min) / (max - min)) * trackWidth;
+
+  // A single thumb selects everything above it, like a minimum
+  const selectedStart = toOffset(values[0]);
+  const selectedEnd = values.length > 1 ? toOffset(values[values.length - 1]) : trackWidth;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.track} onLayout={(event: LayoutChangeEvent) => setTrackWidth(event.nativeEvent.layout.width)}>
+        <View style={[styles.selected, { left: selectedStart, width: Math.max(0, selectedEnd - selectedStart) }]} />
+      </View>
+      {values.map((value, index) => (
+        <View
+          key={index}
+          style={[styles.thumb, { left: toOffset(value) }]}
+          hitSlop={{ top: 12, bottom: 12, left: 12, right: 12 }}
+          {...responders[index].panHandlers}
+        />
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    height: THUMB_SIZE + 8,
+    justifyContent: 'center',
+    marginHorizontal: THUMB_SIZE / 2,
+  },
+  track: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#e0e0e0',
+  },
+  selected: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    borderRadius: 2,
+    backgroundColor: colors.primary,
+  },
+  thumb: {
+    position: 'absolute',
+    width: THUMB_SIZE,
+    height: THUMB_SIZE,
+    marginLeft: -THUMB_SIZE / 2,
+    borderRadius: THUMB_SIZE / 2,
+    backgroundColor: colors.white,
+    borderWidth: 2,
+    borderColor: colors.primary,
+  },
+});
+
+export default RangeSlider;
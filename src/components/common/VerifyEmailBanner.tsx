@@ -0,0 +1,79 @@
+/**
+ * @fileoverview Banner asking unverified users to confirm their email address
+ *
+ * This component reminds users who have not verified their email yet:
+ * - Explains which actions stay locked until the email is verified
+ * - Links to the email verification screen
+ * - Renders nothing once the signed-in user is verified
+ *
+ * Shown wherever a restricted action would otherwise be offered.
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { NavigationProp, useNavigation } from '@react-navigation/native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { useAuth } from '../../context/AuthContext';
+import { AppDrawerParamList } from '../../navigation/types';
+import { colors, spacing } from '../../styles/globalStyles';
+
+/**
+ * Props interface for the VerifyEmailBanner component
+ *
+ * @interface VerifyEmailBannerProps
+ * @property {string} [message] - What the user cannot do until verified
+ */
+interface VerifyEmailBannerProps {
+  message?: string;
+}
+
+/**
+ * Email verification reminder
+ *
+ * @param {VerifyEmailBannerProps} props - Component properties
+ * @returns {JSX.Element|null} Banner, or null for verified users
+ */
+const VerifyEmailBanner: React.FC<VerifyEmailBannerProps> = ({
+  message = 'Verify your email address to add movies and post reviews.',
+}) => {
+  const { user, isEmailVerified } = useAuth();
+  const navigation = useNavigation<NavigationProp<AppDrawerParamList>>();
+
+  if (!user || isEmailVerified) {
+    return null;
+  }
+
+  return (
+    <View style={styles.banner}>
+      <Icon name="email-alert-outline" size={22} color={colors.danger} />
+      <Text style={styles.text}>{message}</Text>
+      <TouchableOpacity onPress={() => navigation.navigate('VerifyEmail')}>
+        <Text style={styles.link}>Verify</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 10,
+    borderRadius: 8,
+    marginBottom: spacing.md,
+    backgroundColor: colors.white,
+    borderLeftWidth: 4,
+    borderLeftColor: colors.danger,
+  },
+  text: {
+    flex: 1,
+    marginHorizontal: spacing.sm,
+    color: colors.dark,
+  },
+  link: {
+    color: colors.primary,
+    fontWeight: 'bold',
+  },
+});
+
+export default VerifyEmailBanner;
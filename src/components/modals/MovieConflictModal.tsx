@@ -0,0 +1,237 @@
+/**
+ * @fileoverview Modal for resolving conflicting movie edits field by field
+ *
+ * This component is shown when saving a movie fails because someone else
+ * changed it in the meantime. It provides:
+ * - A side-by-side comparison of the user's value and the latest server value
+ * - A per-field choice between keeping "Mine" or taking "Theirs"
+ * - Resubmitting the merged result or cancelling to keep editing
+ *
+ * Fields only the server changed are merged automatically and not listed here.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import Modal from 'react-native-modal';
+import Button from '../common/Button';
+import { useGenres } from '../../context/GenreContext';
+import { Genre } from '../../types';
+import { MovieFormValues } from '../../utils/validation';
+import { colors, spacing } from '../../styles/globalStyles';
+
+/**
+ * Props interface for the MovieConflictModal component
+ *
+ * @interface MovieConflictModalProps
+ * @property {boolean} isVisible - Controls modal visibility
+ * @property {(keyof MovieFormValues)[]} fields - Conflicting fields to resolve
+ * @property {MovieFormValues} mine - The user's form values
+ * @property {MovieFormValues} theirs - Form values of the latest server version
+ * @property {(keepServerFields: (keyof MovieFormValues)[]) => void} onResolve - Called with the fields resolved in favour of the server
+ * @property {() => void} onCancel - Function to call when the user keeps editing instead
+ * @property {boolean} isLoading - Whether the merged save is in progress
+ */
+interface MovieConflictModalProps {
+  isVisible: boolean;
+  fields: (keyof MovieFormValues)[];
+  mine: MovieFormValues;
+  theirs: MovieFormValues;
+  onResolve: (keepServerFields: (keyof MovieFormValues)[]) => void;
+  onCancel: () => void;
+  isLoading: boolean;
+}
+
+/** Display labels of the movie form fields */
+const FIELD_LABELS: Record<keyof MovieFormValues, string> = {
+  title: 'Title',
+  description: 'Description',
+  genres: 'Genres',
+  release_date: 'Release Date',
+  duration: 'Duration (minutes)',
+  director: 'Director',
+  cast: 'Cast',
+  poster_url: 'Poster Image URL',
+};
+
+/**
+ * Formats a form value for display in the comparison
+ *
+ * @param {MovieFormValues} values - Form values to read from
+ * @param {keyof MovieFormValues} field - Field to format
+ * @param {Genre[]} genres - Genres to look up genre labels in
+ * @returns {string} Human-readable value
+ */
+const formatValue = (values: MovieFormValues, field: keyof MovieFormValues, genres: Genre[]): string => {
+  if (field === 'genres') {
+    return values.genres
+      .map(id => genres.find(genre => genre.id === id)?.label ?? String(id))
+      .join(', ');
+  }
+  return values[field] || '(empty)';
+};
+
+/**
+ * Modal component for merging a conflicting movie edit
+ *
+ * Every conflicting field defaults to the user's own value.
+ *
+ * @param {MovieConflictModalProps} props - Component properties
+ * @returns {JSX.Element} Rendered conflict modal component
+ */
+const MovieConflictModal: React.FC<MovieConflictModalProps> = ({
+  isVisible,
+  fields,
+  mine,
+  theirs,
+  onResolve,
+  onCancel,
+  isLoading,
+}) => {
+  const [keepServerFields, setKeepServerFields] = useState<(keyof MovieFormValues)[]>([]);
+  const { genres } = useGenres();
+
+  // Start every new conflict from the user's own values
+  useEffect(() => {
+    setKeepServerFields([]);
+  }, [fields]);
+
+  /**
+   * Chooses which version of a field to keep
+   *
+   * @param {keyof MovieFormValues} field - Field being resolved
+   * @param {boolean} keepServer - Whether to take the server's value
+   */
+  const choose = (field: keyof MovieFormValues, keepServer: boolean) => {
+    setKeepServerFields(current =>
+      keepServer
+        ? [...current.filter(candidate => candidate !== field), field]
+        : current.filter(candidate => candidate !== field),
+    );
+  };
+
+  /**
+   * Renders one selectable version of a field
+   *
+   * @param {keyof MovieFormValues} field - Field being resolved
+   * @param {boolean} isServer - Whether this option is the server's value
+   * @returns {JSX.Element} Selectable option
+   */
+  const renderOption = (field: keyof MovieFormValues, isServer: boolean) => {
+    const isSelected = keepServerFields.includes(field) === isServer;
+    return (
+      <TouchableOpacity
+        style={[styles.option, isSelected && styles.optionSelected]}
+        onPress={() => choose(field, isServer)}
+      >
+        <Text style={[styles.optionLabel, isSelected && styles.optionLabelSelected]}>
+          {isServer ? 'Theirs' : 'Mine'}
+        </Text>
+        <Text style={styles.optionValue} numberOfLines={4}>
+          {formatValue(isServer ? theirs : mine, field, genres)}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal
+      isVisible={isVisible}
+      onBackdropPress={onCancel}
+      onBackButtonPress={onCancel}
+      style={styles.modal}
+    >
+      <View style={styles.content}>
+        <Text style={styles.title}>This movie was changed</Text>
+        <Text style={styles.subtitle}>
+          Someone else saved changes while you were editing. Choose which value to keep for each field.
+        </Text>
+        <ScrollView style={styles.list}>
+          {fields.map(field => (
+            <View key={field} style={styles.field}>
+              <Text style={styles.fieldLabel}>{FIELD_LABELS[field]}</Text>
+              <View style={styles.options}>
+                {renderOption(field, false)}
+                {renderOption(field, true)}
+              </View>
+            </View>
+          ))}
+        </ScrollView>
+        <Button title="Save Merged Changes" onPress={() => onResolve(keepServerFields)} loading={isLoading} />
+        <TouchableOpacity onPress={onCancel} disabled={isLoading}>
+          <Text style={styles.cancelText}>Keep Editing</Text>
+        </TouchableOpacity>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modal: {
+    justifyContent: 'flex-end',
+    margin: 0,
+  },
+  content: {
+    backgroundColor: colors.white,
+    padding: 22,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    maxHeight: '85%',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 6,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: colors.gray,
+    marginBottom: spacing.md,
+  },
+  list: {
+    flexGrow: 0,
+  },
+  field: {
+    marginBottom: spacing.md,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: colors.dark,
+    marginBottom: 5,
+  },
+  options: {
+    flexDirection: 'row',
+  },
+  option: {
+    flex: 1,
+    padding: 10,
+    marginRight: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.gray,
+    borderRadius: 8,
+  },
+  optionSelected: {
+    borderColor: colors.primary,
+    borderWidth: 2,
+  },
+  optionLabel: {
+    fontSize: 12,
+    color: colors.gray,
+    marginBottom: 4,
+  },
+  optionLabelSelected: {
+    color: colors.primary,
+    fontWeight: 'bold',
+  },
+  optionValue: {
+    fontSize: 14,
+    color: colors.dark,
+  },
+  cancelText: {
+    textAlign: 'center',
+    color: colors.primary,
+    marginTop: 5,
+  },
+});
+
+export default MovieConflictModal;
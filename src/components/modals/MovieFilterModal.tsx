@@ -0,0 +1,251 @@
+/**
+ * @fileoverview Bottom sheet with the advanced movie list filters
+ *
+ * This component lets users narrow the movie list down further than by genre:
+ * - Release year range
+ * - Duration range in minutes
+ * - Minimum average rating
+ * - Text the director's name has to contain
+ *
+ * Changes are kept as a draft until they are applied. Also provides the
+ * short descriptions shown as removable pills above the movie list.
+ */
+
+import React, { useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import Modal from 'react-native-modal';
+import { MovieFilters } from '../../service/movieService';
+import Input from '../common/Input';
+import Button from '../common/Button';
+import RangeSlider from '../common/RangeSlider';
+import { colors, spacing } from '../../styles/globalStyles';
+
+/** Earliest release year the slider offers */
+const YEAR_MIN = 1900;
+
+/** Latest release year the slider offers */
+const YEAR_MAX = new Date().getFullYear();
+
+/** Longest duration (minutes) the slider offers; the upper end means "or longer" */
+const DURATION_MAX = 240;
+
+/**
+ * A filter shown as a removable pill
+ *
+ * @interface FilterPill
+ * @property {string} key - Stable key of the pill
+ * @property {string} label - Short description of the filter
+ * @property {MovieFilters} cleared - Filter changes that remove it
+ */
+export interface FilterPill {
+  key: string;
+  label: string;
+  cleared: MovieFilters;
+}
+
+/**
+ * Describes a range in a few words
+ *
+ * @param {number} [min] - Lower bound
+ * @param {number} [max] - Upper bound
+ * @param {string} [unit] - Unit appended to the numbers
+ * @returns {string|null} Description, or null when the range is open on both ends
+ */
+const describeRange = (min?: number, max?: number, unit = ''): string | null => {
+  if (min !== undefined && max !== undefined) {
+    return min === max ? `${min}${unit}` : `${min}–${max}${unit}`;
+  }
+  if (min !== undefined) {
+    return `From ${min}${unit}`;
+  }
+  if (max !== undefined) {
+    return `Up to ${max}${unit}`;
+  }
+  return null;
+};
+
+/**
+ * Lists the active filters as pills, each with the changes that remove it
+ *
+ * @param {MovieFilters} filters - Active filters
+ * @returns {FilterPill[]} Pills, in the order of the filter sheet
+ */
+export const getFilterPills = (filters: MovieFilters): FilterPill[] => {
+  const pills: FilterPill[] = [];
+  const years = describeRange(filters.yearMin, filters.yearMax);
+  if (years) {
+    pills.push({ key: 'year', label: years, cleared: { yearMin: undefined, yearMax: undefined } });
+  }
+  const duration = describeRange(filters.durationMin, filters.durationMax, ' min');
+  if (duration) {
+    pills.push({ key: 'duration', label: duration, cleared: { durationMin: undefined, durationMax: undefined } });
+  }
+  if (filters.ratingMin !== undefined) {
+    pills.push({ key: 'rating', label: `${filters.ratingMin}+ stars`, cleared: { ratingMin: undefined } });
+  }
+  if (filters.director) {
+    pills.push({ key: 'director', label: `Director: ${filters.director}`, cleared: { director: undefined } });
+  }
+  return pills;
+};
+
+/**
+ * Converts slider values to optional bounds; a thumb at the end of the slider means no bound
+ *
+ * @param {number[]} values - Lower and upper slider value
+ * @param {number} lowest - Lowest slider value
+ * @param {number} highest - Highest slider value
+ * @returns {[number|undefined, number|undefined]} Lower and upper bound
+ */
+const toBounds = ([low, high]: number[], lowest: number, highest: number): [number | undefined, number | undefined] => [
+  low > lowest ? low : undefined,
+  high < highest ? high : undefined,
+];
+
+/**
+ * Props interface for the MovieFilterModal component
+ *
+ * @interface MovieFilterModalProps
+ * @property {boolean} isVisible - Controls modal visibility
+ * @property {MovieFilters} filters - Filters applied to the list
+ * @property {(filters: MovieFilters) => void} onApply - Called with the new filters
+ * @property {() => void} onClose - Function to call when the modal is closed without applying
+ */
+interface MovieFilterModalProps {
+  isVisible: boolean;
+  filters: MovieFilters;
+  onApply: (filters: MovieFilters) => void;
+  onClose: () => void;
+}
+
+/**
+ * Advanced filter bottom sheet
+ *
+ * @param {MovieFilterModalProps} props - Component properties
+ * @returns {JSX.Element} Rendered filter modal
+ */
+const MovieFilterModal: React.FC<MovieFilterModalProps> = ({ isVisible, filters, onApply, onClose }) => {
+  const [draft, setDraft] = useState<MovieFilters>(filters);
+
+  const [yearMin, yearMax] = [draft.yearMin ?? YEAR_MIN, draft.yearMax ?? YEAR_MAX];
+  const [durationMin, durationMax] = [draft.durationMin ?? 0, draft.durationMax ?? DURATION_MAX];
+
+  return (
+    <Modal
+      isVisible={isVisible}
+      onModalWillShow={() => setDraft(filters)}
+      onBackdropPress={onClose}
+      onBackButtonPress={onClose}
+      style={styles.modal}
+      avoidKeyboard
+    >
+      <View style={styles.content}>
+        <Text style={styles.title}>Filter Movies</Text>
+
+        <View style={styles.labelRow}>
+          <Text style={styles.label}>Release year</Text>
+          <Text style={styles.value}>{describeRange(draft.yearMin, draft.yearMax) ?? 'Any year'}</Text>
+        </View>
+        <RangeSlider
+          min={YEAR_MIN}
+          max={YEAR_MAX}
+          step={1}
+          values={[yearMin, yearMax]}
+          onChange={values => {
+            const [min, max] = toBounds(values, YEAR_MIN, YEAR_MAX);
+            setDraft(current => ({ ...current, yearMin: min, yearMax: max }));
+          }}
+        />
+
+        <View style={styles.labelRow}>
+          <Text style={styles.label}>Duration</Text>
+          <Text style={styles.value}>
+            {describeRange(draft.durationMin, draft.durationMax, ' min') ?? 'Any length'}
+          </Text>
+        </View>
+        <RangeSlider
+          min={0}
+          max={DURATION_MAX}
+          step={10}
+          values={[durationMin, durationMax]}
+          onChange={values => {
+            const [min, max] = toBounds(values, 0, DURATION_MAX);
+            setDraft(current => ({ ...current, durationMin: min, durationMax: max }));
+          }}
+        />
+
+        <View style={styles.labelRow}>
+          <Text style={styles.label}>Minimum rating</Text>
+          <Text style={styles.value}>
+            {draft.ratingMin !== undefined ? `${draft.ratingMin}+ stars` : 'Any rating'}
+          </Text>
+        </View>
+        <RangeSlider
+          min={0}
+          max={5}
+          step={0.5}
+          values={[draft.ratingMin ?? 0]}
+          onChange={([rating]) => setDraft(current => ({ ...current, ratingMin: rating > 0 ? rating : undefined }))}
+        />
+
+        <Input
+          label="Director contains"
+          value={draft.director ?? ''}
+          onChangeText={director => setDraft(current => ({ ...current, director }))}
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+
+        <Button
+          title="Apply Filters"
+          onPress={() =>
+            // Every filter is passed, so the ones reset here are cleared from the query as well
+            onApply({
+              yearMin: draft.yearMin,
+              yearMax: draft.yearMax,
+              durationMin: draft.durationMin,
+              durationMax: draft.durationMax,
+              ratingMin: draft.ratingMin,
+              director: draft.director?.trim() || undefined,
+            })
+          }
+        />
+        <Button title="Reset" onPress={() => setDraft({})} />
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modal: {
+    justifyContent: 'flex-end',
+    margin: 0,
+  },
+  content: {
+    backgroundColor: colors.white,
+    padding: 22,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+  labelRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: spacing.sm,
+  },
+  label: {
+    fontSize: 14,
+    color: colors.dark,
+  },
+  value: {
+    fontSize: 14,
+    color: colors.primary,
+    fontWeight: 'bold',
+  },
+});
+
+export default MovieFilterModal;
@@ -0,0 +1,216 @@
+/**
+ * @fileoverview Bottom sheet for choosing the sort order of the movie list
+ *
+ * This component provides a sort menu with:
+ * - Average rating, release date, title, duration and recently added
+ * - Ascending or descending order for each of them
+ * - A way back to the backend's default order
+ *
+ * Also provides a short description of an ordering for labels.
+ */
+
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import Modal from 'react-native-modal';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { MovieOrdering, MovieSortField } from '../../service/movieService';
+import { colors, spacing } from '../../styles/globalStyles';
+
+/**
+ * A field the list can be sorted by, with the labels of both directions
+ *
+ * @interface SortOption
+ * @property {MovieSortField} field - Field sent in the ordering param
+ * @property {string} label - Name of the sort
+ * @property {string} ascending - Label of the ascending order
+ * @property {string} descending - Label of the descending order
+ * @property {boolean} descendingFirst - Whether picking the sort starts with descending order
+ */
+interface SortOption {
+  field: MovieSortField;
+  label: string;
+  ascending: string;
+  descending: string;
+  descendingFirst: boolean;
+}
+
+const SORT_OPTIONS: SortOption[] = [
+  { field: 'average_rating', label: 'Average rating', ascending: 'Lowest first', descending: 'Highest first', descendingFirst: true },
+  { field: 'release_date', label: 'Release date', ascending: 'Oldest first', descending: 'Newest first', descendingFirst: true },
+  { field: 'title', label: 'Title', ascending: 'A–Z', descending: 'Z–A', descendingFirst: false },
+  { field: 'duration', label: 'Duration', ascending: 'Shortest first', descending: 'Longest first', descendingFirst: false },
+  { field: 'id', label: 'Recently added', ascending: 'Oldest first', descending: 'Newest first', descendingFirst: true },
+];
+
+/**
+ * Splits an ordering into its field and direction
+ *
+ * @param {MovieOrdering} ordering - Ordering to split
+ * @returns {{field: MovieSortField, descending: boolean}} Field and direction
+ */
+const parseOrdering = (ordering: MovieOrdering): { field: MovieSortField; descending: boolean } =>
+  ordering.startsWith('-')
+    ? { field: ordering.slice(1) as MovieSortField, descending: true }
+    : { field: ordering as MovieSortField, descending: false };
+
+/**
+ * Describes an ordering in a few words, e.g. "Title (A–Z)"
+ *
+ * @param {MovieOrdering} [ordering] - Ordering to describe
+ * @returns {string} Description, "Default order" when there is none
+ */
+export const describeOrdering = (ordering?: MovieOrdering): string => {
+  if (!ordering) {
+    return 'Default order';
+  }
+  const { field, descending } = parseOrdering(ordering);
+  const option = SORT_OPTIONS.find(candidate => candidate.field === field);
+  if (!option) {
+    return ordering;
+  }
+  return `${option.label} (${descending ? option.descending : option.ascending})`;
+};
+
+/**
+ * Props interface for the SortModal component
+ *
+ * @interface SortModalProps
+ * @property {boolean} isVisible - Controls modal visibility
+ * @property {MovieOrdering} [ordering] - Current ordering, undefined for the default order
+ * @property {(ordering?: MovieOrdering) => void} onChange - Called with the chosen ordering
+ * @property {() => void} onClose - Function to call when the modal is closed
+ */
+interface SortModalProps {
+  isVisible: boolean;
+  ordering?: MovieOrdering;
+  onChange: (ordering?: MovieOrdering) => void;
+  onClose: () => void;
+}
+
+/**
+ * Sort menu bottom sheet
+ *
+ * Picking a sort starts with its most useful direction (e.g. highest rating
+ * first); its two direction buttons switch between ascending and descending.
+ *
+ * @param {SortModalProps} props - Component properties
+ * @returns {JSX.Element} Rendered sort modal
+ */
+const SortModal: React.FC<SortModalProps> = ({ isVisible, ordering, onChange, onClose }) => {
+  const current = ordering ? parseOrdering(ordering) : null;
+
+  /**
+   * Applies a field and direction
+   *
+   * @param {MovieSortField} field - Field to sort by
+   * @param {boolean} descending - Whether to sort in descending order
+   */
+  const choose = (field: MovieSortField, descending: boolean) => {
+    onChange(descending ? `-${field}` : field);
+  };
+
+  return (
+    <Modal isVisible={isVisible} onBackdropPress={onClose} onBackButtonPress={onClose} style={styles.modal}>
+      <View style={styles.content}>
+        <Text style={styles.title}>Sort Movies</Text>
+        <TouchableOpacity style={styles.row} onPress={() => onChange(undefined)}>
+          <Icon
+            name={current ? 'radiobox-blank' : 'radiobox-marked'}
+            size={22}
+            color={current ? colors.gray : colors.primary}
+          />
+          <Text style={styles.label}>Default order</Text>
+        </TouchableOpacity>
+        {SORT_OPTIONS.map(option => {
+          const isSelected = current?.field === option.field;
+          return (
+            <View key={option.field} style={styles.row}>
+              <TouchableOpacity
+                style={styles.option}
+                onPress={() => choose(option.field, option.descendingFirst)}
+                accessibilityRole="radio"
+                accessibilityState={{ selected: isSelected }}
+              >
+                <Icon
+                  name={isSelected ? 'radiobox-marked' : 'radiobox-blank'}
+                  size={22}
+                  color={isSelected ? colors.primary : colors.gray}
+                />
+                <Text style={styles.label}>{option.label}</Text>
+              </TouchableOpacity>
+              {[false, true].map(descending => {
+                const isActive = isSelected && current?.descending === descending;
+                return (
+                  <TouchableOpacity
+                    key={String(descending)}
+                    style={[styles.direction, isActive && styles.activeDirection]}
+                    onPress={() => choose(option.field, descending)}
+                    accessibilityLabel={`${option.label}, ${descending ? option.descending : option.ascending}`}
+                  >
+                    <Text style={[styles.directionText, isActive && styles.activeDirectionText]}>
+                      {descending ? option.descending : option.ascending}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          );
+        })}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modal: {
+    justifyContent: 'flex-end',
+    margin: 0,
+  },
+  content: {
+    backgroundColor: colors.white,
+    padding: 22,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+  },
+  option: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  label: {
+    fontSize: 16,
+    color: colors.dark,
+    marginLeft: spacing.sm,
+  },
+  direction: {
+    paddingVertical: 4,
+    paddingHorizontal: spacing.sm,
+    marginLeft: 6,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.gray,
+  },
+  activeDirection: {
+    borderColor: colors.primary,
+    backgroundColor: colors.primary,
+  },
+  directionText: {
+    fontSize: 12,
+    color: colors.dark,
+  },
+  activeDirectionText: {
+    color: colors.white,
+  },
+});
+
+export default SortModal;
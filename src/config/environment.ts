@@ -0,0 +1,111 @@
+/**
+ * @fileoverview Backend environment profiles and base URL resolution
+ *
+ * This file defines the backends the app can talk to:
+ * - Named environment profiles (dev-android, dev-ios, staging, prod)
+ * - Platform-aware default profile selection
+ * - Optional custom base URL override for physical devices
+ * - Base URL resolution from a persisted environment selection
+ *
+ * The active selection is chosen in the hidden developer settings screen
+ * and applied to the API client at runtime.
+ */
+
+import { Platform } from 'react-native';
+
+/** Names of the available backend environment profiles */
+export type EnvironmentName = 'dev-android' | 'dev-ios' | 'staging' | 'prod';
+
+/**
+ * Backend environment profile
+ *
+ * @interface EnvironmentProfile
+ * @property {EnvironmentName} name - Unique profile name
+ * @property {string} label - Human-readable profile name
+ * @property {string} apiBaseUrl - Base URL of the backend API (with trailing slash)
+ */
+export interface EnvironmentProfile {
+  name: EnvironmentName;
+  label: string;
+  apiBaseUrl: string;
+}
+
+/**
+ * Persisted environment selection
+ *
+ * @interface EnvironmentSelection
+ * @property {EnvironmentName} name - Selected profile name
+ * @property {string} [customBaseUrl] - Optional base URL overriding the profile's URL
+ */
+export interface EnvironmentSelection {
+  name: EnvironmentName;
+  customBaseUrl?: string;
+}
+
+/**
+ * All available environment profiles
+ *
+ * - dev-android: local backend seen from the Android emulator
+ * - dev-ios: local backend seen from the iOS simulator
+ * - staging: shared staging backend
+ * - prod: production backend
+ */
+export const ENVIRONMENTS: Record<EnvironmentName, EnvironmentProfile> = {
+  'dev-android': {
+    name: 'dev-android',
+    label: 'Development (Android emulator)',
+    apiBaseUrl: 'http://10.0.2.2:8000/api/',
+  },
+  'dev-ios': {
+    name: 'dev-ios',
+    label: 'Development (iOS simulator)',
+    apiBaseUrl: 'http://localhost:8000/api/',
+  },
+  staging: {
+    name: 'staging',
+    label: 'Staging',
+    apiBaseUrl: 'https://staging.moviereviewapp.com/api/',
+  },
+  prod: {
+    name: 'prod',
+    label: 'Production',
+    apiBaseUrl: 'https://api.moviereviewapp.com/api/',
+  },
+};
+
+/**
+ * Returns the environment used when nothing has been selected yet
+ *
+ * Debug builds target the local backend for the current platform,
+ * release builds always target production.
+ *
+ * @returns {EnvironmentSelection} Default environment selection
+ */
+export const getDefaultEnvironment = (): EnvironmentSelection => {
+  if (!__DEV__) {
+    return { name: 'prod' };
+  }
+  return { name: Platform.OS === 'ios' ? 'dev-ios' : 'dev-android' };
+};
+
+/**
+ * Ensures a base URL ends with exactly one trailing slash
+ *
+ * @param {string} url - Base URL to normalize
+ * @returns {string} Normalized base URL
+ */
+export const normalizeBaseUrl = (url: string): string => `${url.trim().replace(/\/+$/, '')}/`;
+
+/**
+ * Resolves the API base URL for an environment selection
+ *
+ * @param {EnvironmentSelection} selection - Environment selection to resolve
+ * @returns {string} Base URL of the backend API
+ */
+export const resolveBaseUrl = (selection: EnvironmentSelection): string => {
+  if (selection.customBaseUrl) {
+    return normalizeBaseUrl(selection.customBaseUrl);
+  }
+  const profile = ENVIRONMENTS[selection.name] ?? ENVIRONMENTS[getDefaultEnvironment().name];
+  return profile.apiBaseUrl;
+};
@@ -0,0 +1,216 @@
+/**
+ * @fileoverview App Lock Context for locking the app behind a PIN
+ *
+ * This file provides a React context for the optional app lock including:
+ * - Turning the app lock on with a PIN, and off again with the current PIN
+ * - Locking on cold start while a user is signed in
+ * - Locking after the app was idle or in the background for the chosen period
+ * - Unlocking with the PIN, signing every account out after too many wrong PINs
+ *
+ * Uses constate for optimized context creation and the appLock service for
+ * the stored PIN. Must be rendered inside AuthProvider.
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
+import constate from 'constate';
+import * as appLock from '../service/appLock';
+import { useAuth } from './AuthContext';
+
+/** How often the idle time is checked while the app is in the foreground (ms) */
+const IDLE_CHECK_INTERVAL = 10 * 1000;
+
+/**
+ * Custom hook for managing the app lock
+ *
+ * @returns {Object} App lock context with state and methods
+ * @returns {boolean} returns.isLoading - Whether the app lock settings are still being loaded
+ * @returns {boolean} returns.isEnabled - Whether a PIN is set
+ * @returns {boolean} returns.isLocked - Whether the PIN must be entered before the app can be used
+ * @returns {number} returns.idleTimeout - Idle or background period (ms) before the app locks
+ * @returns {Function} returns.enableLock - Function to turn the app lock on with a PIN
+ * @returns {Function} returns.disableLock - Function to turn the app lock off with the current PIN
+ * @returns {Function} returns.changeIdleTimeout - Function to change the idle or background period
+ * @returns {Function} returns.unlock - Function to unlock the app with the PIN
+ * @returns {Function} returns.signOut - Function to forget the PIN and sign every account out
+ * @returns {Function} returns.recordActivity - Function to call on user interaction, resetting the idle time
+ */
+function useAppLockHook() {
+  const { user, isLoading: isAuthLoading, logoutAllAccounts } = useAuth();
+  const [settings, setSettings] = useState<appLock.AppLockSettings | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  // The keystore could not be read, so whether a PIN is set is unknown
+  const [areSettingsUnreadable, setAreSettingsUnreadable] = useState(false);
+  // Locked until the settings are loaded, so a cold start never shows the app first
+  const [isLocked, setIsLocked] = useState(true);
+  const lastActivityRef = useRef(Date.now());
+  const backgroundedAtRef = useRef<number | null>(null);
+  const idleTimeout = settings?.idleTimeout ?? null;
+
+  // Load the settings; the app starts locked only if a PIN is set
+  useEffect(() => {
+    appLock
+      .getAppLockSettings()
+      .then(storedSettings => {
+        setSettings(storedSettings);
+        setIsLocked(storedSettings !== null);
+      })
+      .catch(error => {
+        // Stay locked rather than skip a PIN that may be set
+        console.error('Failed to load the app lock settings:', error);
+        setAreSettingsUnreadable(true);
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  // Without a signed-in user there is nothing to protect, and the next sign-in starts unlocked
+  useEffect(() => {
+    if (!isLoading && !isAuthLoading && !user) {
+      setIsLocked(false);
+    }
+  }, [isLoading, isAuthLoading, user]);
+
+  // Lock when the app comes back after spending the idle period in the background
+  useEffect(() => {
+    if (idleTimeout === null || !user) {
+      return;
+    }
+    const subscription = AppState.addEventListener('change', nextState => {
+      if (nextState === 'background') {
+        backgroundedAtRef.current = Date.now();
+      } else if (nextState === 'active' && backgroundedAtRef.current !== null) {
+        if (Date.now() - backgroundedAtRef.current >= idleTimeout) {
+          setIsLocked(true);
+        }
+        backgroundedAtRef.current = null;
+        lastActivityRef.current = Date.now();
+      }
+    });
+    return () => subscription.remove();
+  }, [idleTimeout, user]);
+
+  // Lock when the app is left untouched in the foreground for the idle period
+  useEffect(() => {
+    if (idleTimeout === null || !user || isLocked) {
+      return;
+    }
+    lastActivityRef.current = Date.now();
+    const timer = setInterval(() => {
+      if (AppState.currentState === 'active' && Date.now() - lastActivityRef.current >= idleTimeout) {
+        setIsLocked(true);
+      }
+    }, IDLE_CHECK_INTERVAL);
+    return () => clearInterval(timer);
+  }, [idleTimeout, user, isLocked]);
+
+  /**
+   * Resets the idle time; called whenever the user touches the app
+   */
+  const recordActivity = () => {
+    lastActivityRef.current = Date.now();
+  };
+
+  /**
+   * Forgets the PIN and signs every account out
+   * Used after too many wrong PINs and when the user forgot their PIN.
+   *
+   * @returns {Promise<void>} Resolves once every account is signed out
+   */
+  const signOut = async () => {
+    await appLock.removePin();
+    setSettings(null);
+    setIsLocked(false);
+    await logoutAllAccounts();
+  };
+
+  /**
+   * Checks a PIN, signing every account out after too many wrong ones
+   *
+   * @param {string} pin - The entered PIN
+   * @returns {Promise<PinCheckResult>} Whether the PIN matched
+   */
+  const checkPin = async (pin: string): Promise<appLock.PinCheckResult> => {
+    const result = await appLock.verifyPin(pin);
+    if (result.type === 'lockedOut') {
+      await signOut();
+    }
+    return result;
+  };
+
+  /**
+   * Unlocks the app
+   *
+   * @param {string} pin - The entered PIN
+   * @returns {Promise<PinCheckResult>} Whether the PIN matched
+   */
+  const unlock = async (pin: string): Promise<appLock.PinCheckResult> => {
+    const result = await checkPin(pin);
+    if (result.type === 'correct') {
+      lastActivityRef.current = Date.now();
+      setIsLocked(false);
+    }
+    return result;
+  };
+
+  /**
+   * Turns the app lock on
+   *
+   * @param {string} pin - The chosen PIN
+   * @param {number} newIdleTimeout - Idle or background period (ms) before the app locks
+   * @returns {Promise<void>} Resolves once the PIN is stored
+   */
+  const enableLock = async (pin: string, newIdleTimeout: number) => {
+    setSettings(await appLock.setPin(pin, newIdleTimeout));
+    setIsLocked(false);
+  };
+
+  /**
+   * Turns the app lock off
+   *
+   * @param {string} pin - The current PIN
+   * @returns {Promise<PinCheckResult>} Whether the PIN matched and the app lock was turned off
+   */
+  const disableLock = async (pin: string): Promise<appLock.PinCheckResult> => {
+    const result = await checkPin(pin);
+    if (result.type === 'correct') {
+      await appLock.removePin();
+      setSettings(null);
+    }
+    return result;
+  };
+
+  /**
+   * Changes how long the app may stay idle or in the background before it locks
+   *
+   * @param {number} newIdleTimeout - Idle or background period (ms)
+   * @returns {Promise<void>} Resolves once the setting is stored; the previous one is kept if that fails
+   */
+  const changeIdleTimeout = async (newIdleTimeout: number) => {
+    try {
+      setSettings(await appLock.setIdleTimeout(newIdleTimeout));
+    } catch (error) {
+      console.error('Failed to store the app lock timeout:', error);
+    }
+  };
+
+  return {
+    isLoading,
+    isEnabled: settings !== null,
+    isLocked: (settings !== null || areSettingsUnreadable) && isLocked,
+    idleTimeout: idleTimeout ?? appLock.DEFAULT_IDLE_TIMEOUT,
+    enableLock,
+    disableLock,
+    changeIdleTimeout,
+    unlock,
+    signOut,
+    recordActivity,
+  };
+}
+
+/**
+ * App lock context provider and hook
+ *
+ * Provides the app lock state and methods to the component tree
+ * Uses constate for optimized context creation
+ */
+export const [AppLockProvider, useAppLock] = constate(useAppLockHook);
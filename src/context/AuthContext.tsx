@@ -3,62 +3,288 @@
  * 
  * This file provides a React context for managing user authentication including:
  * - User login/logout functionality
- * - Token management
+ * - Several signed-in accounts with quick switching between them
+ * - Token management, including keeping refreshed tokens in sync
+ * - Handling expired sessions and restoring the previous screen after re-login
  * - User profile updates
+ * - Password changes, replacing the session's tokens
+ * - Account deletion, removing everything stored for the account on the device
+ * - Email verification after registration
  * - Persistent authentication state
  * 
  * Uses constate for optimized context creation and storage utilities for persistence.
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
+import { NavigationState } from '@react-navigation/native';
 import constate from 'constate';
 import * as authService from '../service/authService';
 import * as storage from '../utils/storage';
+import * as cache from '../utils/cache';
+import * as outbox from '../service/outbox';
 import { User, Tokens } from '../types';
-import { LoginCredentials, RegisterData } from '../utils/validation';
-import { setAuthToken, clearAuthToken } from '../service/api';
+import { ChangePasswordData, DeleteAccountData, LoginCredentials, RegisterData } from '../utils/validation';
+import {
+  setAuthToken,
+  clearAuthToken,
+  loadEnvironment,
+  loadDemoMode,
+  refreshTokenIfExpiring,
+} from '../service/api';
+import { ApiError, toApiError } from '../service/apiError';
+import { subscribeToAuthEvents } from '../service/authEvents';
+import { navigationRef } from '../navigation/navigationRef';
+
+/**
+ * A session that ended because its tokens could no longer be refreshed
+ *
+ * @interface ExpiredSession
+ * @property {number} userId - User whose session expired
+ * @property {NavigationState} [navigationState] - Where the user was when it expired
+ */
+interface ExpiredSession {
+  userId: number;
+  navigationState?: NavigationState;
+}
 
 /**
  * Custom hook for managing authentication state and operations
  * 
  * @returns {Object} Authentication context with user state and methods
  * @returns {User|null} returns.user - Current authenticated user or null
+ * @returns {User[]} returns.accounts - Every signed-in account, including the current one
+ * @returns {boolean} returns.isAddingAccount - Whether the user is signing in to another account
  * @returns {Tokens|null} returns.tokens - Current JWT tokens or null
  * @returns {boolean} returns.isLoading - Loading state for authentication operations
+ * @returns {boolean} returns.sessionExpired - Whether the user was signed out because their session expired
+ * @returns {boolean} returns.isEmailVerified - Whether the signed-in user verified their email address
  * @returns {Function} returns.login - Function to authenticate user with credentials
  * @returns {Function} returns.register - Function to register new user
  * @returns {Function} returns.logout - Function to logout current user
+ * @returns {Function} returns.logoutAllAccounts - Function to logout every signed-in account
+ * @returns {Function} returns.switchAccount - Function to make another signed-in account current
+ * @returns {Function} returns.beginAddAccount - Function to show the sign-in screens for another account
+ * @returns {Function} returns.cancelAddAccount - Function to go back to the signed-in accounts
  * @returns {Function} returns.updateProfile - Function to update user profile
+ * @returns {Function} returns.changePassword - Function to change the user's password
+ * @returns {Function} returns.deleteAccount - Function to permanently delete the current account
+ * @returns {Function} returns.verifyEmail - Function to confirm the user's email with a code
+ * @returns {Function} returns.resendVerificationEmail - Function to request a new verification code
  */
 function useAuthHook() {
   const [user, setUser] = useState<User | null>(null);
+  const [accounts, setAccounts] = useState<User[]>([]);
+  const [isAddingAccount, setIsAddingAccount] = useState(false);
   const [tokens, setTokens] = useState<Tokens | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [expiredSession, setExpiredSession] = useState<ExpiredSession | null>(null);
+  const [navigationStateToRestore, setNavigationStateToRestore] = useState<NavigationState | null>(null);
+  const userRef = useRef<User | null>(null);
+  userRef.current = user;
 
   useEffect(() => {
     /**
      * Loads user authentication data from persistent storage on component mount
-     * Attempts to restore session and fetch current user profile
+     * Restores the selected backend environment and demo mode first so the
+     * session is restored against the right server, then fetches the active
+     * account's user profile
+     *
+     * The session is only ended when the backend rejected it and it could not
+     * be refreshed. When the profile cannot be fetched for other reasons (e.g.
+     * offline), the account's stored profile is shown instead. When the keystore
+     * cannot be read, the stored session is left untouched for the next start.
      */
     const loadUserFromStorage = async () => {
       setIsLoading(true);
-      const storedTokens = await storage.getTokens();
-      if (storedTokens) {
-        setTokens(storedTokens);
-        setAuthToken(storedTokens.access);
-        try {
-          const userData = await authService.getUserProfile();
-          setUser(userData);
-        } catch (error) {
-          console.error('Failed to fetch user on load:', error);
-          await logout();
+      await loadEnvironment();
+      await loadDemoMode();
+      try {
+        const storedTokens = await storage.getTokens();
+        if (storedTokens) {
+          setTokens(storedTokens);
+          setAuthToken(storedTokens.access);
+          try {
+            const userData = await authService.getUserProfile();
+            // Re-read the tokens: they may have been refreshed while fetching the profile
+            await storage.saveAccount(userData, (await storage.getTokens()) ?? storedTokens);
+            cache.setCacheAccount(userData.id);
+            setUser(userData);
+          } catch (error) {
+            console.error('Failed to fetch user on load:', error);
+            if (toApiError(error).kind === 'auth') {
+              await logout();
+            } else {
+              const activeId = await storage.getActiveAccountId();
+              const storedAccount = (await storage.getAccounts()).find(account => account.user.id === activeId);
+              // A session saved by an older version has no stored profile; it is kept for the next start
+              if (storedAccount) {
+                cache.setCacheAccount(storedAccount.user.id);
+                setUser(storedAccount.user);
+              }
+            }
+          }
         }
+        await loadAccounts();
+      } catch (error) {
+        console.error('Failed to read the stored session:', error);
       }
       setIsLoading(false);
     };
     loadUserFromStorage();
   }, []);
 
+  /**
+   * Reacts to auth events from the API client:
+   * - keeps the tokens in state in sync with refreshes, including rotated refresh tokens
+   * - signs the user out when their session expired, remembering where they were
+   */
+  useEffect(
+    () =>
+      subscribeToAuthEvents(event => {
+        if (event.type === 'tokensRefreshed') {
+          setTokens(event.tokens);
+          return;
+        }
+        const expiredUser = userRef.current;
+        if (!expiredUser) {
+          return;
+        }
+        setExpiredSession({
+          userId: expiredUser.id,
+          navigationState: navigationRef.isReady() ? navigationRef.getRootState() : undefined,
+        });
+        setUser(null);
+        setTokens(null);
+        cache.setCacheAccount(null);
+        loadAccounts();
+      }),
+    [],
+  );
+
+  /**
+   * Brings the user back to the screen they were on when their session
+   * expired, once the app navigator is shown again
+   */
+  useEffect(() => {
+    if (user && navigationStateToRestore && navigationRef.isReady()) {
+      navigationRef.resetRoot(navigationStateToRestore);
+      setNavigationStateToRestore(null);
+    }
+  }, [user, navigationStateToRestore]);
+
+  /**
+   * Reloads the list of signed-in accounts from storage
+   *
+   * @returns {Promise<void>} Resolves once the list is updated
+   */
+  const loadAccounts = async () => {
+    const storedAccounts = await storage.getAccounts();
+    setAccounts(storedAccounts.map(account => account.user));
+  };
+
+  /**
+   * Finishes signing in after a login or registration
+   * The account is added to the signed-in accounts and becomes the current one.
+   * Restores the previous screen if the same user's session had expired;
+   * if a different user signs in, drops the expired user's cached data.
+   *
+   * @param {User} newUser - The user who signed in
+   * @param {Tokens} newTokens - Their tokens
+   * @returns {Promise<void>} Resolves once the session is stored
+   * @throws {Error} When the session cannot be stored; the user is not signed in then
+   */
+  const startSession = async (newUser: User, newTokens: Tokens) => {
+    await storage.saveAccount(newUser, newTokens);
+    setAuthToken(newTokens.access);
+    cache.setCacheAccount(newUser.id);
+    if (expiredSession) {
+      if (expiredSession.userId === newUser.id) {
+        setNavigationStateToRestore(expiredSession.navigationState ?? null);
+      } else {
+        await cache.clearAccountCache(expiredSession.userId);
+      }
+      setExpiredSession(null);
+    }
+    setTokens(newTokens);
+    setUser(newUser);
+    setIsAddingAccount(false);
+    await loadAccounts();
+  };
+
+  /**
+   * Makes another signed-in account the current one
+   * The account's stored profile is shown right away and refreshed in the background.
+   *
+   * @param {number} userId - User ID of the account to switch to
+   * @returns {Promise<void>} Resolves once the account is current
+   */
+  const switchAccount = async (userId: number) => {
+    const account = (await storage.getAccounts()).find(stored => stored.user.id === userId);
+    if (!account) {
+      return;
+    }
+    await storage.setActiveAccountId(userId);
+    setAuthToken(account.tokens.access);
+    cache.setCacheAccount(userId);
+    setExpiredSession(null);
+    setTokens(account.tokens);
+    setUser(account.user);
+    setIsAddingAccount(false);
+
+    authService
+      .getUserProfile()
+      .then(async freshUser => {
+        await storage.updateAccountUser(freshUser);
+        // Skip the update if the user switched again in the meantime
+        if (userRef.current?.id === freshUser.id) {
+          setUser(freshUser);
+        }
+        await loadAccounts();
+      })
+      .catch(error => console.error('Failed to refresh user after switching accounts:', error));
+  };
+
+  /**
+   * Shows the sign-in screens so another account can be added
+   * The current account stays signed in.
+   */
+  const beginAddAccount = () => {
+    setIsAddingAccount(true);
+  };
+
+  /**
+   * Returns from the sign-in screens to the signed-in accounts
+   * If no account is current (e.g. its session expired), switches to the first remaining one.
+   *
+   * @returns {Promise<void>} Resolves once an account is shown again
+   */
+  const cancelAddAccount = async () => {
+    setIsAddingAccount(false);
+    if (!user) {
+      const [firstAccount] = await storage.getAccounts();
+      if (firstAccount) {
+        await switchAccount(firstAccount.user.id);
+      }
+    }
+  };
+
+  /**
+   * Refreshes the access token when the app returns to the foreground,
+   * since the scheduled refresh cannot run while the app is suspended
+   */
+  useEffect(() => {
+    if (!user) {
+      return;
+    }
+    const subscription = AppState.addEventListener('change', nextState => {
+      if (nextState === 'active') {
+        refreshTokenIfExpiring();
+      }
+    });
+    return () => subscription.remove();
+  }, [user]);
+
   /**
    * Authenticates a user with provided credentials
    * 
@@ -67,10 +293,7 @@ function useAuthHook() {
    */
   const login = async (credentials: LoginCredentials) => {
     const { user, tokens } = await authService.login(credentials);
-    setUser(user);
-    setTokens(tokens);
-    setAuthToken(tokens.access);
-    await storage.setTokens(tokens);
+    await startSession(user, tokens);
   };
 
   /**
@@ -81,30 +304,83 @@ function useAuthHook() {
    */
   const register = async (data: RegisterData) => {
     const { user, tokens } = await authService.register(data);
-    setUser(user);
-    setTokens(tokens);
-    setAuthToken(tokens.access);
-    await storage.setTokens(tokens);
+    await startSession(user, tokens);
   };
 
   /**
-   * Logs out the current user and clears all authentication data
-   * Attempts server-side logout but continues with client cleanup regardless
+   * Logs out the current account and clears its authentication data
+   * Attempts server-side logout but continues with client cleanup regardless.
+   * Other signed-in accounts stay signed in; the first of them becomes current.
    * 
    * @returns {Promise<void>} Resolves when logout is complete
    */
   const logout = async () => {
-    if (tokens?.refresh) {
+    // Read from storage: the refresh token may have been rotated since it was put in state
+    const currentTokens = (await storage.getTokens()) ?? tokens;
+    if (currentTokens?.refresh) {
       try {
-        await authService.logout({ refresh_token: tokens.refresh });
+        await authService.logout({ refresh_token: currentTokens.refresh });
       } catch (error) {
         console.error("Logout failed on server, clearing client-side anyway:", error);
       }
     }
-    setUser(null);
-    setTokens(null);
+    await endSession();
+  };
+
+  /**
+   * Clears the current account's authentication data on the device
+   * The first remaining signed-in account becomes current, if there is one.
+   * 
+   * @returns {Promise<void>} Resolves once the account is removed
+   */
+  const endSession = async () => {
+    setExpiredSession(null);
+    // Read from storage before the tokens are cleared: during startup `user` is not set yet
+    const accountId = await storage.getActiveAccountId();
     clearAuthToken();
     await storage.clearTokens();
+    // Cached responses include per-user data such as the user's own reviews
+    if (accountId !== null) {
+      await cache.clearAccountCache(accountId);
+    }
+
+    const [nextAccount] = await storage.getAccounts();
+    if (nextAccount) {
+      await switchAccount(nextAccount.user.id);
+    } else {
+      cache.setCacheAccount(null);
+      setUser(null);
+      setTokens(null);
+    }
+    await loadAccounts();
+  };
+
+  /**
+   * Logs out every signed-in account and clears all authentication data
+   * Each account's session is revoked on the server with that account's
+   * tokens; client cleanup happens regardless of server errors.
+   * 
+   * @returns {Promise<void>} Resolves when every account is logged out
+   */
+  const logoutAllAccounts = async () => {
+    for (const account of await storage.getAccounts()) {
+      await storage.setActiveAccountId(account.user.id);
+      setAuthToken(account.tokens.access);
+      try {
+        await authService.logout({ refresh_token: account.tokens.refresh });
+      } catch (error) {
+        console.error("Logout failed on server, clearing client-side anyway:", error);
+      }
+      await cache.clearAccountCache(account.user.id);
+    }
+    clearAuthToken();
+    await storage.clearAccounts();
+    cache.setCacheAccount(null);
+    setExpiredSession(null);
+    setIsAddingAccount(false);
+    setUser(null);
+    setTokens(null);
+    await loadAccounts();
   };
 
   /**
@@ -117,14 +393,99 @@ function useAuthHook() {
   const updateProfile = async (data: FormData) => {
     try {
       const updatedUser = await authService.updateUserProfile(data);
+      await storage.updateAccountUser(updatedUser);
       setUser(updatedUser);
+      await loadAccounts();
     } catch (error) {
       console.error("Context: Update Profile Failed", error);
       throw error;
     }
   };
 
-  return { user, tokens, isLoading, login, register, logout,updateProfile };
+  /**
+   * Changes the current user's password and switches to the tokens issued for it
+   * 
+   * @param {ChangePasswordData} data - Current password and the new password with its confirmation
+   * @param {boolean} signOutOtherSessions - Whether to end the user's sessions on other devices
+   * @returns {Promise<void>} Resolves once the new tokens are stored
+   * @throws {Error} When there is no session to rotate or the password change fails
+   */
+  const changePassword = async (data: ChangePasswordData, signOutOtherSessions: boolean) => {
+    // Read from storage: the refresh token may have been rotated since it was put in state
+    const currentTokens = (await storage.getTokens()) ?? tokens;
+    if (!currentTokens?.refresh) {
+      throw new ApiError('auth', 'Your session has expired. Please log in again.');
+    }
+    const newTokens = await authService.changePassword(data, currentTokens.refresh, signOutOtherSessions);
+    setAuthToken(newTokens.access);
+    await storage.setTokens(newTokens, currentTokens);
+    setTokens(newTokens);
+  };
+
+  /**
+   * Permanently deletes the current account
+   * After the backend deleted it, the account's tokens, cached responses and
+   * queued offline changes are removed from the device as well.
+   * 
+   * @param {DeleteAccountData} data - The user's password, confirming the deletion
+   * @returns {Promise<void>} Resolves once the account is deleted and signed out
+   * @throws {Error} When the password is wrong or the deletion fails
+   */
+  const deleteAccount = async (data: DeleteAccountData) => {
+    await authService.deleteAccount(data);
+    if (user) {
+      await outbox.discardAccountMutations(user.id);
+    }
+    await endSession();
+  };
+
+  /**
+   * Confirms the current user's email address
+   * 
+   * @param {string} code - Code from the verification email
+   * @returns {Promise<void>} Resolves once the user is marked as verified
+   * @throws {Error} When the code is wrong or expired
+   */
+  const verifyEmail = async (code: string) => {
+    const verifiedUser = await authService.verifyEmail(code);
+    await storage.updateAccountUser(verifiedUser);
+    setUser(verifiedUser);
+    await loadAccounts();
+  };
+
+  /**
+   * Sends the current user a new verification code
+   * 
+   * @returns {Promise<void>} Resolves when the code was sent
+   * @throws {Error} When the request fails or is throttled
+   */
+  const resendVerificationEmail = async () => {
+    if (user) {
+      await authService.resendVerificationEmail(user.email);
+    }
+  };
+
+  return {
+    user,
+    accounts,
+    isAddingAccount,
+    tokens,
+    isLoading,
+    sessionExpired: expiredSession !== null,
+    isEmailVerified: user?.email_verified ?? false,
+    login,
+    register,
+    logout,
+    logoutAllAccounts,
+    switchAccount,
+    beginAddAccount,
+    cancelAddAccount,
+    updateProfile,
+    changePassword,
+    deleteAccount,
+    verifyEmail,
+    resendVerificationEmail,
+  };
 }
 
 /**
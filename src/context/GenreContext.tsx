@@ -0,0 +1,99 @@
+/**
+ * @fileoverview Genre Context providing the current genre list
+ *
+ * This file provides a React context for the genres movies can be assigned to:
+ * - The persisted (or bundled) list right away, then the backend's list
+ * - Fetching the list again once it is older than GENRES_TTL
+ * - Fetching it again when connectivity returns while only a fallback is shown
+ * - Looking up genres by id for display
+ *
+ * Uses constate for optimized context creation and genreService for loading.
+ * Every genre picker and display reads its genres from here.
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import constate from 'constate';
+import NetInfo from '@react-native-community/netinfo';
+import * as genreService from '../service/genreService';
+import { BUNDLED_GENRES } from '../data/genres';
+import { Genre } from '../types';
+
+/**
+ * Custom hook for managing the genre list
+ *
+ * @returns {Object} Genre context with state and methods
+ * @returns {Genre[]} returns.genres - Genres to offer and display
+ * @returns {boolean} returns.isFallback - Whether the list was not fetched from the current backend yet
+ * @returns {Function} returns.getGenre - Function to look up a genre by id
+ * @returns {Function} returns.refreshGenres - Function to fetch the list from the backend again
+ */
+function useGenresHook() {
+  const [genres, setGenres] = useState<Genre[]>(BUNDLED_GENRES);
+  const [origin, setOrigin] = useState<genreService.LoadedGenres['origin']>('bundled');
+  const isRefreshingRef = useRef(false);
+
+  /**
+   * Fetches the genre list from the backend, keeping the current list if that fails
+   *
+   * @returns {Promise<void>} Resolves when the list is fetched or the fetch failed
+   */
+  const refreshGenres = async () => {
+    if (isRefreshingRef.current) return;
+    isRefreshingRef.current = true;
+    try {
+      const loaded = await genreService.refreshGenres();
+      setGenres(loaded.genres);
+      setOrigin(loaded.origin);
+    } catch (error) {
+      console.error('Failed to fetch genres:', error);
+    } finally {
+      isRefreshingRef.current = false;
+    }
+  };
+
+  /**
+   * Looks up a genre by id
+   *
+   * @param {number} id - Genre id
+   * @returns {Genre|undefined} The genre, if the current list has it
+   */
+  const getGenre = (id: number): Genre | undefined => genres.find(genre => genre.id === id);
+
+  // Keep a reference to the latest state for the connectivity listener
+  const latestRef = useRef({ origin, refreshGenres });
+  latestRef.current = { origin, refreshGenres };
+
+  // Show the persisted list first, then fetch a fresh one if it is missing or stale
+  useEffect(() => {
+    genreService.readGenres().then(loaded => {
+      // A fetch started by the connectivity listener may have finished first
+      if (latestRef.current.origin === 'backend') return;
+      setGenres(loaded.genres);
+      setOrigin(loaded.origin);
+      if (loaded.isStale) {
+        latestRef.current.refreshGenres();
+      }
+    });
+    const unsubscribe = NetInfo.addEventListener(state => {
+      if (state.isConnected && state.isInternetReachable !== false && latestRef.current.origin === 'bundled') {
+        latestRef.current.refreshGenres();
+      }
+    });
+    return unsubscribe;
+  }, []);
+
+  return {
+    genres,
+    isFallback: origin === 'bundled',
+    getGenre,
+    refreshGenres,
+  };
+}
+
+/**
+ * Genre context provider and hook
+ *
+ * Provides the genre list to the component tree
+ * Uses constate for optimized context creation
+ */
+export const [GenreProvider, useGenres] = constate(useGenresHook);
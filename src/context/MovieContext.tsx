@@ -2,19 +2,73 @@
  * @fileoverview Movie Context for managing movie-related state and operations
  * 
  * This file provides a React context for managing movie data including:
- * - Movie listing with pagination
+ * - Movie listing with pagination, narrowed by a search query and filters and sorted
  * - Individual movie details
  * - Review management (CRUD operations)
  * - Movie updates and deletion
+ * - Offline queueing and replay of review and movie mutations
+ * - Stale-while-revalidate caching of the movie list and details
+ * - Cancellation of superseded or abandoned reads
  * - Loading states and error handling
  * 
  * Uses constate for optimized context creation and movieService for API operations.
  */
 
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
 import constate from 'constate';
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
 import * as movieService from '../service/movieService';
-import { Movie } from '../types';
+import * as outbox from '../service/outbox';
+import * as cache from '../utils/cache';
+import { isCanceledError, toApiError } from '../service/apiError';
+import { Movie, MovieCreateInput, MovieUpdateInput } from '../types';
+
+/** How long a cached movie list page is shown without revalidating (ms) */
+const MOVIE_LIST_TTL = 60 * 1000;
+
+/** How long a cached movie is shown without revalidating (ms) */
+const MOVIE_DETAILS_TTL = 5 * 60 * 1000;
+
+/**
+ * Outcome of a review or movie mutation
+ * - completed: the backend accepted the change
+ * - queued: the change could not be sent yet (e.g. offline) and will be synced later
+ */
+export type MutationResult = 'completed' | 'queued';
+
+/**
+ * Tells whether a connectivity state allows reaching the backend
+ *
+ * @param {NetInfoState} state - State reported by NetInfo
+ * @returns {boolean} Whether the device is online
+ */
+const isOnline = (state: NetInfoState): boolean =>
+  state.isConnected === true && state.isInternetReachable !== false;
+
+/**
+ * Starts a request that supersedes the one tracked in the given ref
+ * The previous request is aborted; the new one is also aborted when the
+ * caller's signal fires (e.g. the requesting screen unmounts).
+ *
+ * @param {React.MutableRefObject<AbortController|null>} ref - Tracks the latest request of one kind
+ * @param {AbortSignal} [signal] - Caller's signal
+ * @returns {AbortController} Controller of the new request
+ */
+const startRequest = (
+  ref: React.MutableRefObject<AbortController | null>,
+  signal?: AbortSignal,
+): AbortController => {
+  ref.current?.abort();
+  const controller = new AbortController();
+  ref.current = controller;
+  if (signal?.aborted) {
+    controller.abort();
+  } else {
+    signal?.addEventListener('abort', () => controller.abort());
+  }
+  return controller;
+};
 
 /**
  * Custom hook for managing movie state and operations
@@ -24,18 +78,25 @@ import { Movie } from '../types';
  * @returns {Movie|null} returns.movie - Currently selected movie details
  * @returns {boolean} returns.isListLoading - Loading state for movie list operations
  * @returns {boolean} returns.isDetailLoading - Loading state for movie detail operations
- * @returns {string|null} returns.error - Current error message or null
+ * @returns {string|null} returns.error - Error message of the movie list fetch, or null
+ * @returns {string|null} returns.detailError - Error message of the movie details fetch, or null
  * @returns {boolean} returns.isFetchingMore - Loading state for pagination
  * @returns {number} returns.currentPage - Current page number for pagination
  * @returns {boolean} returns.hasNextPage - Whether more pages are available
+ * @returns {MovieQuery} returns.query - Query the movie list is narrowed by
+ * @returns {Function} returns.updateQuery - Function to change the query and reload the list
  * @returns {Function} returns.fetchMovies - Function to fetch initial movie list
  * @returns {Function} returns.fetchMoreMovies - Function to fetch next page of movies
  * @returns {Function} returns.fetchMovieById - Function to fetch specific movie details
  * @returns {Function} returns.addReview - Function to add a new review
+ * @returns {Function} returns.createMovie - Function to create a new movie
  * @returns {Function} returns.updateMovie - Function to update movie information
  * @returns {Function} returns.deleteMovie - Function to delete a movie
  * @returns {Function} returns.deleteReview - Function to delete a review
  * @returns {Function} returns.updateReview - Function to update a review
+ * @returns {OutboxEntry[]} returns.pendingMutations - Mutations queued while offline
+ * @returns {OutboxFailure[]} returns.syncFailures - Queued mutations the backend refused
+ * @returns {Function} returns.clearSyncFailures - Function to dismiss reported sync failures
  */
 function useMovieHook() {
   // State for the main list of movies
@@ -49,31 +110,91 @@ function useMovieHook() {
 
   // A general error state
   const [error, setError] = useState<string | null>(null);
+  // Why the movie details could not be loaded, shown instead of the details
+  const [detailError, setDetailError] = useState<string | null>(null);
 
   // --- PAGINATION STATE ---
   const [isFetchingMore, setIsFetchingMore] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
   const [hasNextPage, setHasNextPage] = useState(true);
 
+  // --- LIST QUERY (search and filters) ---
+  const [query, setQuery] = useState<movieService.MovieQuery>({});
+  // Read by fetches started in the same tick as a query change
+  const queryRef = useRef(query);
+
+  // --- OFFLINE OUTBOX STATE ---
+  const [pendingMutations, setPendingMutations] = useState<outbox.OutboxEntry[]>([]);
+  const [syncFailures, setSyncFailures] = useState<outbox.OutboxFailure[]>([]);
+  const isSyncingRef = useRef(false);
+  const replayTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Replay attempts in a row that left mutations queued, for the backoff delay
+  const replayAttemptsRef = useRef(0);
+
+  // --- IN-FLIGHT READS (aborted when superseded) ---
+  const listRequestRef = useRef<AbortController | null>(null);
+  const listRequestKeyRef = useRef<string | null>(null);
+  const moreRequestRef = useRef<AbortController | null>(null);
+  const detailRequestRef = useRef<AbortController | null>(null);
+
   /**
    * Fetches the initial list of movies from the API
    * Resets pagination state and handles loading/error states
    * 
+   * Cached data is rendered immediately; the network request only runs when
+   * the cache is missing or older than MOVIE_LIST_TTL, and a full-screen
+   * loading state is only shown when nothing is cached.
+   * The list is fetched for the current query, starting again from page 1.
+   * A new call aborts any list request still in flight, including "load more",
+   * so results for an outdated query never replace those of the current one.
+   * 
+   * @param {RequestOptions} [options] - Signal for aborting the fetch, e.g. on unmount
    * @returns {Promise<void>} Resolves when movies are fetched
    */
-  const fetchMovies = async () => {
-    if (isListLoading) return;
-    setIsListLoading(true);
+  const fetchMovies = async (options: movieService.RequestOptions = {}) => {
+    const listQuery = queryRef.current;
+    const cacheKey = movieService.moviesEndpoint(1, listQuery);
+    if (isListLoading && listRequestKeyRef.current === cacheKey) return;
+    const controller = startRequest(listRequestRef, options.signal);
+    listRequestKeyRef.current = cacheKey;
+    moreRequestRef.current?.abort();
+    const cached = await cache.readCache<movieService.PaginatedMoviesResponse>(cacheKey, MOVIE_LIST_TTL);
+    if (controller.signal.aborted) return;
     setError(null);
+    if (cached) {
+      setMovies(cached.data.results);
+      setHasNextPage(cached.data.next !== null);
+      setCurrentPage(2);
+      if (!cached.isStale) {
+        // A request for a previous query may have left the loading state on
+        setIsListLoading(false);
+        return;
+      }
+    } else {
+      // Never show the previous query's results while this one loads
+      setMovies([]);
+      setHasNextPage(false);
+      setCurrentPage(1);
+      setIsListLoading(true);
+    }
     try {
-      const data = await movieService.getMovies(1);
+      const data = await movieService.getMovies(1, listQuery, { signal: controller.signal });
+      if (controller.signal.aborted) return;
       setMovies(data.results);
       setHasNextPage(data.next !== null);
       setCurrentPage(2); 
+      replayAfterSuccess();
+      await cache.writeCache(cacheKey, data);
     } catch (err: any) {
-      setError(err.message || 'Failed to fetch movies');
+      // Keep showing cached data if only the background revalidation failed
+      if (!cached && !isCanceledError(err)) {
+        setError(err.message || 'Failed to fetch movies');
+      }
     } finally {
-      setIsListLoading(false);
+      if (listRequestRef.current === controller) {
+        listRequestRef.current = null;
+        setIsListLoading(false);
+      }
     }
   };
 
@@ -85,38 +206,258 @@ function useMovieHook() {
    */
   const fetchMoreMovies = async () => {
     if (isFetchingMore || !hasNextPage) return;
+    const listQuery = queryRef.current;
+    const controller = startRequest(moreRequestRef);
     setIsFetchingMore(true);
     try {
-      const data = await movieService.getMovies(currentPage);
-      setMovies(prevMovies => [...prevMovies, ...data.results]);
+      const data = await movieService.getMovies(currentPage, listQuery, { signal: controller.signal });
+      if (controller.signal.aborted) return;
+      // Movies can move to the next page while paging (e.g. after an edit); list each only once
+      setMovies(prevMovies => [
+        ...prevMovies,
+        ...data.results.filter(result => !prevMovies.some(prevMovie => prevMovie.id === result.id)),
+      ]);
       setHasNextPage(data.next !== null);
       setCurrentPage(prevPage => prevPage + 1);
+      replayAfterSuccess();
+      await cache.writeCache(movieService.moviesEndpoint(currentPage, listQuery), data);
     } catch (err: any) {
-      console.error("Failed to fetch more movies:", err);
+      if (!isCanceledError(err)) {
+        console.error("Failed to fetch more movies:", err);
+      }
     } finally {
+      if (moreRequestRef.current === controller) {
+        moreRequestRef.current = null;
+      }
       setIsFetchingMore(false);
     }
   };
 
+  /**
+   * Changes the query the movie list is narrowed by and reloads the list from page 1
+   * 
+   * @param {Partial<MovieQuery>} changes - Query fields to change, e.g. `{ search: 'nolan' }`
+   * @returns {Promise<void>} Resolves when the movies for the new query are fetched
+   */
+  const updateQuery = async (changes: Partial<movieService.MovieQuery>) => {
+    const nextQuery = { ...queryRef.current, ...changes };
+    queryRef.current = nextQuery;
+    setQuery(nextQuery);
+    await fetchMovies();
+  };
+
   /**
    * Fetches detailed information for a specific movie by ID
    * 
+   * Like fetchMovies, renders a cached copy immediately and only hits the
+   * network when the cache is missing or older than MOVIE_DETAILS_TTL.
+   * Opening another movie aborts the previous request, so a slow response
+   * for an earlier movie can never replace the one being shown.
+   * 
    * @param {number} id - The unique identifier of the movie
+   * @param {RequestOptions} [options] - Signal for aborting the fetch, e.g. on unmount
    * @returns {Promise<void>} Resolves when movie details are fetched
    */
-  const fetchMovieById = async (id: number) => {
-    setIsDetailLoading(true);
-    setError(null);
+  const fetchMovieById = async (id: number, options: movieService.RequestOptions = {}) => {
+    const controller = startRequest(detailRequestRef, options.signal);
+    setDetailError(null);
+    const cacheKey = movieService.movieEndpoint(id);
+    const cached = await cache.readCache<Movie>(cacheKey, MOVIE_DETAILS_TTL);
+    if (controller.signal.aborted) return;
+    if (cached) {
+      setMovie(cached.data);
+      if (!cached.isStale) {
+        // A superseded request may have left the loading state on
+        setIsDetailLoading(false);
+        return;
+      }
+    } else {
+      setIsDetailLoading(true);
+    }
     try {
-      const data = await movieService.getMovieById(id);
+      const data = await movieService.getMovieById(id, { signal: controller.signal });
+      if (controller.signal.aborted) return;
       setMovie(data);
+      replayAfterSuccess();
+      await cache.writeCache(cacheKey, data);
     } catch (err: any) {
-      setError(err.message || 'Failed to fetch movie details');
+      if (!cached && !isCanceledError(err)) {
+        setDetailError(err.message || 'Failed to fetch movie details');
+      }
     } finally {
-      setIsDetailLoading(false);
+      if (detailRequestRef.current === controller) {
+        detailRequestRef.current = null;
+        setIsDetailLoading(false);
+      }
+    }
+  };
+
+  /**
+   * Drops cached list pages and, optionally, a cached movie after a mutation
+   * so the following fetch goes to the network
+   * 
+   * @param {number} [movieId] - The ID of the movie whose details changed
+   * @returns {Promise<void>} Resolves when the cache entries are removed
+   */
+  const invalidateMovieCaches = async (movieId?: number) => {
+    await cache.invalidateCache('/movies/?');
+    if (movieId !== undefined) {
+      await cache.invalidateCache(movieService.movieEndpoint(movieId));
     }
   };
 
+  /**
+   * Schedules the next replay of the queue, replacing one already scheduled
+   * 
+   * @param {number} delay - Delay before replaying in milliseconds
+   */
+  const scheduleReplay = (delay: number) => {
+    if (replayTimerRef.current) {
+      clearTimeout(replayTimerRef.current);
+    }
+    replayTimerRef.current = setTimeout(() => {
+      replayTimerRef.current = null;
+      syncOutboxRef.current();
+    }, delay);
+  };
+
+  /**
+   * Replays queued mutations after a request succeeded, since the backend is reachable again
+   */
+  const replayAfterSuccess = () => {
+    if (pendingMutations.length > 0) {
+      syncOutboxRef.current();
+    }
+  };
+
+  /**
+   * Tells whether a new mutation can be sent right away
+   * 
+   * Older queued mutations go first so that ordering is kept: they are
+   * replayed now unless the device is offline or a replay is already sending
+   * them, and the new mutation is only sent once none of them are left.
+   * 
+   * @returns {Promise<boolean>} Whether no queued mutation has to go first
+   */
+  const canSendDirectly = async (): Promise<boolean> => {
+    if ((await outbox.getOutbox()).length === 0) return true;
+    if (isSyncingRef.current || !isOnline(await NetInfo.fetch())) return false;
+    await syncOutbox();
+    return (await outbox.getOutbox()).length === 0;
+  };
+
+  /**
+   * Sends a mutation, or queues it when it cannot be sent yet
+   * 
+   * Mutations are queued when the request fails with a network error, and
+   * also whenever older mutations are still waiting so that ordering is kept.
+   * Queued mutations are replayed on a backoff timer until they are sent.
+   * 
+   * @param {OutboxMutation} mutation - Mutation to queue if it cannot be sent
+   * @param {Function} send - Function performing the request
+   * @returns {Promise<MutationResult>} Whether the change was completed or queued
+   * @throws {ApiError} When the backend refuses the mutation
+   */
+  const runMutation = async (
+    mutation: outbox.OutboxMutation,
+    send: () => Promise<unknown>,
+  ): Promise<MutationResult> => {
+    if (await canSendDirectly()) {
+      try {
+        await send();
+        return 'completed';
+      } catch (err) {
+        if (toApiError(err).kind !== 'network') {
+          throw err;
+        }
+      }
+    }
+    setPendingMutations(await outbox.enqueueMutation(mutation));
+    if (!replayTimerRef.current) {
+      scheduleReplay(outbox.getReplayDelay(replayAttemptsRef.current));
+    }
+    return 'queued';
+  };
+
+  /**
+   * Replays queued mutations and refreshes the affected data
+   * Refused mutations are collected in syncFailures for the UI to report.
+   * When mutations stay queued, another replay is scheduled with a growing delay.
+   * 
+   * @returns {Promise<void>} Resolves when the replay attempt is finished
+   */
+  const syncOutbox = async () => {
+    if (isSyncingRef.current) return;
+    isSyncingRef.current = true;
+    try {
+      const queued = await outbox.getOutbox();
+      if (queued.length === 0) {
+        replayAttemptsRef.current = 0;
+        return;
+      }
+
+      const { synced, failures, remaining } = await outbox.replayOutbox();
+      // Mutations queued while this replay was running are still waiting as well
+      const waiting = await outbox.getOutbox();
+      setPendingMutations(waiting);
+      if (remaining.length > 0) {
+        scheduleReplay(outbox.getReplayDelay(replayAttemptsRef.current++));
+      } else {
+        replayAttemptsRef.current = 0;
+        if (waiting.length > 0) {
+          scheduleReplay(0);
+        }
+      }
+      if (failures.length > 0) {
+        setSyncFailures(prevFailures => [...prevFailures, ...failures]);
+      }
+      if (synced.length > 0 || failures.length > 0) {
+        const affectedIds = new Set([...synced, ...failures.map(f => f.entry)].map(e => e.movieId));
+        await Promise.all(Array.from(affectedIds).map(id => invalidateMovieCaches(id)));
+        await fetchMovies();
+        if (movie && affectedIds.has(movie.id)) {
+          await fetchMovieById(movie.id);
+        }
+      }
+    } finally {
+      isSyncingRef.current = false;
+    }
+  };
+
+  // Keep a reference to the latest syncOutbox for the listeners and the replay timer
+  const syncOutboxRef = useRef(syncOutbox);
+  syncOutboxRef.current = syncOutbox;
+
+  // Restore the persisted outbox and replay it whenever connectivity returns
+  // or the app comes back to the foreground
+  useEffect(() => {
+    outbox.getOutbox().then(setPendingMutations);
+    const unsubscribe = NetInfo.addEventListener(state => {
+      if (isOnline(state)) {
+        syncOutboxRef.current();
+      }
+    });
+    const subscription = AppState.addEventListener('change', nextState => {
+      if (nextState === 'active') {
+        syncOutboxRef.current();
+      }
+    });
+    return () => {
+      unsubscribe();
+      subscription.remove();
+      if (replayTimerRef.current) {
+        clearTimeout(replayTimerRef.current);
+      }
+    };
+  }, []);
+
+  /**
+   * Dismisses sync failures once they have been shown to the user
+   */
+  const clearSyncFailures = () => {
+    setSyncFailures([]);
+  };
+
   /**
    * Adds a new review to a specific movie
    * 
@@ -124,15 +465,22 @@ function useMovieHook() {
    * @param {Object} reviewData - Review data containing rating and comment
    * @param {number} reviewData.rating - Rating value (1-5)
    * @param {string} reviewData.comment - Review comment text
-   * @returns {Promise<void>} Resolves when review is added successfully
+   * @returns {Promise<MutationResult>} Whether the review was added or queued
    * @throws {Error} When review creation fails
    */
   const addReview = async (movieId: number, reviewData: { rating: number; comment: string }) => {
     try {
-      await movieService.createReview(movieId, reviewData);
-      await fetchMovieById(movieId);
+      const result = await runMutation(
+        { type: 'addReview', movieId, data: reviewData },
+        () => movieService.createReview(movieId, reviewData),
+      );
+      if (result === 'completed') {
+        await invalidateMovieCaches(movieId);
+        await fetchMovieById(movieId);
+      }
+      return result;
     } catch (err: any) {
-      console.error("Context: Add Review Failed", err.response?.data || err.message);
+      console.error("Context: Add Review Failed", err.data || err.message);
       throw err; 
     }
   };
@@ -145,15 +493,22 @@ function useMovieHook() {
    * @param {number} reviewData.rating - New rating value
    * @param {string} reviewData.comment - New comment text
    * @param {number} movieId - The ID of the movie the review belongs to
-   * @returns {Promise<void>} Resolves when review is updated successfully
+   * @returns {Promise<MutationResult>} Whether the review was updated or queued
    * @throws {Error} When review update fails
    */
   const updateReview = async (reviewId: number, reviewData: { rating: number; comment: string }, movieId: number) => {
     try {
-      await movieService.updateReview(reviewId, reviewData);
-      await fetchMovieById(movieId);
+      const result = await runMutation(
+        { type: 'updateReview', movieId, reviewId, data: reviewData },
+        () => movieService.updateReview(reviewId, reviewData),
+      );
+      if (result === 'completed') {
+        await invalidateMovieCaches(movieId);
+        await fetchMovieById(movieId);
+      }
+      return result;
     } catch (err: any) {
-      console.error("Context: Update Review Failed", err.response?.data || err.message);
+      console.error("Context: Update Review Failed", err.data || err.message);
       throw err;
     }
   };
@@ -163,15 +518,40 @@ function useMovieHook() {
    * 
    * @param {number} reviewId - The ID of the review to delete
    * @param {number} movieId - The ID of the movie the review belongs to
-   * @returns {Promise<void>} Resolves when review is deleted successfully
+   * @returns {Promise<MutationResult>} Whether the review was deleted or queued
    * @throws {Error} When review deletion fails
    */
   const deleteReview = async (reviewId: number, movieId: number) => {
     try {
-      await movieService.deleteReview(reviewId);
-      await fetchMovieById(movieId);
+      const result = await runMutation(
+        { type: 'deleteReview', movieId, reviewId },
+        () => movieService.deleteReview(reviewId),
+      );
+      if (result === 'completed') {
+        await invalidateMovieCaches(movieId);
+        await fetchMovieById(movieId);
+      }
+      return result;
+    } catch (err: any) {
+      console.error("Context: Delete Review Failed", err.data || err.message);
+      throw err;
+    }
+  };
+
+  /**
+   * Creates a new movie and drops the cached list so it shows up immediately
+   * 
+   * @param {MovieCreateInput} movieData - Movie data from the add movie form
+   * @returns {Promise<Movie>} The created movie
+   * @throws {Error} When movie creation fails
+   */
+  const createMovie = async (movieData: MovieCreateInput) => {
+    try {
+      const created = await movieService.createMovie(movieData);
+      await invalidateMovieCaches();
+      return created;
     } catch (err: any) {
-      console.error("Context: Delete Review Failed", err.response?.data || err.message);
+      console.error("Context: Create Movie Failed", err.data || err.message);
       throw err;
     }
   };
@@ -180,17 +560,25 @@ function useMovieHook() {
    * Updates movie information
    * 
    * @param {number} movieId - The ID of the movie to update
-   * @param {any} movieData - Updated movie data
-   * @returns {Promise<void>} Resolves when movie is updated successfully
-   * @throws {Error} When movie update fails
+   * @param {MovieUpdateInput} movieData - Changed fields only
+   * @param {string} [version] - `updated_at` of the movie the edit is based on
+   * @returns {Promise<MutationResult>} Whether the movie was updated or queued
+   * @throws {Error} When movie update fails, including conflicts with newer changes
    */
-  const updateMovie = async (movieId: number, movieData: any) => {
+  const updateMovie = async (movieId: number, movieData: MovieUpdateInput, version?: string) => {
     try {
-      await movieService.updateMovie(movieId, movieData);
-      await fetchMovieById(movieId);
-      await fetchMovies();
+      const result = await runMutation(
+        { type: 'updateMovie', movieId, data: movieData, version },
+        () => movieService.updateMovie(movieId, movieData, version),
+      );
+      if (result === 'completed') {
+        await invalidateMovieCaches(movieId);
+        await fetchMovieById(movieId);
+        await fetchMovies();
+      }
+      return result;
     } catch (err: any) {
-      console.error("Context: Update Movie Failed", err.response?.data || err.message);
+      console.error("Context: Update Movie Failed", err.data || err.message);
       throw err;
     }
   };
@@ -199,15 +587,22 @@ function useMovieHook() {
    * Deletes a movie from the system
    * 
    * @param {number} movieId - The ID of the movie to delete
-   * @returns {Promise<void>} Resolves when movie is deleted successfully
+   * @returns {Promise<MutationResult>} Whether the movie was deleted or queued
    * @throws {Error} When movie deletion fails
    */
   const deleteMovie = async (movieId: number) => {
     try {
-      await movieService.deleteMovie(movieId);
-      await fetchMovies();
+      const result = await runMutation(
+        { type: 'deleteMovie', movieId },
+        () => movieService.deleteMovie(movieId),
+      );
+      if (result === 'completed') {
+        await invalidateMovieCaches(movieId);
+        await fetchMovies();
+      }
+      return result;
     } catch (err: any) {
-      console.error("Context: Delete Movie Failed", err.response?.data || err.message);
+      console.error("Context: Delete Movie Failed", err.data || err.message);
       throw err;
     }
   };
@@ -218,17 +613,24 @@ function useMovieHook() {
     isListLoading,
     isDetailLoading,
     error,
+    detailError,
     isFetchingMore,
     currentPage,
     hasNextPage,
+    query,
+    updateQuery,
     fetchMovies,
     fetchMoreMovies,
     fetchMovieById,
     addReview,
+    createMovie,
     updateMovie,
     deleteMovie,
     deleteReview,
     updateReview,
+    pendingMutations,
+    syncFailures,
+    clearSyncFailures,
   };
 }
 
@@ -1,29 +1,26 @@
 /**
- * @fileoverview Movie genre definitions and data
+ * @fileoverview Genre list bundled with the app
  * 
- * This file provides a comprehensive list of movie genres used throughout the app:
- * - Genre interface definition with ID, value, and label
- * - Complete list of available genres for movie categorization
- * - Consistent genre mapping between backend values and display labels
+ * This file provides the genres known when the app was built:
+ * - Used by the genre service until the backend's list is loaded, and
+ *   whenever it cannot be fetched and nothing is persisted (e.g. offline)
+ * - Seeds the genre table of the demo-mode backend
  * 
- * Genres are used for movie filtering, categorization, and form validation.
+ * Pickers and displays never use this list directly; they get the current
+ * genres from GenreContext, since the backend may add or renumber genres.
  */
 
-export interface Genre {
-  id: number;
-  value: string;
-  label: string;
-}
+import { Genre } from '../types';
 
 /**
- * Complete list of available movie genres
+ * Fallback list of movie genres
  * 
  * Each genre includes:
  * - id: Unique numeric identifier
  * - value: Backend API value (uppercase, underscore-separated)
  * - label: Human-readable display name
  */
-export const ALL_GENRES: Genre[] = [
+export const BUNDLED_GENRES: Genre[] = [
   { id: 1, value: 'ACTION', label: 'Action' },
   { id: 2, value: 'COMEDY', label: 'Comedy' },
   { id: 3, value: 'DRAMA', label: 'Drama' },
@@ -44,4 +41,4 @@ export const ALL_GENRES: Genre[] = [
   { id: 18, value: 'BIOGRAPHY', label: 'Biography' },
   { id: 19, value: 'HISTORY', label: 'History' },
   { id: 20, value: 'SPORT', label: 'Sport' },
-];
\ No newline at end of file
+];
@@ -2,9 +2,11 @@
  * @fileoverview Main application navigation structure
  * 
  * This file defines the primary navigation hierarchy for the Movie Review App:
- * - Drawer navigation as the root navigator
+ * - Drawer navigation as the root navigator, headed by the account switcher
  * - Movie stack for movie-related screens
  * - Profile stack for user profile management
+ * - Email verification screen, opened first for unverified users
+ * - Network inspector screen in debug builds
  * 
  * Implements a drawer-based navigation pattern with nested stack navigators
  * for organized screen grouping and navigation flow.
@@ -12,7 +14,12 @@
 
 import React from 'react';
 import { TouchableOpacity } from 'react-native';
-import { createDrawerNavigator } from '@react-navigation/drawer';
+import {
+  createDrawerNavigator,
+  DrawerContentComponentProps,
+  DrawerContentScrollView,
+  DrawerItemList,
+} from '@react-navigation/drawer';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { DrawerActions, NavigationProp } from '@react-navigation/native';
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
@@ -24,6 +31,13 @@ import AddMovieScreen from '../screens/movies/AddMovieScreen';
 import EditMovieScreen from '../screens/movies/EditMovieScreen';
 import ProfileScreen from '../screens/profile/ProfileScreen';
 import EditProfileScreen from '../screens/profile/EditProfileScreen';
+import ChangePasswordScreen from '../screens/profile/ChangePasswordScreen';
+import AppLockSettingsScreen from '../screens/profile/AppLockSettingsScreen';
+import DeleteAccountScreen from '../screens/profile/DeleteAccountScreen';
+import VerifyEmailScreen from '../screens/profile/VerifyEmailScreen';
+import NetworkInspectorScreen from '../screens/settings/NetworkInspectorScreen';
+import AccountSwitcher from '../components/common/AccountSwitcher';
+import { useAuth } from '../context/AuthContext';
 import { globalStyles,colors } from '../styles/globalStyles';
 
 const Drawer = createDrawerNavigator<AppDrawerParamList>();
@@ -45,6 +59,19 @@ const createDrawerButton = (navigation: NavigationProp<any>) => (
   </TouchableOpacity>
 );
 
+/**
+ * Renders the drawer: the account switcher followed by the drawer items
+ * 
+ * @param {DrawerContentComponentProps} props - Drawer content props
+ * @returns {JSX.Element} Drawer content
+ */
+const renderDrawerContent = (props: DrawerContentComponentProps) => (
+  <DrawerContentScrollView {...props}>
+    <AccountSwitcher />
+    <DrawerItemList {...props} />
+  </DrawerContentScrollView>
+);
+
 /**
  * Movie stack navigator component
  * 
@@ -80,6 +107,9 @@ const MovieStackNavigator: React.FC = () => {
  * Manages navigation between profile-related screens:
  * - Profile view (main screen with drawer button)
  * - Profile editing
+ * - Password change
+ * - App lock settings
+ * - Account deletion
  * 
  * @returns {JSX.Element} Profile stack navigator
  */
@@ -99,6 +129,21 @@ const ProfileStackNavigator: React.FC = () => {
         component={EditProfileScreen}
         options={{ title: 'Edit Profile' }}
       />
+      <ProfileStack.Screen
+        name="ChangePassword"
+        component={ChangePasswordScreen}
+        options={{ title: 'Change Password' }}
+      />
+      <ProfileStack.Screen
+        name="AppLockSettings"
+        component={AppLockSettingsScreen}
+        options={{ title: 'App Lock' }}
+      />
+      <ProfileStack.Screen
+        name="DeleteAccount"
+        component={DeleteAccountScreen}
+        options={{ title: 'Delete Account' }}
+      />
     </ProfileStack.Navigator>
   );
 };
@@ -108,12 +153,20 @@ const ProfileStackNavigator: React.FC = () => {
  * 
  * Root navigation component that sets up the drawer navigation structure
  * with nested stack navigators for different app sections.
+ * Users who have not verified their email yet (e.g. right after registering)
+ * start on the verification screen.
  * 
  * @returns {JSX.Element} Main app navigator with drawer and stack structure
  */
 const AppNavigator: React.FC = () => {
+  const { isEmailVerified } = useAuth();
+
   return (
-    <Drawer.Navigator screenOptions={{ headerShown: false }}>
+    <Drawer.Navigator
+      screenOptions={{ headerShown: false }}
+      initialRouteName={isEmailVerified ? 'Home' : 'VerifyEmail'}
+      drawerContent={renderDrawerContent}
+    >
       <Drawer.Screen
         name="Home"
         component={MovieStackNavigator}
@@ -126,6 +179,18 @@ const AppNavigator: React.FC = () => {
           title: 'Profile',
         }}
       />
+      <Drawer.Screen
+        name="VerifyEmail"
+        component={VerifyEmailScreen}
+        options={{ title: 'Verify Email', headerShown: true, drawerItemStyle: { display: 'none' } }}
+      />
+      {__DEV__ && (
+        <Drawer.Screen
+          name="NetworkInspector"
+          component={NetworkInspectorScreen}
+          options={{ title: 'Network Inspector', headerShown: true }}
+        />
+      )}
     </Drawer.Navigator>
   );
 };
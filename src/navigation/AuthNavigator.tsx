@@ -4,6 +4,8 @@
  * This file defines the navigation stack for unauthenticated users:
  * - Login screen for existing users
  * - Registration screen for new users
+ * - Forgot/reset password screens for users locked out of their account
+ * - Hidden developer settings screen for backend selection (development builds only)
  * 
  * Implements a simple stack navigation pattern for authentication flow
  * with no headers for a clean, focused user experience.
@@ -14,6 +16,9 @@ import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { AuthStackParamList } from './types';
 import LoginScreen from '../screens/auth/LoginScreen';
 import RegisterScreen from '../screens/auth/RegisterScreen';
+import ForgotPasswordScreen from '../screens/auth/ForgotPasswordScreen';
+import ResetPasswordScreen from '../screens/auth/ResetPasswordScreen';
+import DeveloperSettingsScreen from '../screens/settings/DeveloperSettingsScreen';
 
 const Stack = createNativeStackNavigator<AuthStackParamList>();
 
@@ -23,6 +28,8 @@ const Stack = createNativeStackNavigator<AuthStackParamList>();
  * Manages navigation between authentication screens:
  * - Login screen (initial screen)
  * - Registration screen
+ * - Forgot password and reset password screens
+ * - Developer settings screen (shown with a header, development builds only)
  * 
  * Configured with no headers for a streamlined authentication experience.
  * 
@@ -33,6 +40,15 @@ const AuthNavigator: React.FC = () => {
     <Stack.Navigator screenOptions={{ headerShown: false }}>
       <Stack.Screen name="Login" component={LoginScreen} />
       <Stack.Screen name="Register" component={RegisterScreen} />
+      <Stack.Screen name="ForgotPassword" component={ForgotPasswordScreen} />
+      <Stack.Screen name="ResetPassword" component={ResetPasswordScreen} />
+      {__DEV__ && (
+        <Stack.Screen
+          name="DeveloperSettings"
+          component={DeveloperSettingsScreen}
+          options={{ headerShown: true, title: 'Developer Settings' }}
+        />
+      )}
     </Stack.Navigator>
   );
 };
@@ -0,0 +1,12 @@
+/**
+ * @fileoverview Shared reference to the root navigation container
+ *
+ * Lets code outside the screen tree (such as AuthContext) read and restore
+ * the navigation state, e.g. to bring the user back to the screen they were
+ * on after their session expired and they logged in again.
+ */
+
+import { createNavigationContainerRef } from '@react-navigation/native';
+
+/** Ref attached to the app's NavigationContainer */
+export const navigationRef = createNavigationContainerRef();
@@ -3,10 +3,10 @@
  * 
  * This file defines TypeScript types for navigation parameters and screen props
  * across different navigation stacks in the Movie Review App:
- * - Authentication stack (Login/Register)
+ * - Authentication stack (Login/Register/ForgotPassword/ResetPassword/DeveloperSettings)
  * - Movie management stack (List/Details/Add/Edit)
- * - Profile management stack (Profile/Edit)
- * - Main app drawer navigation
+ * - Profile management stack (Profile/Edit/ChangePassword/AppLockSettings/DeleteAccount)
+ * - Main app drawer navigation (including email verification and the debug-only network inspector)
  * 
  * Uses React Navigation v6 types for type-safe navigation.
  */
@@ -25,6 +25,12 @@ export type AuthStackParamList = {
   Login: undefined;
   /** Registration screen with no required parameters */
   Register: undefined;
+  /** Screen requesting a password reset code, optionally prefilled with an email */
+  ForgotPassword: { email?: string } | undefined;
+  /** Screen setting a new password, requiring the email the code was sent to */
+  ResetPassword: { email: string };
+  /** Hidden developer settings screen with no required parameters */
+  DeveloperSettings: undefined;
 };
 
 // --- MOVIE STACK ---
@@ -53,6 +59,12 @@ export type ProfileStackParamList = {
   Profile: undefined;
   /** Profile editing screen with no required parameters */
   EditProfile: undefined;
+  /** Password change screen with no required parameters */
+  ChangePassword: undefined;
+  /** App lock settings screen with no required parameters */
+  AppLockSettings: undefined;
+  /** Account deletion screen with no required parameters */
+  DeleteAccount: undefined;
 };
 
 // --- APP DRAWER (THE MAIN NAVIGATOR) ---
@@ -66,6 +78,12 @@ export type AppDrawerParamList = {
 
   /** Profile section containing the profile management stack */
   ProfileStack: NavigatorScreenParams<ProfileStackParamList>;
+
+  /** Email verification screen, hidden from the drawer menu */
+  VerifyEmail: undefined;
+
+  /** Network inspector, only registered in debug builds */
+  NetworkInspector: undefined;
 };
 
 // Auth Screens
@@ -79,6 +97,21 @@ export type LoginScreenProps = NativeStackScreenProps<AuthStackParamList, 'Login
  */
 export type RegisterScreenProps = NativeStackScreenProps<AuthStackParamList, 'Register'>;
 
+/**
+ * Props type for the ForgotPassword screen component
+ */
+export type ForgotPasswordScreenProps = NativeStackScreenProps<AuthStackParamList, 'ForgotPassword'>;
+
+/**
+ * Props type for the ResetPassword screen component
+ */
+export type ResetPasswordScreenProps = NativeStackScreenProps<AuthStackParamList, 'ResetPassword'>;
+
+/**
+ * Props type for the DeveloperSettings screen component
+ */
+export type DeveloperSettingsScreenProps = NativeStackScreenProps<AuthStackParamList, 'DeveloperSettings'>;
+
 // Movie Screens
 /**
  * Props type for the MovieList screen component
@@ -109,4 +142,28 @@ export type ProfileScreenProps = NativeStackScreenProps<ProfileStackParamList, '
 /**
  * Props type for the EditProfile screen component
  */
-export type EditProfileScreenProps = NativeStackScreenProps<ProfileStackParamList, 'EditProfile'>;
\ No newline at end of file
+export type EditProfileScreenProps = NativeStackScreenProps<ProfileStackParamList, 'EditProfile'>;
+
+/**
+ * Props type for the ChangePassword screen component
+ */
+export type ChangePasswordScreenProps = NativeStackScreenProps<ProfileStackParamList, 'ChangePassword'>;
+/**
+ * Props type for the AppLockSettings screen component
+ */
+export type AppLockSettingsScreenProps = NativeStackScreenProps<ProfileStackParamList, 'AppLockSettings'>;
+/**
+ * Props type for the DeleteAccount screen component
+ */
+export type DeleteAccountScreenProps = NativeStackScreenProps<ProfileStackParamList, 'DeleteAccount'>;
+// Drawer Screens
+/**
+ * Props type for the VerifyEmail screen component
+ */
+export type VerifyEmailScreenProps = DrawerScreenProps<AppDrawerParamList, 'VerifyEmail'>;
+
+// Developer Screens
+/**
+ * Props type for the NetworkInspector screen component
+ */
+export type NetworkInspectorScreenProps = DrawerScreenProps<AppDrawerParamList, 'NetworkInspector'>;
@@ -0,0 +1,130 @@
+/**
+ * @fileoverview Lock screen shown over the app while the app lock is engaged
+ *
+ * This screen asks for the app lock PIN with:
+ * - PIN input with form validation using Yup and Formik
+ * - The number of attempts left after a wrong PIN
+ * - Signing every account out after too many wrong PINs
+ * - A way out for users who forgot their PIN (signing out)
+ * - Blocking the Android back button so the app underneath stays covered
+ *
+ * Rendered by App on top of the main navigator rather than as a route, so the
+ * user returns to exactly where they were. Integrates with AppLockContext.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Alert, TouchableOpacity, BackHandler } from 'react-native';
+import { Formik } from 'formik';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { useAuth } from '../../context/AuthContext';
+import { useAppLock } from '../../context/AppLockContext';
+import { EnterPinSchema } from '../../utils/validation';
+import Input from '../../components/common/Input';
+import Button from '../../components/common/Button';
+import { globalStyles, colors, spacing } from '../../styles/globalStyles';
+
+/**
+ * App lock screen component
+ *
+ * @returns {JSX.Element} Rendered lock screen
+ */
+const AppLockScreen: React.FC = () => {
+  const { user } = useAuth();
+  const { unlock, signOut } = useAppLock();
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Keep the back button from navigating the app hidden underneath
+  useEffect(() => {
+    const subscription = BackHandler.addEventListener('hardwareBackPress', () => true);
+    return () => subscription.remove();
+  }, []);
+
+  /**
+   * Signs every account out after confirmation, for users who forgot their PIN.
+   */
+  const handleForgotPin = () => {
+    Alert.alert(
+      'Forgot PIN?',
+      'You will be signed out of every account and the app lock will be turned off.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Sign Out', style: 'destructive', onPress: () => signOut() },
+      ],
+    );
+  };
+
+  return (
+    <View style={[globalStyles.container, styles.overlay]}>
+      <View style={styles.header}>
+        <Icon name="lock-outline" size={48} color={colors.primary} />
+        <Text style={globalStyles.title}>App Locked</Text>
+        {user && <Text style={styles.hint}>Enter your PIN to continue as @{user.username}.</Text>}
+      </View>
+      <Formik
+        initialValues={{ pin: '' }}
+        validationSchema={EnterPinSchema}
+        onSubmit={async (values, { setErrors, resetForm }) => {
+          setIsLoading(true);
+          try {
+            const result = await unlock(values.pin);
+            if (result.type === 'wrong') {
+              resetForm();
+              setErrors({
+                pin: `Wrong PIN. ${result.attemptsLeft} ${result.attemptsLeft === 1 ? 'attempt' : 'attempts'} left.`,
+              });
+            } else if (result.type === 'lockedOut') {
+              Alert.alert('Signed Out', 'Too many wrong PINs. Every account has been signed out.');
+            }
+          } catch {
+            Alert.alert('Error', 'The PIN could not be checked. Please try again.');
+          } finally {
+            setIsLoading(false);
+          }
+        }}
+      >
+        {({ handleChange, handleSubmit, values, errors }) => (
+          <>
+            <Input
+              label="PIN"
+              onChangeText={handleChange('pin')}
+              value={values.pin}
+              error={errors.pin}
+              touched={!!errors.pin}
+              keyboardType="number-pad"
+              maxLength={6}
+              secureTextEntry
+              autoFocus
+            />
+            <Button title="Unlock" onPress={() => handleSubmit()} loading={isLoading} />
+          </>
+        )}
+      </Formik>
+      <TouchableOpacity onPress={handleForgotPin}>
+        <Text style={styles.linkText}>Forgot your PIN?</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+  },
+  header: {
+    alignItems: 'center',
+  },
+  hint: {
+    fontSize: 14,
+    color: colors.gray,
+    marginBottom: spacing.md,
+    textAlign: 'center',
+  },
+  linkText: {
+    textAlign: 'center',
+    color: colors.primary,
+    marginTop: 15,
+  },
+});
+
+export default AppLockScreen;
@@ -0,0 +1,101 @@
+/**
+ * @fileoverview Screen for requesting a password reset code
+ *
+ * This screen starts the password reset flow for users who cannot log in:
+ * - Email input, prefilled from the login form when available
+ * - Form validation using Yup and Formik
+ * - Requesting a reset code via the auth service
+ * - Resend throttling shared with the reset password screen
+ * - Navigation to the reset password screen once the code was sent
+ * - Navigation back to the login screen
+ *
+ * Uses global styles and common components for consistent UI.
+ */
+
+import React, { useState } from 'react';
+import { Text, StyleSheet, Alert, TouchableOpacity, ScrollView } from 'react-native';
+import { Formik } from 'formik';
+import { ForgotPasswordSchema } from '../../utils/validation';
+import { getFormErrors } from '../../service/apiError';
+import * as authService from '../../service/authService';
+import { ForgotPasswordScreenProps } from '../../navigation/types';
+import Input from '../../components/common/Input';
+import Button from '../../components/common/Button';
+import { globalStyles, colors, spacing } from '../../styles/globalStyles';
+
+/**
+ * Screen for requesting a password reset code.
+ * @param {ForgotPasswordScreenProps} props - Navigation props.
+ * @returns The forgot password screen component.
+ */
+const ForgotPasswordScreen: React.FC<ForgotPasswordScreenProps> = ({ navigation, route }) => {
+  const [isLoading, setIsLoading] = useState(false);
+
+  return (
+    <ScrollView contentContainerStyle={globalStyles.container} keyboardShouldPersistTaps="handled">
+      <Text style={globalStyles.title}>Forgot Password?</Text>
+      <Text style={styles.hint}>
+        Enter the email of your account and we'll send you a code to choose a new password.
+      </Text>
+      <Formik
+        initialValues={{ email: route.params?.email ?? '' }}
+        validationSchema={ForgotPasswordSchema}
+        onSubmit={async (values, { setErrors }) => {
+          const email = values.email.trim();
+          // A code sent moments ago is still valid, so there is no need to wait for another one
+          if (authService.getPasswordResetCooldown(email) > 0) {
+            navigation.navigate('ResetPassword', { email });
+            return;
+          }
+          setIsLoading(true);
+          try {
+            await authService.requestPasswordReset(email);
+            navigation.navigate('ResetPassword', { email });
+          } catch (error) {
+            const { errors, message } = getFormErrors(error, values);
+            setErrors(errors);
+            if (message) {
+              Alert.alert('Could Not Send Code', message);
+            }
+          } finally {
+            setIsLoading(false);
+          }
+        }}
+      >
+        {({ handleChange, handleBlur, handleSubmit, values, errors, touched }) => (
+          <>
+            <Input
+              label="Email"
+              onChangeText={handleChange('email')}
+              onBlur={handleBlur('email')}
+              value={values.email}
+              error={errors.email}
+              touched={touched.email}
+              keyboardType="email-address"
+              autoCapitalize="none"
+            />
+            <Button title="Send Reset Code" onPress={() => handleSubmit()} loading={isLoading} />
+          </>
+        )}
+      </Formik>
+      <TouchableOpacity onPress={() => navigation.goBack()}>
+        <Text style={styles.linkText}>Back to Login</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  hint: {
+    fontSize: 14,
+    color: colors.gray,
+    marginBottom: spacing.md,
+  },
+  linkText: {
+    textAlign: 'center',
+    color: colors.primary,
+    marginTop: 15,
+  },
+});
+
+export default ForgotPasswordScreen;
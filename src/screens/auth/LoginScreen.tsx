@@ -6,16 +6,23 @@
  * - Form validation using Yup and Formik
  * - Authentication state management via AuthContext
  * - Error handling and user feedback
- * - Navigation to registration screen
+ * - Notice when the user was signed out because their session expired
+ * - Navigation to registration and forgot password screens
+ * - A way back to the signed-in accounts while adding another account
+ * - Hidden developer settings entry (long-press on the title, development builds only)
+ * - Demo mode toggle for using the app without a backend
  * - Loading states during authentication
  * 
  * Uses global styles and common components for consistent UI.
  */
 
 import React, { useState } from 'react';
-import { View, Text, StyleSheet, Alert, TouchableOpacity } from 'react-native';
+import { View, Text, StyleSheet, Alert, TouchableOpacity, Switch } from 'react-native';
 import { Formik } from 'formik';
 import { LoginSchema } from '../../utils/validation';
+import { getFormErrors } from '../../service/apiError';
+import { applyDemoMode, isDemoModeEnabled } from '../../service/api';
+import * as storage from '../../utils/storage';
 import { useAuth } from '../../context/AuthContext';
 import { LoginScreenProps } from '../../navigation/types';
 import Input from '../../components/common/Input';
@@ -28,21 +35,50 @@ import { globalStyles,colors,spacing } from '../../styles/globalStyles';
  * @returns The login screen component.
  */
 const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
-  const { login } = useAuth();
+  const { user, accounts, isAddingAccount, login, sessionExpired, cancelAddAccount } = useAuth();
+  // Other accounts may still be signed in, e.g. when one account's session expired
+  const canReturnToAccounts = isAddingAccount || (!user && accounts.length > 0);
   const [isLoading, setIsLoading] = useState(false);
+  const [isDemoMode, setIsDemoMode] = useState(isDemoModeEnabled());
+
+  /**
+   * Switches between the real backend and the in-app demo backend.
+   * @param {boolean} enabled - Whether demo mode should be on.
+   */
+  const handleDemoModeChange = async (enabled: boolean) => {
+    setIsDemoMode(enabled);
+    applyDemoMode(enabled);
+    await storage.setDemoModeEnabled(enabled);
+  };
 
   return (
     <View style={globalStyles.container}>
-      <Text style={globalStyles.title}>Welcome Back!</Text>
+      {/* In development builds, long-pressing the title opens the hidden developer settings */}
+      <TouchableOpacity
+        activeOpacity={1}
+        onLongPress={__DEV__ ? () => navigation.navigate('DeveloperSettings') : undefined}
+        delayLongPress={1500}
+      >
+        <Text style={globalStyles.title}>Welcome Back!</Text>
+      </TouchableOpacity>
+      {sessionExpired && (
+        <View style={styles.expiredBanner}>
+          <Text style={styles.expiredText}>Your session expired. Please log in again.</Text>
+        </View>
+      )}
       <Formik
         initialValues={{ email: '', password: '' }}
         validationSchema={LoginSchema}
-        onSubmit={async (values) => {
+        onSubmit={async (values, { setErrors }) => {
           setIsLoading(true);
           try {
             await login(values);
-          } catch (error: any) {
-            Alert.alert('Login Failed', error.response?.data?.detail || 'An unexpected error occurred.');
+          } catch (error) {
+            const { errors, message } = getFormErrors(error, values);
+            setErrors(errors);
+            if (message) {
+              Alert.alert('Login Failed', message);
+            }
           } finally {
             setIsLoading(false);
           }
@@ -70,22 +106,76 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
               secureTextEntry
             />
             <Button title="Login" onPress={() => handleSubmit()} loading={isLoading} />
+            <TouchableOpacity
+              onPress={() => navigation.navigate('ForgotPassword', { email: values.email.trim() || undefined })}
+            >
+              <Text style={styles.linkText}>Forgot your password?</Text>
+            </TouchableOpacity>
           </>
         )}
       </Formik>
        <TouchableOpacity onPress={() => navigation.navigate('Register')}>
           <Text style={styles.linkText}>Don't have an account? Sign Up</Text>
       </TouchableOpacity>
+      {canReturnToAccounts && (
+        <TouchableOpacity onPress={() => cancelAddAccount()}>
+          <Text style={styles.linkText}>Back to signed-in accounts</Text>
+        </TouchableOpacity>
+      )}
+      <View style={styles.demoRow}>
+        <View style={styles.demoText}>
+          <Text style={styles.demoLabel}>Demo mode</Text>
+          <Text style={styles.demoHint}>
+            {isDemoMode
+              ? 'Using sample data. Sign in with demo@example.com / demo1234.'
+              : 'Try the app with sample data, no server needed.'}
+          </Text>
+        </View>
+        <Switch
+          value={isDemoMode}
+          onValueChange={handleDemoModeChange}
+          trackColor={{ true: colors.primary, false: colors.gray }}
+        />
+      </View>
     </View>
   );
 };
 
 const styles = StyleSheet.create({
+    expiredBanner: {
+        padding: 10,
+        borderRadius: 8,
+        marginBottom: spacing.md,
+        backgroundColor: colors.white,
+        borderLeftWidth: 4,
+        borderLeftColor: colors.danger,
+    },
+    expiredText: {
+        color: colors.dark,
+    },
     linkText: {
         textAlign: 'center',
         color: colors.primary,
         marginTop: 15,
-    }
+    },
+    demoRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        marginTop: spacing.lg,
+    },
+    demoText: {
+        flex: 1,
+        marginRight: spacing.sm,
+    },
+    demoLabel: {
+        fontSize: 14,
+        fontWeight: 'bold',
+        color: colors.dark,
+    },
+    demoHint: {
+        fontSize: 12,
+        color: colors.gray,
+    },
 })
 
 export default LoginScreen;
\ No newline at end of file
@@ -6,7 +6,7 @@
  * - Form validation using Yup and Formik
  * - Password confirmation validation
  * - Authentication state management via AuthContext
- * - Comprehensive error handling and user feedback
+ * - Inline display of server-side field validation errors
  * - Navigation to login screen
  * - Loading states during registration
  * - Safe area handling and scrollable content
@@ -21,6 +21,7 @@ import React, { useState } from 'react';
 import { View, Text, Alert, TouchableOpacity, StyleSheet, ScrollView, SafeAreaView } from 'react-native';
 import { Formik } from 'formik';
 import { RegisterSchema } from '../../utils/validation';
+import { getFormErrors } from '../../service/apiError';
 import { useAuth } from '../../context/AuthContext';
 import { RegisterScreenProps } from '../../navigation/types';
 import Input from '../../components/common/Input';
@@ -51,40 +52,17 @@ const RegisterScreen: React.FC<RegisterScreenProps> = ({ navigation }) => {
             password_confirm: '',
           }}
           validationSchema={RegisterSchema}
-          onSubmit={async (values) => {
+          onSubmit={async (values, { setErrors }) => {
             setIsLoading(true);
             try {
               await register(values);
-            } catch (error: any) {
-              // --- START: IMPROVED ERROR HANDLING ---
-
-              // 1. Log the entire error object to your terminal/console. THIS IS THE MOST IMPORTANT STEP.
-              console.error("REGISTRATION FAILED:", JSON.stringify(error, null, 2));
-
-              let errorMessage = 'An unexpected error occurred. Please try again.';
-
-              if (error.response) {
-                // The request was made and the server responded with a status code
-                // that falls out of the range of 2xx
-                const responseData = error.response.data;
-                if (typeof responseData === 'object' && responseData !== null) {
-                    // Handle Django's typical {field: [errors]} format
-                    errorMessage = Object.values(responseData).flat().join('\n');
-                } else if (responseData) {
-                    // Handle other error formats (e.g., a simple string)
-                    errorMessage = responseData.detail || responseData;
-                }
-              } else if (error.request) {
-                // The request was made but no response was received
-                // This is a network error.
-                errorMessage = 'Could not connect to the server. Please check your network connection.';
-              } else {
-                // Something happened in setting up the request that triggered an Error
-                errorMessage = error.message;
+            } catch (error) {
+              // Field errors (e.g. a taken username) are shown under the matching input
+              const { errors, message } = getFormErrors(error, values);
+              setErrors(errors);
+              if (message) {
+                Alert.alert('Registration Failed', message);
               }
-
-              Alert.alert('Registration Failed', errorMessage);
-              // --- END: IMPROVED ERROR HANDLING ---
             } finally {
               setIsLoading(false);
             }
@@ -0,0 +1,171 @@
+/**
+ * @fileoverview Screen for setting a new password with an emailed reset code
+ *
+ * This screen completes the password reset flow with:
+ * - Reset code, new password and confirmation inputs
+ * - Form validation using Yup and Formik, with the registration password rules
+ * - Inline display of server-side errors (e.g. an expired code)
+ * - Resending the code, throttled with a visible countdown
+ * - A success state leading back to the login screen
+ *
+ * Uses global styles and common components for consistent UI.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Alert, TouchableOpacity, ScrollView } from 'react-native';
+import { Formik } from 'formik';
+import { ResetPasswordSchema } from '../../utils/validation';
+import { getFormErrors, toApiError } from '../../service/apiError';
+import * as authService from '../../service/authService';
+import { ResetPasswordScreenProps } from '../../navigation/types';
+import Input from '../../components/common/Input';
+import Button from '../../components/common/Button';
+import { globalStyles, colors, spacing } from '../../styles/globalStyles';
+
+/**
+ * Screen for choosing a new password with a reset code.
+ * @param {ResetPasswordScreenProps} props - Navigation props.
+ * @returns The reset password screen component.
+ */
+const ResetPasswordScreen: React.FC<ResetPasswordScreenProps> = ({ navigation, route }) => {
+  const { email } = route.params;
+  const [isLoading, setIsLoading] = useState(false);
+  const [isResending, setIsResending] = useState(false);
+  const [resendCooldown, setResendCooldown] = useState(() => authService.getPasswordResetCooldown(email));
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isReset, setIsReset] = useState(false);
+
+  // Count the resend cooldown down once per second while it runs
+  useEffect(() => {
+    if (resendCooldown <= 0) {
+      return;
+    }
+    const timer = setTimeout(() => setResendCooldown(authService.getPasswordResetCooldown(email)), 1000);
+    return () => clearTimeout(timer);
+  }, [email, resendCooldown]);
+
+  /**
+   * Requests a new code, unless the previous one was requested too recently.
+   */
+  const handleResend = async () => {
+    setIsResending(true);
+    setNotice(null);
+    try {
+      await authService.requestPasswordReset(email);
+      setNotice('A new code has been sent.');
+    } catch (error) {
+      Alert.alert('Could Not Send Code', toApiError(error).message);
+    } finally {
+      setIsResending(false);
+      setResendCooldown(authService.getPasswordResetCooldown(email));
+    }
+  };
+
+  if (isReset) {
+    return (
+      <View style={globalStyles.container}>
+        <Text style={globalStyles.title}>Password Changed</Text>
+        <Text style={styles.hint}>
+          Your password has been reset. You can now log in with your new password.
+        </Text>
+        <Button title="Back to Login" onPress={() => navigation.popTo('Login')} />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView contentContainerStyle={globalStyles.container} keyboardShouldPersistTaps="handled">
+      <Text style={globalStyles.title}>Reset Password</Text>
+      <Text style={styles.hint}>
+        If an account exists for {email}, we sent it a 6-digit code. Enter it below with your new password.
+      </Text>
+      {notice && <Text style={styles.notice}>{notice}</Text>}
+      <Formik
+        initialValues={{ code: '', password: '', password_confirm: '' }}
+        validationSchema={ResetPasswordSchema}
+        onSubmit={async (values, { setErrors }) => {
+          setIsLoading(true);
+          try {
+            await authService.confirmPasswordReset(email, values);
+            setIsReset(true);
+          } catch (error) {
+            const { errors, message } = getFormErrors(error, values);
+            setErrors(errors);
+            if (message) {
+              Alert.alert('Reset Failed', message);
+            }
+          } finally {
+            setIsLoading(false);
+          }
+        }}
+      >
+        {({ handleChange, handleBlur, handleSubmit, values, errors, touched }) => (
+          <>
+            <Input
+              label="Reset Code"
+              onChangeText={handleChange('code')}
+              onBlur={handleBlur('code')}
+              value={values.code}
+              error={errors.code}
+              touched={touched.code}
+              keyboardType="number-pad"
+              maxLength={6}
+              textContentType="oneTimeCode"
+            />
+            <Input
+              label="New Password"
+              onChangeText={handleChange('password')}
+              onBlur={handleBlur('password')}
+              value={values.password}
+              error={errors.password}
+              touched={touched.password}
+              secureTextEntry
+            />
+            <Input
+              label="Confirm New Password"
+              onChangeText={handleChange('password_confirm')}
+              onBlur={handleBlur('password_confirm')}
+              value={values.password_confirm}
+              error={errors.password_confirm}
+              touched={touched.password_confirm}
+              secureTextEntry
+            />
+            <Button title="Reset Password" onPress={() => handleSubmit()} loading={isLoading} />
+          </>
+        )}
+      </Formik>
+      <TouchableOpacity onPress={handleResend} disabled={resendCooldown > 0 || isResending}>
+        <Text style={[styles.linkText, (resendCooldown > 0 || isResending) && styles.linkDisabled]}>
+          {resendCooldown > 0 ? `Resend code in ${resendCooldown}s` : isResending ? 'Sending…' : 'Resend code'}
+        </Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  hint: {
+    fontSize: 14,
+    color: colors.gray,
+    marginBottom: spacing.md,
+  },
+  notice: {
+    padding: 10,
+    borderRadius: 8,
+    marginBottom: spacing.md,
+    backgroundColor: colors.white,
+    borderLeftWidth: 4,
+    borderLeftColor: colors.secondary,
+    color: colors.dark,
+  },
+  linkText: {
+    textAlign: 'center',
+    color: colors.primary,
+    marginTop: 15,
+  },
+  linkDisabled: {
+    color: colors.gray,
+  },
+});
+
+export default ResetPasswordScreen;
@@ -7,10 +7,11 @@
  * - Release date and poster URL input
  * - Form validation using Yup and Formik
  * - Genre selection modal with available genre filtering
- * - Error handling and user feedback
+ * - Inline display of server-side field validation errors
  * - Navigation back to movie list on success
+ * - Verification notice instead of the form for users with an unverified email
  * 
- * Integrates with movieService for API calls and uses global genres data
+ * Integrates with MovieContext for API calls and uses global genres data
  * for consistent genre management throughout the app.
  */
 
@@ -19,14 +20,18 @@ import {
   View, ScrollView, Alert, Text, StyleSheet, TouchableOpacity, FlatList,
 } from 'react-native';
 import { Formik } from 'formik';
-import * as Yup from 'yup';
 import Modal from 'react-native-modal';
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
 import { AddMovieScreenProps } from '../../navigation/types';
 import Input from '../../components/common/Input';
 import Button from '../../components/common/Button';
-import * as movieService from '../../service/movieService';
-import { ALL_GENRES } from '../../data/genres';
+import { useMovieContext } from '../../context/MovieContext';
+import { useAuth } from '../../context/AuthContext';
+import VerifyEmailBanner from '../../components/common/VerifyEmailBanner';
+import { getFormErrors } from '../../service/apiError';
+import { useGenres } from '../../context/GenreContext';
+import { MovieSchema } from '../../utils/validation';
+import { emptyMovieFormValues, formValuesToMovieInput } from '../../utils/movieMapper';
 import { globalStyles,colors,spacing } from '../../styles/globalStyles';
 
 /**
@@ -44,50 +49,40 @@ import { globalStyles,colors,spacing } from '../../styles/globalStyles';
  * @returns {JSX.Element} Rendered add movie screen
  */
 const AddMovieScreen: React.FC<AddMovieScreenProps> = ({ navigation }) => {
+  const { createMovie } = useMovieContext();
+  const { isEmailVerified } = useAuth();
+  const { genres, getGenre } = useGenres();
   const [isLoading, setIsLoading] = useState(false);
   const [isModalVisible, setModalVisible] = useState(false);
 
+  // The backend refuses movies from unverified users, so don't let them fill in the form
+  if (!isEmailVerified) {
+    return (
+      <View style={globalStyles.container}>
+        <VerifyEmailBanner message="Verify your email address before adding movies." />
+      </View>
+    );
+  }
+
   return (
     <ScrollView contentContainerStyle={styles.scrollContainer}>
       <View style={globalStyles.container}>
         <Formik
-          initialValues={{
-            title: '',
-            description: '',
-            genres: [] as number[],
-            release_date: '',
-            duration: '',
-            director: '',
-            cast: '',
-            poster_url: '', // New field for the image URL
-          }}
+          initialValues={emptyMovieFormValues}
           validateOnMount={false}
-          validationSchema={Yup.object().shape({
-            title: Yup.string().required('Title is required'),
-            description: Yup.string().required('Description is required'),
-            genres: Yup.array().of(Yup.number()).min(1, 'At least one genre is required').required('Genre is required'),
-            release_date: Yup.date().required('Release date is required'),
-            duration: Yup.number().positive('Duration must be a positive number').required('Duration is required'),
-            director: Yup.string().required('Director is required'),
-            cast: Yup.string().required('Cast is required'),
-            poster_url: Yup.string().url('Please enter a valid URL').required('Poster URL is required'),
-          })}
-          onSubmit={async (values) => {
+          validationSchema={MovieSchema}
+          onSubmit={async (values, { setErrors }) => {
             setIsLoading(true);
             try {
-              // Send the 'values' object directly as JSON
-              await movieService.createMovie(values);
+              await createMovie(formValuesToMovieInput(values));
               Alert.alert('Success', 'Movie added successfully!', [{ text: 'OK', onPress: () => navigation.goBack() }]);
-            } catch (error: any) {
-              // Prettier error display
-              const errorData = error.response?.data;
-              let errorMessage = 'Could not add the movie. An unknown error occurred.';
-              if (errorData) {
-                errorMessage = Object.entries(errorData)
-                  .map(([key, value]) => `${key}: ${(value as string[]).join(', ')}`)
-                  .join('\n');
+            } catch (error) {
+              // Show field errors inline, anything else in an alert
+              const { errors, message } = getFormErrors(error, values);
+              setErrors(errors);
+              if (message) {
+                Alert.alert('Error', message);
               }
-              Alert.alert('Error', errorMessage);
             } finally {
               setIsLoading(false);
             }
@@ -95,7 +90,7 @@ const AddMovieScreen: React.FC<AddMovieScreenProps> = ({ navigation }) => {
         >
           {({ handleChange, handleBlur, handleSubmit, values, errors, touched, setFieldValue }) => {
 
-            const availableGenres = ALL_GENRES.filter(
+            const availableGenres = genres.filter(
               (g) => !values.genres.includes(g.id)
             );
 
@@ -122,7 +117,7 @@ const AddMovieScreen: React.FC<AddMovieScreenProps> = ({ navigation }) => {
                   <Text style={styles.label}>Genres</Text>
                   <View style={styles.genrePillsContainer}>
                     {values.genres.map((genreId) => {
-                       const genre = ALL_GENRES.find((g) => g.id === genreId);
+                       const genre = getGenre(genreId);
                        if (!genre) return null;
                        return (
                         <View key={genreId} style={styles.genrePill}>
@@ -8,14 +8,16 @@
  * - Release date and poster URL editing
  * - Form validation using Yup and Formik
  * - Genre selection modal with available genre filtering
- * - Error handling and user feedback
+ * - Inline display of server-side field validation errors
+ * - Sending only changed fields (PATCH), with a "no changes" state when nothing was edited
+ * - Conflict detection via `If-Match` and a field-by-field merge view
  * - Navigation back to movie details on success
  * 
  * Integrates with movieService for data fetching and MovieContext for updates.
  * Uses global genres data for consistent genre management throughout the app.
  */
 
-import React, { useState, useEffect, useLayoutEffect } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useRef } from 'react';
 import {
   View,
   ScrollView,
@@ -25,8 +27,7 @@ import {
   TouchableOpacity,
   FlatList,
 } from 'react-native';
-import { Formik } from 'formik';
-import * as Yup from 'yup';
+import { Formik, FormikProps } from 'formik';
 import Modal from 'react-native-modal';
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
@@ -36,11 +37,38 @@ import Button from '../../components/common/Button';
 import Loading from '../../components/common/Loading';
 import { useMovieContext } from '../../context/MovieContext';
 import * as movieService from '../../service/movieService';
-import { ALL_GENRES } from '../../data/genres';
+import { getFormErrors, isCanceledError, toApiError } from '../../service/apiError';
+import { useGenres } from '../../context/GenreContext';
+import { Movie } from '../../types';
+import { MovieFormValues, MovieSchema } from '../../utils/validation';
+import {
+  getMovieChanges,
+  getMovieConflicts,
+  hasMovieChanges,
+  mergeMovieEdits,
+  movieToFormValues,
+} from '../../utils/movieMapper';
+import MovieConflictModal from '../../components/modals/MovieConflictModal';
 import { globalStyles,colors,spacing } from '../../styles/globalStyles';
 
 type EditMovieScreenProps = NativeStackScreenProps<MovieStackParamList, 'EditMovie'>;
 
+/**
+ * A save rejected because the movie changed on the server
+ *
+ * @interface MovieConflict
+ * @property {Movie} base - Movie the edit was based on
+ * @property {Movie} latest - Latest movie from the server
+ * @property {MovieFormValues} values - The user's form values
+ * @property {(keyof MovieFormValues)[]} fields - Fields both sides changed differently
+ */
+interface MovieConflict {
+  base: Movie;
+  latest: Movie;
+  values: MovieFormValues;
+  fields: (keyof MovieFormValues)[];
+}
+
 /**
  * Movie editing screen component
  * 
@@ -59,22 +87,31 @@ type EditMovieScreenProps = NativeStackScreenProps<MovieStackParamList, 'EditMov
 const EditMovieScreen: React.FC<EditMovieScreenProps> = ({ route, navigation }) => {
   const { movieId } = route.params;
   const { updateMovie } = useMovieContext();
-  const [movieForEdit, setMovieForEdit] = useState<any>(null);
+  const { genres, getGenre } = useGenres();
+  const [movieForEdit, setMovieForEdit] = useState<Movie | null>(null);
+  const [initialFormValues, setInitialFormValues] = useState<MovieFormValues | null>(null);
+  const [conflict, setConflict] = useState<MovieConflict | null>(null);
+  const formikRef = useRef<FormikProps<MovieFormValues>>(null);
 
   const [isLoading, setIsLoading] = useState(false);
   const [isModalVisible, setModalVisible] = useState(false);
 
   useEffect(() => {
+    const controller = new AbortController();
     const loadMovieData = async () => {
       try {
-        const movieData = await movieService.getMovieById(movieId);
+        const movieData = await movieService.getMovieById(movieId, { signal: controller.signal });
         setMovieForEdit(movieData);
+        setInitialFormValues(movieToFormValues(movieData));
       } catch (error) {
+        // The screen was left before the movie loaded
+        if (isCanceledError(error)) return;
         Alert.alert("Error", "Could not fetch movie details for editing.");
         navigation.goBack();
       }
     };
     loadMovieData();
+    return () => controller.abort();
   }, [movieId]);
 
   useLayoutEffect(() => {
@@ -83,7 +120,114 @@ const EditMovieScreen: React.FC<EditMovieScreenProps> = ({ route, navigation })
     }
   }, [navigation, movieForEdit]);
 
-  if (!movieForEdit) {
+  /**
+   * Makes the latest server version the base of the edit, keeping the given values in the form
+   *
+   * @param {Movie} latest - Latest movie from the server
+   * @param {MovieFormValues} values - Form values to continue with
+   */
+  const rebaseEdit = (latest: Movie, values: MovieFormValues) => {
+    setMovieForEdit(latest);
+    setInitialFormValues(values);
+  };
+
+  /**
+   * Saves the fields changed relative to the base movie, conditional on its version
+   *
+   * When the movie changed on the server in the meantime, the latest version is
+   * fetched: edits to different fields are merged and saved automatically,
+   * overlapping edits open the conflict modal.
+   *
+   * @param {Movie} base - Movie the edit is based on
+   * @param {MovieFormValues} values - Form values to save
+   * @returns {Promise<void>} Resolves when the save finished or needs the user's input
+   */
+  const saveChanges = async (base: Movie, values: MovieFormValues): Promise<void> => {
+    const changes = getMovieChanges(base, values);
+    // Nothing to save, e.g. when the server version already has every edit
+    if (!hasMovieChanges(changes)) {
+      Alert.alert('Up to Date', 'The movie already has these details.', [
+        { text: 'OK', onPress: () => navigation.goBack() },
+      ]);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      const result = await updateMovie(movieId, changes, base.updated_at);
+      const successMessage = result === 'queued'
+        ? "You're offline. Your changes will be saved once you're back online."
+        : 'Movie updated successfully!';
+      Alert.alert('Success', successMessage, [
+        { text: 'OK', onPress: () => navigation.goBack() },
+      ]);
+    } catch (error) {
+      if (toApiError(error).kind === 'conflict') {
+        await handleConflict(base, values);
+        return;
+      }
+      // Show field errors inline, anything else in an alert
+      const { errors, message } = getFormErrors(error, values);
+      formikRef.current?.setErrors(errors);
+      if (message) {
+        Alert.alert('Error', message);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Compares the edit with the latest server version after a conflict
+   *
+   * @param {Movie} base - Movie the edit was based on
+   * @param {MovieFormValues} values - The user's form values
+   * @returns {Promise<void>} Resolves once the merge was saved or handed to the user
+   */
+  const handleConflict = async (base: Movie, values: MovieFormValues) => {
+    let latest: Movie;
+    try {
+      latest = await movieService.getMovieById(movieId);
+    } catch (error) {
+      Alert.alert('Error', toApiError(error).message);
+      return;
+    }
+    const fields = getMovieConflicts(base, latest, values);
+    if (fields.length === 0) {
+      const merged = mergeMovieEdits(base, latest, values);
+      rebaseEdit(latest, merged);
+      await saveChanges(latest, merged);
+      return;
+    }
+    setConflict({ base, latest, values, fields });
+  };
+
+  /**
+   * Saves the merge after the user resolved every conflicting field
+   *
+   * @param {(keyof MovieFormValues)[]} keepServerFields - Fields resolved in favour of the server
+   */
+  const handleResolveConflict = async (keepServerFields: (keyof MovieFormValues)[]) => {
+    if (!conflict) {
+      return;
+    }
+    const { base, latest, values } = conflict;
+    const merged = mergeMovieEdits(base, latest, values, keepServerFields);
+    setConflict(null);
+    rebaseEdit(latest, merged);
+    await saveChanges(latest, merged);
+  };
+
+  /**
+   * Closes the conflict modal and lets the user keep editing on top of the latest version
+   */
+  const handleCancelConflict = () => {
+    if (conflict) {
+      rebaseEdit(conflict.latest, mergeMovieEdits(conflict.base, conflict.latest, conflict.values));
+    }
+    setConflict(null);
+  };
+
+  if (!movieForEdit || !initialFormValues) {
     return <Loading />;
   }
 
@@ -91,47 +235,18 @@ const EditMovieScreen: React.FC<EditMovieScreenProps> = ({ route, navigation })
     <ScrollView contentContainerStyle={styles.scrollContainer}>
       <View style={globalStyles.container}>
         <Formik
-          initialValues={{
-            title: movieForEdit.title || '',
-            description: movieForEdit.description || '',
-            genres: movieForEdit.genres.map((g: any) => g.id) || [],
-            release_date: movieForEdit.release_date || '',
-            duration: String(movieForEdit.duration) || '',
-            director: movieForEdit.director || '',
-            cast: movieForEdit.cast || '',
-            poster_url: movieForEdit.poster || '',
-          }}
+          innerRef={formikRef}
+          initialValues={initialFormValues}
           enableReinitialize
-          validationSchema={Yup.object().shape({
-            title: Yup.string().required('Title is required'),
-            description: Yup.string().required('Description is required'),
-            genres: Yup.array().of(Yup.number()).min(1, 'At least one genre is required').required('Genre is required'),
-            release_date: Yup.date().required('Release date is required'),
-            duration: Yup.number().positive('Duration must be positive').required('Duration is required'),
-            director: Yup.string().required('Director is required'),
-            cast: Yup.string().required('Cast is required'),
-            poster_url: Yup.string().url('Please enter a valid URL').required('Poster URL is required'),
-          })}
-          onSubmit={async (values) => {
-            setIsLoading(true);
-            try {
-              await updateMovie(movieId, values);
-              Alert.alert('Success', 'Movie updated successfully!', [
-                { text: 'OK', onPress: () => navigation.goBack() },
-              ]);
-            } catch (error: any) {
-              const errorMessage = error.response?.data ? JSON.stringify(error.response.data) : 'Could not update the movie.';
-              Alert.alert('Error', errorMessage);
-            } finally {
-              setIsLoading(false);
-            }
-          }}
+          validationSchema={MovieSchema}
+          onSubmit={values => saveChanges(movieForEdit, values)}
         >
           {({ handleChange, handleBlur, handleSubmit, values, errors, touched, setFieldValue }) => {
 
-            const availableGenres = ALL_GENRES.filter(
+            const availableGenres = genres.filter(
               (g) => !values.genres.includes(g.id)
             );
+            const hasChanges = hasMovieChanges(getMovieChanges(movieForEdit, values));
 
             return (
               <>
@@ -146,17 +261,16 @@ const EditMovieScreen: React.FC<EditMovieScreenProps> = ({ route, navigation })
                 <View style={styles.genreContainer}>
                   <Text style={styles.label}>Genres</Text>
                   <View style={styles.genrePillsContainer}>
-                    {/* --- FIX for Error 1: Explicitly type genreId --- */}
-                    {values.genres.map((genreId: number) => {
-                       const genre = ALL_GENRES.find((g) => g.id === genreId);
+                    {values.genres.map((genreId) => {
+                       // The movie may still have a genre the backend no longer lists
+                       const genre = getGenre(genreId) ?? movieForEdit?.genres.find((g) => g.id === genreId);
                        if (!genre) return null;
                        return (
                         <View key={genreId} style={styles.genrePill}>
                           <Text style={styles.genrePillText}>{genre.label}</Text>
                           <TouchableOpacity
                             onPress={() => {
-                              // --- FIX for Error 2: Explicitly type id ---
-                              const newGenres = values.genres.filter((id: number) => id !== genreId);
+                              const newGenres = values.genres.filter((id) => id !== genreId);
                               setFieldValue('genres', newGenres);
                             }}
                           >
@@ -173,7 +287,15 @@ const EditMovieScreen: React.FC<EditMovieScreenProps> = ({ route, navigation })
                   {touched.genres && errors.genres && <Text style={styles.errorText}>{errors.genres as string}</Text>}
                 </View>
 
-                <Button title="Update Movie" onPress={() => handleSubmit()} loading={isLoading} />
+                {!hasChanges && (
+                  <Text style={styles.noChangesText}>No changes to save</Text>
+                )}
+                <Button
+                  title="Update Movie"
+                  onPress={() => handleSubmit()}
+                  loading={isLoading}
+                  disabled={!hasChanges}
+                />
 
                 <Modal isVisible={isModalVisible} onBackdropPress={() => setModalVisible(false)} style={styles.modal}>
                   <View style={styles.modalContent}>
@@ -197,6 +319,17 @@ const EditMovieScreen: React.FC<EditMovieScreenProps> = ({ route, navigation })
           }}
         </Formik>
       </View>
+      {conflict && (
+        <MovieConflictModal
+          isVisible
+          fields={conflict.fields}
+          mine={conflict.values}
+          theirs={movieToFormValues(conflict.latest)}
+          onResolve={handleResolveConflict}
+          onCancel={handleCancelConflict}
+          isLoading={isLoading}
+        />
+      )}
     </ScrollView>
   );
 };
@@ -209,6 +342,7 @@ const styles = StyleSheet.create({
   genrePill: { flexDirection: 'row', alignItems: 'center', backgroundColor: colors.primary, borderRadius: 15, paddingVertical: 5, paddingHorizontal: 10, margin: 4 },
   genrePillText: { color: colors.white, marginRight: 5 },
   errorText: { marginTop: 5, color: colors.danger, fontSize: 12 },
+  noChangesText: { textAlign: 'center', color: colors.gray, marginTop: spacing.sm },
   modal: { margin: 0, justifyContent: 'center', alignItems: 'center' },
   modalContent: { backgroundColor: 'white', padding: 22, borderRadius: 4, width: '90%', maxHeight: '70%' },
   modalTitle: { fontSize: 20, fontWeight: 'bold', marginBottom: 12 },
@@ -3,11 +3,12 @@
  * 
  * This screen displays comprehensive movie details and provides:
  * - Full movie information (poster, title, description, cast, director)
- * - User review submission and editing capabilities
+ * - User review submission and editing capabilities (verified users only)
  * - Review display for all users with owner-specific actions
  * - Movie editing and deletion for movie owners
  * - Dynamic header buttons based on user permissions
  * - Rating modal integration for review management
+ * - "Pending sync" indicators for changes queued while offline
  * 
  * Integrates with MovieContext for data management and AuthContext
  * for user permission checking and review ownership.
@@ -27,9 +28,11 @@ import { useMovieContext } from '../../context/MovieContext';
 import { useAuth } from '../../context/AuthContext';
 import { MovieDetailsScreenProps } from '../../navigation/types';
 import { Review } from '../../types';
+import { toApiError } from '../../service/apiError';
 import Loading from '../../components/common/Loading';
 import Button from '../../components/common/Button';
 import RatingModal from '../../components/modals/RatingModal';
+import VerifyEmailBanner from '../../components/common/VerifyEmailBanner';
 import { globalStyles,colors,spacing } from '../../styles/globalStyles';
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
 
@@ -49,15 +52,16 @@ import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
  */
 const MovieDetailsScreen: React.FC<MovieDetailsScreenProps> = ({ route, navigation }) => {
   const { movieId } = route.params;
-  const { user } = useAuth();
+  const { user, isEmailVerified } = useAuth();
   const {
     movie,
-    isLoading,
+    detailError,
     fetchMovieById,
     addReview,
     deleteMovie,
     deleteReview,
-    updateReview
+    updateReview,
+    pendingMutations,
   } = useMovieContext();
 
   const [isModalVisible, setModalVisible] = useState(false);
@@ -65,9 +69,28 @@ const MovieDetailsScreen: React.FC<MovieDetailsScreenProps> = ({ route, navigati
 
   const userReview = movie?.user_review;
 
+  // Changes to this movie that are waiting for connectivity
+  const pendingForMovie = pendingMutations.filter(entry => entry.movieId === movieId);
+  // The latest queued add, update or delete decides what the user's review will look like
+  const lastReviewMutation = pendingForMovie
+    .flatMap(entry =>
+      entry.type === 'addReview' || entry.type === 'updateReview' || entry.type === 'deleteReview' ? [entry] : [],
+    )
+    .pop();
+  const pendingReview = lastReviewMutation?.type === 'deleteReview' ? undefined : lastReviewMutation;
+  const isReviewDeletionPending = lastReviewMutation?.type === 'deleteReview';
+  // The user's review once the queued changes are applied
+  const currentReview = pendingReview ? pendingReview.data : isReviewDeletionPending ? null : userReview;
+  const pendingReviewDeletions = pendingForMovie.flatMap(entry =>
+    entry.type === 'deleteReview' ? [entry.reviewId] : [],
+  );
+
   // Fetch movie data when the screen loads or movieId changes
+  // Load the movie, aborting the request if the screen is left before it finishes
   useEffect(() => {
-    fetchMovieById(movieId);
+    const controller = new AbortController();
+    fetchMovieById(movieId, { signal: controller.signal });
+    return () => controller.abort();
   }, [movieId]);
 
   // Handler for deleting the entire movie
@@ -79,8 +102,13 @@ const MovieDetailsScreen: React.FC<MovieDetailsScreenProps> = ({ route, navigati
         { text: 'Cancel', style: 'cancel' },
         { text: 'OK', onPress: async () => {
             try {
-              await deleteMovie(movieId);
-              Alert.alert('Success', 'The movie has been deleted.');
+              const result = await deleteMovie(movieId);
+              Alert.alert(
+                'Success',
+                result === 'queued'
+                  ? "You're offline. The movie will be deleted once you're back online."
+                  : 'The movie has been deleted.',
+              );
               navigation.goBack(); // Navigate back to the movie list
             } catch (error) {
               Alert.alert('Error', 'Could not delete the movie.');
@@ -122,18 +150,19 @@ const MovieDetailsScreen: React.FC<MovieDetailsScreenProps> = ({ route, navigati
   const handleReviewSubmit = async (values: { rating: number; comment: string }) => {
     setIsSubmitting(true);
     try {
-      if (userReview) {
-        await updateReview(userReview.id, values, movieId);
-        Alert.alert('Success', 'Your review has been updated!');
+      // A review whose deletion is queued is gone by the time this change is sent
+      const existingReview = isReviewDeletionPending ? null : userReview;
+      const result = existingReview
+        ? await updateReview(existingReview.id, values, movieId)
+        : await addReview(movieId, values);
+      if (result === 'queued') {
+        Alert.alert('Saved Offline', "You're offline. Your review will be submitted once you're back online.");
       } else {
-        await addReview(movieId, values);
-        Alert.alert('Success', 'Your review has been submitted!');
+        Alert.alert('Success', existingReview ? 'Your review has been updated!' : 'Your review has been submitted!');
       }
       setModalVisible(false);
-    } catch (err: any) {
-      const responseData = err.response?.data;
-      const errorMessage = responseData ? Object.values(responseData).flat().join('\n') : 'An error occurred.';
-      Alert.alert('Error', errorMessage);
+    } catch (err) {
+      Alert.alert('Error', toApiError(err).message);
     } finally {
       setIsSubmitting(false);
     }
@@ -144,8 +173,13 @@ const MovieDetailsScreen: React.FC<MovieDetailsScreenProps> = ({ route, navigati
       { text: 'Cancel', style: 'cancel' },
       { text: 'OK', onPress: async () => {
         try {
-          await deleteReview(review.id, movieId);
-          Alert.alert('Success', 'Your review has been deleted.');
+          const result = await deleteReview(review.id, movieId);
+          Alert.alert(
+            'Success',
+            result === 'queued'
+              ? "You're offline. Your review will be deleted once you're back online."
+              : 'Your review has been deleted.',
+          );
         } catch (error) {
           Alert.alert('Error', 'Could not delete the review.');
         }
@@ -153,8 +187,17 @@ const MovieDetailsScreen: React.FC<MovieDetailsScreenProps> = ({ route, navigati
     ]);
   };
 
-  // Show a loading indicator while the movie data is being fetched
-  if (isLoading || !movie) {
+  if (!movie || movie.id !== movieId) {
+    // Nothing to show if the fetch failed and the movie is not cached
+    if (detailError) {
+      return (
+        <View style={styles.center}>
+          <Text style={styles.errorText}>Error: {detailError}</Text>
+          <Button title="Retry" onPress={() => fetchMovieById(movieId)} />
+        </View>
+      );
+    }
+    // Show a loading indicator until this movie (cached or fetched) is available
     return <Loading />;
   }
 
@@ -169,6 +212,17 @@ const MovieDetailsScreen: React.FC<MovieDetailsScreenProps> = ({ route, navigati
           </Text>
           <Text style={styles.description}>{movie.description}</Text>
 
+          {pendingForMovie.length > 0 && (
+            <View style={styles.pendingBanner}>
+              <Icon name="cloud-upload-outline" size={20} color={colors.primary} />
+              <Text style={styles.pendingText}>
+                {pendingForMovie.length === 1
+                  ? '1 change pending sync'
+                  : `${pendingForMovie.length} changes pending sync`}
+              </Text>
+            </View>
+          )}
+
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Director</Text>
             <Text>{movie.director}</Text>
@@ -180,11 +234,22 @@ const MovieDetailsScreen: React.FC<MovieDetailsScreenProps> = ({ route, navigati
           </View>
 
           <View style={styles.actionButtonContainer}>
-            {userReview ? (
+            {pendingReview && (
+              <View style={styles.reviewCard}>
+                <View style={styles.reviewHeader}>
+                  <Text style={styles.reviewRating}>Your rating: {pendingReview.data.rating}/5</Text>
+                  <Text style={styles.pendingTag}>Pending sync</Text>
+                </View>
+                <Text>{pendingReview.data.comment}</Text>
+              </View>
+            )}
+            {currentReview ? (
               <Button
                 title="Edit Your Review"
                 onPress={() => setModalVisible(true)}
               />
+            ) : !isEmailVerified ? (
+              <VerifyEmailBanner message="Verify your email address to rate this movie." />
             ) : (
               <Button
                 title="Rate this Movie"
@@ -198,11 +263,14 @@ const MovieDetailsScreen: React.FC<MovieDetailsScreenProps> = ({ route, navigati
             {movie.reviews && movie.reviews.length > 0 ? (
               movie.reviews.map(review => {
                 const isReviewOwner = user && user.id === review.user;
+                const isDeletionPending = pendingReviewDeletions.includes(review.id);
                 return (
                   <View key={review.id} style={styles.reviewCard}>
                     <View style={styles.reviewHeader}>
                       <Text style={styles.reviewRating}>Rating: {review.rating}/5</Text>
-                      {isReviewOwner && (
+                      {isDeletionPending ? (
+                        <Text style={styles.pendingTag}>Deletion pending sync</Text>
+                      ) : isReviewOwner && (
                         <TouchableOpacity onPress={() => handleDeleteReview(review)}>
                           <Icon name="delete" size={22} color={colors.danger} />
                         </TouchableOpacity>
@@ -225,7 +293,7 @@ const MovieDetailsScreen: React.FC<MovieDetailsScreenProps> = ({ route, navigati
         onClose={() => setModalVisible(false)}
         onSubmit={handleReviewSubmit}
         isLoading={isSubmitting}
-        initialValues={userReview ? { rating: userReview.rating, comment: userReview.comment || '' } : undefined}
+        initialValues={currentReview ? { rating: currentReview.rating, comment: currentReview.comment || '' } : undefined}
       />
     </>
   );
@@ -236,6 +304,17 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: colors.white,
   },
+  center: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: spacing.lg,
+    backgroundColor: colors.white,
+  },
+  errorText: {
+    textAlign: 'center',
+    color: colors.dark,
+    marginBottom: spacing.md,
+  },
   poster: {
     width: '100%',
     height: 300,
@@ -302,6 +381,23 @@ const styles = StyleSheet.create({
   headerButtons: {
     flexDirection: 'row',
   },
+  pendingBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 16,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: colors.background,
+  },
+  pendingText: {
+    marginLeft: 8,
+    color: colors.primary,
+  },
+  pendingTag: {
+    fontSize: 12,
+    fontStyle: 'italic',
+    color: colors.primary,
+  },
   headerButton: {
     marginHorizontal: 12,
   },
@@ -4,31 +4,53 @@
  * This screen displays a paginated list of all movies with:
  * - Movie cards showing poster, title, genres, and release date
  * - Infinite scroll for loading additional movies
+ * - Header search bar with debounced search across title, director and cast
+ * - Genre filter chips matching all (AND) or any (OR) of the selected genres
+ * - Header title reflecting the active genre filter
+ * - Sort menu (rating, release date, title, duration, recently added)
+ * - Advanced filter sheet (release year, duration, minimum rating, director)
+ *   with the applied filters shown as removable pills
+ * - Highlighted search matches and a distinct "no matches" state
  * - Loading states for initial load and pagination
  * - Error handling with retry functionality
  * - Navigation to movie details and add movie screens
- * - Header button for adding new movies
+ * - Header button for adding new movies (verified users only)
+ * - Email verification banner for unverified users
+ * - Reporting of offline changes the backend refused during sync
  * 
  * Uses MovieContext for state management and MovieCard components
  * for consistent movie display throughout the app.
  */
 
-import React, { useCallback, useLayoutEffect } from 'react';
+import React, { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
 import {
   View,
   FlatList,
   StyleSheet,
   Text,
   ActivityIndicator,
+  Alert,
+  TouchableOpacity,
   Button as RNButton,
 } from 'react-native';
-import { useFocusEffect } from '@react-navigation/native';
+import { NavigationProp, useFocusEffect } from '@react-navigation/native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
 import { useMovieContext } from '../../context/MovieContext';
-import { MovieListScreenProps } from '../../navigation/types';
+import { useAuth } from '../../context/AuthContext';
+import { useGenres } from '../../context/GenreContext';
+import { describeMutation } from '../../service/outbox';
+import { AppDrawerParamList, MovieListScreenProps } from '../../navigation/types';
 import MovieCard from '../../components/cards/MovieCard';
 import Loading from '../../components/common/Loading';
+import VerifyEmailBanner from '../../components/common/VerifyEmailBanner';
+import GenreFilterBar, { describeGenreFilter } from '../../components/common/GenreFilterBar';
+import SortModal, { describeOrdering } from '../../components/modals/SortModal';
+import MovieFilterModal, { getFilterPills } from '../../components/modals/MovieFilterModal';
+import FilterPills from '../../components/common/FilterPills';
 import { globalStyles,colors,spacing } from '../../styles/globalStyles';
 
+/** How long typing has to pause before the search is sent (ms) */
+const SEARCH_DEBOUNCE = 400;
 
 /**
  * Footer component for the movie list showing loading indicator during pagination
@@ -51,6 +73,39 @@ const ListFooterComponent: React.FC<{ isFetchingMore: boolean }> = ({ isFetching
   );
 };
 
+/**
+ * Shown instead of the list when there are no movies to display
+ * 
+ * @param {Object} props - Component properties
+ * @param {string} [props.search] - Search query that found nothing, if any
+ * @param {boolean} props.isFiltered - Whether genre or advanced filters are active
+ * @returns {JSX.Element} Empty state message
+ */
+const ListEmptyComponent: React.FC<{ search?: string; isFiltered: boolean }> = ({
+  search,
+  isFiltered,
+}) => {
+  let title = 'No movies yet';
+  let hint = 'Movies you and others add will appear here.';
+  if (search) {
+    title = `No movies match "${search}"`;
+    hint = isFiltered
+      ? 'Try other words, or remove some filters.'
+      : 'Try another title, director or cast member.';
+  } else if (isFiltered) {
+    title = 'No movies match these filters';
+    hint = 'Remove some filters, or match any genre instead of all of them.';
+  }
+
+  return (
+    <View style={styles.empty}>
+      <Icon name={search || isFiltered ? 'movie-search-outline' : 'movie-open-outline'} size={48} color={colors.gray} />
+      <Text style={styles.emptyTitle}>{title}</Text>
+      <Text style={styles.emptyHint}>{hint}</Text>
+    </View>
+  );
+};
+
 /**
  * The main screen that displays a list of all movies with infinite scroll functionality.
  */
@@ -61,58 +116,192 @@ const MovieListScreen: React.FC<MovieListScreenProps> = ({ navigation }) => {
     error,
     fetchMovies,     
     isFetchingMore,  
-    fetchMoreMovies  
+    fetchMoreMovies,
+    syncFailures,
+    clearSyncFailures,
+    query,
+    updateQuery,
   } = useMovieContext();
+  const { isEmailVerified } = useAuth();
+  const { genres } = useGenres();
+  const [searchText, setSearchText] = useState(query.search ?? '');
+  const [isSortVisible, setSortVisible] = useState(false);
+  const [isFilterVisible, setFilterVisible] = useState(false);
+  const selectedGenres = query.genres ?? [];
+  const genreMatch = query.genreMatch ?? 'any';
+  const genreFilter = describeGenreFilter(selectedGenres, genreMatch, genres);
+  const filterPills = getFilterPills(query);
+  const hasFilterPills = filterPills.length > 0;
+
+  // fetchMovies changes on every render; read it through a ref so the list only reloads on focus
+  const fetchMoviesRef = useRef(fetchMovies);
+  fetchMoviesRef.current = fetchMovies;
 
   useFocusEffect(
     useCallback(() => {
-      fetchMovies();
+      fetchMoviesRef.current();
     }, [])
   );
 
+  // updateQuery changes on every render; read it through a ref so only typing restarts the debounce
+  const updateQueryRef = useRef(updateQuery);
+  updateQueryRef.current = updateQuery;
+
+  // Send the search once typing pauses; each new query starts again from page 1
+  useEffect(() => {
+    const search = searchText.trim();
+    if (search === (query.search ?? '')) return;
+    const timer = setTimeout(() => updateQueryRef.current({ search }), SEARCH_DEBOUNCE);
+    return () => clearTimeout(timer);
+  }, [searchText, query.search]);
+
+  // This screen stays mounted under the rest of the movie stack, so it is
+  // the one place that reports offline changes refused during sync.
+  useEffect(() => {
+    if (syncFailures.length === 0) return;
+    const details = syncFailures
+      .map(({ entry, error: syncError }) => `${describeMutation(entry)}: ${syncError.message}`)
+      .join('\n');
+    Alert.alert('Some offline changes could not be synced', details);
+    clearSyncFailures();
+  }, [syncFailures, clearSyncFailures]);
+
   useLayoutEffect(() => {
+    /**
+     * Opens the add movie screen, or explains why unverified users cannot add movies.
+     */
+    const handleAdd = () => {
+      if (isEmailVerified) {
+        navigation.navigate('AddMovie');
+        return;
+      }
+      Alert.alert('Verify Your Email', 'Please verify your email address before adding movies.', [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Verify',
+          onPress: () => navigation.getParent<NavigationProp<AppDrawerParamList>>()?.navigate('VerifyEmail'),
+        },
+      ]);
+    };
+
     navigation.setOptions({
+      title: genreFilter ? `Movies: ${genreFilter}` : 'Movies',
+      headerSearchBarOptions: {
+        placeholder: 'Search title, director or cast',
+        autoCapitalize: 'none',
+        onChangeText: event => setSearchText(event.nativeEvent.text),
+        onCancelButtonPress: () => setSearchText(''),
+      },
       headerRight: () => (
-        <RNButton
-          title="Add"
-          onPress={() => navigation.navigate('AddMovie')}
-          color={colors.primary}
-        />
+        <View style={styles.headerButtons}>
+          <TouchableOpacity
+            onPress={() => setFilterVisible(true)}
+            style={styles.headerButton}
+            accessibilityLabel="Filter movies"
+          >
+            <Icon name={hasFilterPills ? 'filter' : 'filter-outline'} size={24} color={colors.primary} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => setSortVisible(true)}
+            style={styles.headerButton}
+            accessibilityLabel="Sort movies"
+          >
+            <Icon name="sort" size={24} color={colors.primary} />
+          </TouchableOpacity>
+          <RNButton
+            title="Add"
+            onPress={handleAdd}
+            color={colors.primary}
+          />
+        </View>
       ),
     });
-  }, [navigation]);
+  }, [navigation, isEmailVerified, genreFilter, hasFilterPills]);
 
-  // Show a full-screen loading indicator only on the very first load.
-  if (isListLoading) {
-    return <Loading />;
-  }
-  
-  // Show a full-screen error message if the initial fetch fails.
-  if (error) {
-    return (
-      <View style={styles.center}>
-        <Text>Error: {error}</Text>
-        <RNButton title="Retry" onPress={fetchMovies} color={colors.primary} />
-      </View>
-    );
-  }
+  /**
+   * Renders the list, or the loading or error state in its place.
+   * The filters above stay visible, so they can be changed while a query loads or fails.
+   */
+  const renderList = () => {
+    // Show a loading indicator only when nothing is cached for the query.
+    if (isListLoading) {
+      return <Loading />;
+    }
 
-  return (
-    <View style={globalStyles.container}>
+    // Show an error message if the initial fetch fails.
+    if (error) {
+      return (
+        <View style={styles.center}>
+          <Text>Error: {error}</Text>
+          <RNButton title="Retry" onPress={() => fetchMovies()} color={colors.primary} />
+        </View>
+      );
+    }
+
+    return (
       <FlatList
         data={movies}
-        keyExtractor={(item, index) => `${item.id}-${index}`}
+        keyExtractor={item => String(item.id)}
         renderItem={({ item }) => (
           <MovieCard
             movie={item}
+            highlight={query.search}
             onPress={() => navigation.navigate('MovieDetails', { movieId: item.id })}
           />
         )}
+        ListEmptyComponent={
+          <ListEmptyComponent search={query.search} isFiltered={selectedGenres.length > 0 || hasFilterPills} />
+        }
+        keyboardDismissMode="on-drag"
         // --- Infinite Scroll Configuration ---
         onEndReached={fetchMoreMovies}
         onEndReachedThreshold={0.5}
         ListFooterComponent={<ListFooterComponent isFetchingMore={isFetchingMore} />}
       />
+    );
+  };
+
+  return (
+    <View style={globalStyles.container}>
+      <VerifyEmailBanner />
+      <GenreFilterBar
+        selected={selectedGenres}
+        match={genreMatch}
+        onChangeSelected={selection => updateQuery({ genres: selection })}
+        onChangeMatch={match => updateQuery({ genreMatch: match })}
+      />
+      <FilterPills
+        pills={filterPills}
+        onRemove={key => {
+          const pill = filterPills.find(candidate => candidate.key === key);
+          if (pill) updateQuery(pill.cleared);
+        }}
+      />
+      {query.ordering && (
+        <TouchableOpacity style={styles.sortRow} onPress={() => setSortVisible(true)}>
+          <Icon name="sort" size={16} color={colors.gray} />
+          <Text style={styles.sortText}>Sorted by {describeOrdering(query.ordering)}</Text>
+        </TouchableOpacity>
+      )}
+      {renderList()}
+      <SortModal
+        isVisible={isSortVisible}
+        ordering={query.ordering}
+        onChange={ordering => {
+          setSortVisible(false);
+          updateQuery({ ordering });
+        }}
+        onClose={() => setSortVisible(false)}
+      />
+      <MovieFilterModal
+        isVisible={isFilterVisible}
+        filters={query}
+        onApply={filters => {
+          setFilterVisible(false);
+          updateQuery(filters);
+        }}
+        onClose={() => setFilterVisible(false)}
+      />
     </View>
   );
 };
@@ -124,11 +313,46 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     padding: 20,
   },
+  headerButtons: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  headerButton: {
+    marginRight: spacing.md,
+  },
+  sortRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  sortText: {
+    fontSize: 12,
+    color: colors.gray,
+    marginLeft: 4,
+  },
   footer: {
     paddingVertical: 20,
     justifyContent: 'center',
     alignItems: 'center',
   },
+  empty: {
+    alignItems: 'center',
+    paddingVertical: spacing.lg,
+    paddingHorizontal: spacing.md,
+  },
+  emptyTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: colors.dark,
+    marginTop: spacing.sm,
+    textAlign: 'center',
+  },
+  emptyHint: {
+    fontSize: 14,
+    color: colors.gray,
+    marginTop: 4,
+    textAlign: 'center',
+  },
 });
 
 export default MovieListScreen;
\ No newline at end of file
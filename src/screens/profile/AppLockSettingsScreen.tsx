@@ -0,0 +1,221 @@
+/**
+ * @fileoverview Screen for setting up the app lock
+ *
+ * This screen lets a logged-in user protect the app with a PIN:
+ * - Choosing a 4 to 6 digit PIN, with confirmation, to turn the app lock on
+ * - Choosing how long the app may stay idle or in the background before it locks
+ * - Turning the app lock off again with the current PIN
+ * - Form validation using Yup and Formik
+ *
+ * Integrates with AppLockContext, which stores only a hash of the PIN.
+ */
+
+import React, { useState } from 'react';
+import { View, Text, ScrollView, Alert, StyleSheet, TouchableOpacity } from 'react-native';
+import { Formik } from 'formik';
+import { useAppLock } from '../../context/AppLockContext';
+import { IDLE_TIMEOUT_OPTIONS } from '../../service/appLock';
+import { EnterPinSchema, SetPinSchema } from '../../utils/validation';
+import { AppLockSettingsScreenProps } from '../../navigation/types';
+import Input from '../../components/common/Input';
+import Button from '../../components/common/Button';
+import { globalStyles, colors, spacing } from '../../styles/globalStyles';
+
+/**
+ * Props interface for the IdleTimeoutPicker component
+ *
+ * @interface IdleTimeoutPickerProps
+ * @property {number} value - Selected idle or background period (ms)
+ * @property {Function} onChange - Called with the newly selected period
+ */
+interface IdleTimeoutPickerProps {
+  value: number;
+  onChange: (idleTimeout: number) => void;
+}
+
+/**
+ * Row of choices for the idle or background period before the app locks
+ *
+ * @param {IdleTimeoutPickerProps} props - Component properties
+ * @returns {JSX.Element} Rendered picker
+ */
+const IdleTimeoutPicker: React.FC<IdleTimeoutPickerProps> = ({ value, onChange }) => (
+  <View style={styles.section}>
+    <Text style={styles.label}>Lock after being idle or in the background for</Text>
+    <View style={styles.options}>
+      {IDLE_TIMEOUT_OPTIONS.map(option => (
+        <TouchableOpacity
+          key={option}
+          style={[styles.option, option === value && styles.optionSelected]}
+          onPress={() => onChange(option)}
+        >
+          <Text style={[styles.optionText, option === value && styles.optionTextSelected]}>
+            {option / 60000} min
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  </View>
+);
+
+/**
+ * App lock settings screen component
+ *
+ * @param {AppLockSettingsScreenProps} props - Navigation props
+ * @returns {JSX.Element} Rendered app lock settings screen
+ */
+const AppLockSettingsScreen: React.FC<AppLockSettingsScreenProps> = ({ navigation }) => {
+  const { isEnabled, idleTimeout, enableLock, disableLock, changeIdleTimeout } = useAppLock();
+  const [isLoading, setIsLoading] = useState(false);
+  const [newIdleTimeout, setNewIdleTimeout] = useState(idleTimeout);
+
+  if (isEnabled) {
+    return (
+      <ScrollView contentContainerStyle={globalStyles.container} keyboardShouldPersistTaps="handled">
+        <Text style={styles.hint}>
+          The app lock is on. Your PIN is asked for when the app starts and after it was left alone.
+        </Text>
+        <IdleTimeoutPicker value={idleTimeout} onChange={changeIdleTimeout} />
+        <Text style={styles.label}>Turn off the app lock</Text>
+        <Formik
+          initialValues={{ pin: '' }}
+          validationSchema={EnterPinSchema}
+          onSubmit={async (values, { setErrors, resetForm }) => {
+            setIsLoading(true);
+            try {
+              const result = await disableLock(values.pin);
+              if (result.type === 'correct') {
+                Alert.alert('App Lock Off', 'The app will no longer ask for a PIN.', [
+                  { text: 'OK', onPress: () => navigation.goBack() },
+                ]);
+              } else if (result.type === 'wrong') {
+                resetForm();
+                setErrors({
+                  pin: `Wrong PIN. ${result.attemptsLeft} ${result.attemptsLeft === 1 ? 'attempt' : 'attempts'} left.`,
+                });
+              }
+            } catch {
+              Alert.alert('Error', 'The app lock settings could not be saved. Please try again.');
+            } finally {
+              setIsLoading(false);
+            }
+          }}
+        >
+          {({ handleChange, handleBlur, handleSubmit, values, errors, touched }) => (
+            <>
+              <Input
+                label="Current PIN"
+                onChangeText={handleChange('pin')}
+                onBlur={handleBlur('pin')}
+                value={values.pin}
+                error={errors.pin}
+                touched={touched.pin || !!errors.pin}
+                keyboardType="number-pad"
+                maxLength={6}
+                secureTextEntry
+              />
+              <Button title="Turn Off App Lock" onPress={() => handleSubmit()} loading={isLoading} />
+            </>
+          )}
+        </Formik>
+      </ScrollView>
+    );
+  }
+
+  return (
+    <ScrollView contentContainerStyle={globalStyles.container} keyboardShouldPersistTaps="handled">
+      <Text style={styles.hint}>
+        Protect the app with a PIN. It is asked for when the app starts and after it was left alone.
+        Too many wrong PINs sign every account out.
+      </Text>
+      <Formik
+        initialValues={{ pin: '', pin_confirm: '' }}
+        validationSchema={SetPinSchema}
+        onSubmit={async values => {
+          setIsLoading(true);
+          try {
+            await enableLock(values.pin, newIdleTimeout);
+            Alert.alert('App Lock On', 'Remember your PIN: it cannot be recovered.', [
+              { text: 'OK', onPress: () => navigation.goBack() },
+            ]);
+          } catch {
+            Alert.alert('Error', 'The PIN could not be saved, so the app lock is still off. Please try again.');
+          } finally {
+            setIsLoading(false);
+          }
+        }}
+      >
+        {({ handleChange, handleBlur, handleSubmit, values, errors, touched }) => (
+          <>
+            <Input
+              label="PIN"
+              onChangeText={handleChange('pin')}
+              onBlur={handleBlur('pin')}
+              value={values.pin}
+              error={errors.pin}
+              touched={touched.pin}
+              keyboardType="number-pad"
+              maxLength={6}
+              secureTextEntry
+            />
+            <Input
+              label="Confirm PIN"
+              onChangeText={handleChange('pin_confirm')}
+              onBlur={handleBlur('pin_confirm')}
+              value={values.pin_confirm}
+              error={errors.pin_confirm}
+              touched={touched.pin_confirm}
+              keyboardType="number-pad"
+              maxLength={6}
+              secureTextEntry
+            />
+            <IdleTimeoutPicker value={newIdleTimeout} onChange={setNewIdleTimeout} />
+            <Button title="Turn On App Lock" onPress={() => handleSubmit()} loading={isLoading} />
+          </>
+        )}
+      </Formik>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  hint: {
+    fontSize: 14,
+    color: colors.gray,
+    marginBottom: spacing.md,
+  },
+  section: {
+    marginBottom: spacing.md,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: colors.dark,
+    marginBottom: spacing.sm,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  option: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.gray,
+    marginRight: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  optionSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  optionText: {
+    color: colors.dark,
+  },
+  optionTextSelected: {
+    color: colors.white,
+  },
+});
+
+export default AppLockSettingsScreen;
@@ -0,0 +1,140 @@
+/**
+ * @fileoverview Screen for changing the password of the signed-in user
+ *
+ * This screen lets a logged-in user choose a new password with:
+ * - Current password, new password and confirmation inputs
+ * - Form validation using Yup and Formik, with the registration password rules
+ * - Inline display of server-side errors (e.g. a wrong current password)
+ * - An option to sign out of all other devices
+ * - Navigation back to the profile screen on success
+ *
+ * Integrates with AuthContext, which swaps in the tokens issued for the new password.
+ */
+
+import React, { useState } from 'react';
+import { View, Text, ScrollView, Alert, StyleSheet, Switch } from 'react-native';
+import { Formik } from 'formik';
+import { useAuth } from '../../context/AuthContext';
+import { getFormErrors } from '../../service/apiError';
+import { ChangePasswordSchema } from '../../utils/validation';
+import { ChangePasswordScreenProps } from '../../navigation/types';
+import Input from '../../components/common/Input';
+import Button from '../../components/common/Button';
+import { globalStyles, colors, spacing } from '../../styles/globalStyles';
+
+/**
+ * Password change screen component
+ *
+ * @param {ChangePasswordScreenProps} props - Navigation props
+ * @returns {JSX.Element} Rendered change password screen
+ */
+const ChangePasswordScreen: React.FC<ChangePasswordScreenProps> = ({ navigation }) => {
+  const { changePassword } = useAuth();
+  const [isLoading, setIsLoading] = useState(false);
+  const [signOutOtherSessions, setSignOutOtherSessions] = useState(false);
+
+  return (
+    <ScrollView contentContainerStyle={globalStyles.container} keyboardShouldPersistTaps="handled">
+      <Formik
+        initialValues={{ old_password: '', new_password: '', new_password_confirm: '' }}
+        validationSchema={ChangePasswordSchema}
+        onSubmit={async (values, { setErrors }) => {
+          setIsLoading(true);
+          try {
+            await changePassword(values, signOutOtherSessions);
+            Alert.alert(
+              'Password Changed',
+              signOutOtherSessions
+                ? 'Your password has been changed and your other devices have been signed out.'
+                : 'Your password has been changed.',
+              [{ text: 'OK', onPress: () => navigation.goBack() }],
+            );
+          } catch (error) {
+            // Show field errors inline, anything else in an alert
+            const { errors, message } = getFormErrors(error, values);
+            setErrors(errors);
+            if (message) {
+              Alert.alert('Error', message);
+            }
+          } finally {
+            setIsLoading(false);
+          }
+        }}
+      >
+        {({ handleChange, handleBlur, handleSubmit, values, errors, touched }) => (
+          <>
+            <Input
+              label="Current Password"
+              onChangeText={handleChange('old_password')}
+              onBlur={handleBlur('old_password')}
+              value={values.old_password}
+              error={errors.old_password}
+              touched={touched.old_password}
+              secureTextEntry
+            />
+            <Input
+              label="New Password"
+              onChangeText={handleChange('new_password')}
+              onBlur={handleBlur('new_password')}
+              value={values.new_password}
+              error={errors.new_password}
+              touched={touched.new_password}
+              secureTextEntry
+            />
+            <Input
+              label="Confirm New Password"
+              onChangeText={handleChange('new_password_confirm')}
+              onBlur={handleBlur('new_password_confirm')}
+              value={values.new_password_confirm}
+              error={errors.new_password_confirm}
+              touched={touched.new_password_confirm}
+              secureTextEntry
+            />
+            <View style={styles.switchRow}>
+              <View style={styles.switchText}>
+                <Text style={styles.switchLabel}>Sign out other devices</Text>
+                <Text style={styles.switchHint}>
+                  Ends every other session, e.g. if someone else may know your password.
+                </Text>
+              </View>
+              <Switch
+                value={signOutOtherSessions}
+                onValueChange={setSignOutOtherSessions}
+                trackColor={{ true: colors.primary, false: colors.gray }}
+              />
+            </View>
+            <View style={styles.buttonContainer}>
+              <Button title="Change Password" onPress={() => handleSubmit()} loading={isLoading} />
+            </View>
+          </>
+        )}
+      </Formik>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: spacing.sm,
+  },
+  switchText: {
+    flex: 1,
+    marginRight: spacing.sm,
+  },
+  switchLabel: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: colors.dark,
+  },
+  switchHint: {
+    fontSize: 12,
+    color: colors.gray,
+  },
+  buttonContainer: {
+    marginTop: 20,
+  },
+});
+
+export default ChangePasswordScreen;
@@ -0,0 +1,124 @@
+/**
+ * @fileoverview Screen for permanently deleting the signed-in user's account
+ *
+ * This screen lets a logged-in user leave the service with:
+ * - An explanation of what is deleted and a pointer to the data export
+ * - Password re-confirmation using Yup and Formik
+ * - A final confirmation dialog before anything is deleted
+ * - Inline display of server-side errors (e.g. a wrong password)
+ *
+ * Integrates with AuthContext, which removes the account's tokens, caches and
+ * queued offline changes from the device once the backend deleted it.
+ */
+
+import React, { useState } from 'react';
+import { View, Text, ScrollView, Alert, StyleSheet } from 'react-native';
+import { Formik } from 'formik';
+import { useAuth } from '../../context/AuthContext';
+import { getFormErrors } from '../../service/apiError';
+import { DeleteAccountSchema } from '../../utils/validation';
+import { DeleteAccountScreenProps } from '../../navigation/types';
+import Input from '../../components/common/Input';
+import Button from '../../components/common/Button';
+import { globalStyles, colors, spacing } from '../../styles/globalStyles';
+
+/**
+ * Asks for a final confirmation before deleting the account
+ *
+ * @returns {Promise<boolean>} Whether the user confirmed
+ */
+const confirmDeletion = (): Promise<boolean> =>
+  new Promise(resolve => {
+    Alert.alert(
+      'Delete Account?',
+      'This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+        { text: 'Delete', style: 'destructive', onPress: () => resolve(true) },
+      ],
+      { cancelable: true, onDismiss: () => resolve(false) },
+    );
+  });
+
+/**
+ * Account deletion screen component
+ *
+ * @param {DeleteAccountScreenProps} props - Navigation props
+ * @returns {JSX.Element} Rendered delete account screen
+ */
+const DeleteAccountScreen: React.FC<DeleteAccountScreenProps> = ({ navigation }) => {
+  const { user, deleteAccount } = useAuth();
+  const [isLoading, setIsLoading] = useState(false);
+
+  return (
+    <ScrollView contentContainerStyle={globalStyles.container} keyboardShouldPersistTaps="handled">
+      <View style={styles.warning}>
+        <Text style={styles.warningTitle}>This permanently deletes @{user?.username}</Text>
+        <Text style={styles.warningText}>
+          Your profile, your reviews, the movies you added and your favorites are removed from the
+          server and from this device. Export your data first if you want to keep a copy.
+        </Text>
+      </View>
+      <Formik
+        initialValues={{ password: '' }}
+        validationSchema={DeleteAccountSchema}
+        onSubmit={async (values, { setErrors }) => {
+          if (!(await confirmDeletion())) {
+            return;
+          }
+          setIsLoading(true);
+          try {
+            // On success the account is signed out and this screen goes away
+            await deleteAccount(values);
+            Alert.alert('Account Deleted', 'Your account and its data have been deleted.');
+          } catch (error) {
+            const { errors, message } = getFormErrors(error, values);
+            setErrors(errors);
+            if (message) {
+              Alert.alert('Error', message);
+            }
+            setIsLoading(false);
+          }
+        }}
+      >
+        {({ handleChange, handleBlur, handleSubmit, values, errors, touched }) => (
+          <>
+            <Input
+              label="Password"
+              onChangeText={handleChange('password')}
+              onBlur={handleBlur('password')}
+              value={values.password}
+              error={errors.password}
+              touched={touched.password}
+              secureTextEntry
+            />
+            <Button title="Delete My Account" onPress={() => handleSubmit()} loading={isLoading} />
+            <Button title="Cancel" onPress={() => navigation.goBack()} disabled={isLoading} />
+          </>
+        )}
+      </Formik>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  warning: {
+    padding: 10,
+    borderRadius: 8,
+    marginBottom: spacing.md,
+    backgroundColor: colors.white,
+    borderLeftWidth: 4,
+    borderLeftColor: colors.danger,
+  },
+  warningTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: colors.danger,
+    marginBottom: spacing.sm,
+  },
+  warningText: {
+    color: colors.dark,
+  },
+});
+
+export default DeleteAccountScreen;
@@ -6,7 +6,7 @@
  * - First name and last name editing capabilities
  * - Form validation using Yup and Formik
  * - FormData submission for backend compatibility
- * - Error handling and user feedback
+ * - Inline display of server-side field validation errors
  * - Navigation back to profile screen on success
  * - Loading states during profile updates
  * 
@@ -19,6 +19,7 @@ import { View, ScrollView, Alert, StyleSheet } from 'react-native';
 import { Formik } from 'formik';
 import * as Yup from 'yup';
 import { useAuth } from '../../context/AuthContext';
+import { getFormErrors } from '../../service/apiError';
 import Input from '../../components/common/Input';
 import Button from '../../components/common/Button';
 import { globalStyles } from '../../styles/globalStyles';
@@ -75,7 +76,7 @@ const EditProfileScreen: React.FC<EditProfileProps> = ({ navigation }) => {
           // username: user.username || '',
         }}
         validationSchema={EditProfileSchema}
-        onSubmit={async (values) => {
+        onSubmit={async (values, { setErrors }) => {
           setIsLoading(true);
           const formData = new FormData();
 
@@ -94,15 +95,13 @@ const EditProfileScreen: React.FC<EditProfileProps> = ({ navigation }) => {
             Alert.alert('Success', 'Your profile has been updated.', [
               { text: 'OK', onPress: () => navigation.goBack() }
             ]);
-          } catch (error: any) {
-            const errorData = error.response?.data;
-            let errorMessage = 'Could not update profile. An unknown error occurred.';
-            if (errorData) {
-              errorMessage = Object.entries(errorData)
-                .map(([key, value]) => `${key}: ${(value as string[]).join(', ')}`)
-                .join('\n');
+          } catch (error) {
+            // Show field errors inline, anything else in an alert
+            const { errors, message } = getFormErrors(error, values);
+            setErrors(errors);
+            if (message) {
+              Alert.alert('Error', message);
             }
-            Alert.alert('Error', errorMessage);
           } finally {
             setIsLoading(false);
           }
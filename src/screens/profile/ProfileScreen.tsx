@@ -4,7 +4,9 @@
  * This screen provides a comprehensive user profile interface with:
  * - User profile information display (name, username, email)
  * - Profile picture with fallback avatar icon
- * - Navigation to profile editing screen
+ * - Navigation to profile editing, password change and app lock screens
+ * - Exporting the user's personal data as a JSON file
+ * - Navigation to account deletion
  * - Logout functionality with confirmation dialog
  * - User authentication state validation
  * - Consistent styling using global theme colors
@@ -13,9 +15,12 @@
  * Provides navigation within the profile stack for editing capabilities.
  */
 
-import React from 'react';
+import React, { useState } from 'react';
 import { View, Text, StyleSheet, Image, Alert } from 'react-native';
 import { useAuth } from '../../context/AuthContext';
+import * as authService from '../../service/authService';
+import { toApiError } from '../../service/apiError';
+import { shareUserData } from '../../utils/dataExport';
 import Button from '../../components/common/Button';
 import { globalStyles,colors,spacing } from '../../styles/globalStyles';
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
@@ -40,6 +45,21 @@ type ProfileScreenProps = NativeStackScreenProps<ProfileStackParamList, 'Profile
  */
 const ProfileScreen: React.FC<ProfileScreenProps> = ({ navigation }) => {
   const { user, logout } = useAuth();
+  const [isExporting, setIsExporting] = useState(false);
+
+  /**
+   * Fetches the user's personal data and opens the share sheet with it.
+   */
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await shareUserData(await authService.exportUserData());
+    } catch (error) {
+      Alert.alert('Export Failed', toApiError(error).message);
+    } finally {
+      setIsExporting(false);
+    }
+  };
 
   /**
    * Handles the logout process with a confirmation dialog.
@@ -86,7 +106,20 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({ navigation }) => {
               title="Edit Profile"
               onPress={() => navigation.navigate('EditProfile')}
             />
+            <Button
+              title="Change Password"
+              onPress={() => navigation.navigate('ChangePassword')}
+            />
+            <Button
+              title="App Lock"
+              onPress={() => navigation.navigate('AppLockSettings')}
+            />
+            <Button title="Export My Data" onPress={handleExport} loading={isExporting} />
             <Button title="Logout" onPress={handleLogout} />
+            <Button
+              title="Delete My Account"
+              onPress={() => navigation.navigate('DeleteAccount')}
+            />
         </View>
     </View>
   );
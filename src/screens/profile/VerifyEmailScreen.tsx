@@ -0,0 +1,167 @@
+/**
+ * @fileoverview Email verification screen shown after registration
+ *
+ * This screen lets a newly registered user confirm their email address with:
+ * - Entry of the 6-digit code from the verification email
+ * - Form validation using Yup and Formik
+ * - Resending the code, throttled with a visible countdown
+ * - A success state once the email is verified
+ * - Skipping verification for now (restricted actions stay locked)
+ *
+ * Opened automatically when an unverified user signs in and from the
+ * verification banner. Integrates with AuthContext for the verification calls.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Alert, TouchableOpacity, ScrollView } from 'react-native';
+import { Formik } from 'formik';
+import { useAuth } from '../../context/AuthContext';
+import { getFormErrors, toApiError } from '../../service/apiError';
+import { getVerificationResendCooldown } from '../../service/authService';
+import { VerifyEmailSchema } from '../../utils/validation';
+import { VerifyEmailScreenProps } from '../../navigation/types';
+import Input from '../../components/common/Input';
+import Button from '../../components/common/Button';
+import { globalStyles, colors, spacing } from '../../styles/globalStyles';
+
+/**
+ * Email verification screen component
+ *
+ * @param {VerifyEmailScreenProps} props - Navigation props
+ * @returns {JSX.Element|null} Rendered verification screen or null if no user
+ */
+const VerifyEmailScreen: React.FC<VerifyEmailScreenProps> = ({ navigation }) => {
+  const { user, isEmailVerified, verifyEmail, resendVerificationEmail } = useAuth();
+  const email = user?.email ?? '';
+  const [isLoading, setIsLoading] = useState(false);
+  const [isResending, setIsResending] = useState(false);
+  const [resendCooldown, setResendCooldown] = useState(() => getVerificationResendCooldown(email));
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Count the resend cooldown down once per second while it runs
+  useEffect(() => {
+    if (resendCooldown <= 0) {
+      return;
+    }
+    const timer = setTimeout(() => setResendCooldown(getVerificationResendCooldown(email)), 1000);
+    return () => clearTimeout(timer);
+  }, [email, resendCooldown]);
+
+  /**
+   * Leaves the screen for the movie list.
+   */
+  const goToMovies = () => navigation.navigate('Home', { screen: 'MovieList' });
+
+  /**
+   * Requests a new verification code.
+   */
+  const handleResend = async () => {
+    setIsResending(true);
+    setNotice(null);
+    try {
+      await resendVerificationEmail();
+      setNotice('A new code has been sent.');
+    } catch (error) {
+      Alert.alert('Could Not Send Code', toApiError(error).message);
+    } finally {
+      setIsResending(false);
+      setResendCooldown(getVerificationResendCooldown(email));
+    }
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  if (isEmailVerified) {
+    return (
+      <View style={globalStyles.container}>
+        <Text style={globalStyles.title}>Email Verified</Text>
+        <Text style={styles.hint}>
+          Thanks for confirming {email}. You can now add movies and post reviews.
+        </Text>
+        <Button title="Continue" onPress={goToMovies} />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView contentContainerStyle={globalStyles.container} keyboardShouldPersistTaps="handled">
+      <Text style={globalStyles.title}>Verify Your Email</Text>
+      <Text style={styles.hint}>
+        We sent a 6-digit code to {email}. Enter it below to start adding movies and posting reviews.
+      </Text>
+      {notice && <Text style={styles.notice}>{notice}</Text>}
+      <Formik
+        initialValues={{ code: '' }}
+        validationSchema={VerifyEmailSchema}
+        onSubmit={async (values, { setErrors }) => {
+          setIsLoading(true);
+          try {
+            await verifyEmail(values.code);
+          } catch (error) {
+            const { errors, message } = getFormErrors(error, values);
+            setErrors(errors);
+            if (message) {
+              Alert.alert('Verification Failed', message);
+            }
+          } finally {
+            setIsLoading(false);
+          }
+        }}
+      >
+        {({ handleChange, handleBlur, handleSubmit, values, errors, touched }) => (
+          <>
+            <Input
+              label="Verification Code"
+              onChangeText={handleChange('code')}
+              onBlur={handleBlur('code')}
+              value={values.code}
+              error={errors.code}
+              touched={touched.code}
+              keyboardType="number-pad"
+              maxLength={6}
+              textContentType="oneTimeCode"
+            />
+            <Button title="Verify Email" onPress={() => handleSubmit()} loading={isLoading} />
+          </>
+        )}
+      </Formik>
+      <TouchableOpacity onPress={handleResend} disabled={resendCooldown > 0 || isResending}>
+        <Text style={[styles.linkText, (resendCooldown > 0 || isResending) && styles.linkDisabled]}>
+          {resendCooldown > 0 ? `Resend code in ${resendCooldown}s` : isResending ? 'Sending…' : 'Resend code'}
+        </Text>
+      </TouchableOpacity>
+      <TouchableOpacity onPress={goToMovies}>
+        <Text style={styles.linkText}>I'll do this later</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  hint: {
+    fontSize: 14,
+    color: colors.gray,
+    marginBottom: spacing.md,
+  },
+  notice: {
+    padding: 10,
+    borderRadius: 8,
+    marginBottom: spacing.md,
+    backgroundColor: colors.white,
+    borderLeftWidth: 4,
+    borderLeftColor: colors.secondary,
+    color: colors.dark,
+  },
+  linkText: {
+    textAlign: 'center',
+    color: colors.primary,
+    marginTop: 15,
+  },
+  linkDisabled: {
+    color: colors.gray,
+  },
+});
+
+export default VerifyEmailScreen;
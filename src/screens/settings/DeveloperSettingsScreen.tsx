@@ -0,0 +1,177 @@
+/**
+ * @fileoverview Hidden developer settings screen for backend selection
+ *
+ * This screen lets developers and testers switch backends at runtime with:
+ * - Selection between the named environment profiles
+ * - Optional custom base URL override (e.g. a LAN address for physical devices)
+ * - Persistence of the selection across app restarts
+ * - Reset back to the platform default profile
+ *
+ * Reached by long-pressing the title on the login screen.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import * as Yup from 'yup';
+import { DeveloperSettingsScreenProps } from '../../navigation/types';
+import Input from '../../components/common/Input';
+import Button from '../../components/common/Button';
+import * as storage from '../../utils/storage';
+import { applyEnvironment, getApiBaseUrl, loadEnvironment } from '../../service/api';
+import {
+  ENVIRONMENTS,
+  EnvironmentName,
+  getDefaultEnvironment,
+} from '../../config/environment';
+import { globalStyles, colors, spacing } from '../../styles/globalStyles';
+
+/**
+ * Yup validation schema for the custom base URL override
+ */
+const CustomBaseUrlSchema = Yup.string().url('Please enter a valid URL');
+
+/**
+ * Developer settings screen component
+ *
+ * Features include:
+ * - Radio list of the available environment profiles
+ * - Custom base URL input overriding the selected profile
+ * - Display of the base URL currently in use
+ * - Save and reset actions persisting the selection
+ *
+ * @param {DeveloperSettingsScreenProps} props - Navigation props
+ * @returns {JSX.Element} Rendered developer settings screen
+ */
+const DeveloperSettingsScreen: React.FC<DeveloperSettingsScreenProps> = ({ navigation }) => {
+  const [selectedName, setSelectedName] = useState<EnvironmentName>(getDefaultEnvironment().name);
+  const [customBaseUrl, setCustomBaseUrl] = useState('');
+  const [urlError, setUrlError] = useState<string | undefined>();
+  const [activeBaseUrl, setActiveBaseUrl] = useState(getApiBaseUrl());
+
+  // Pre-select whatever environment is currently persisted
+  useEffect(() => {
+    const loadSelection = async () => {
+      const selection = await loadEnvironment();
+      setSelectedName(selection.name);
+      setCustomBaseUrl(selection.customBaseUrl || '');
+      setActiveBaseUrl(getApiBaseUrl());
+    };
+    loadSelection();
+  }, []);
+
+  /**
+   * Validates, persists and applies the current selection.
+   */
+  const handleSave = async () => {
+    const trimmedUrl = customBaseUrl.trim();
+    try {
+      await CustomBaseUrlSchema.validate(trimmedUrl);
+    } catch (error: any) {
+      setUrlError(error.message);
+      return;
+    }
+    setUrlError(undefined);
+
+    const selection = { name: selectedName, customBaseUrl: trimmedUrl || undefined };
+    await storage.setEnvironmentSelection(selection);
+    applyEnvironment(selection);
+    setActiveBaseUrl(getApiBaseUrl());
+    Alert.alert('Saved', `Now using ${getApiBaseUrl()}`, [
+      { text: 'OK', onPress: () => navigation.goBack() },
+    ]);
+  };
+
+  /**
+   * Clears the persisted selection and reverts to the platform default.
+   */
+  const handleReset = async () => {
+    const selection = getDefaultEnvironment();
+    await storage.clearEnvironmentSelection();
+    applyEnvironment(selection);
+    setSelectedName(selection.name);
+    setCustomBaseUrl('');
+    setUrlError(undefined);
+    setActiveBaseUrl(getApiBaseUrl());
+  };
+
+  return (
+    <ScrollView contentContainerStyle={globalStyles.container}>
+      <Text style={styles.sectionTitle}>Backend Environment</Text>
+      {Object.values(ENVIRONMENTS).map(profile => (
+        <TouchableOpacity
+          key={profile.name}
+          style={styles.option}
+          onPress={() => setSelectedName(profile.name)}
+        >
+          <Icon
+            name={profile.name === selectedName ? 'radiobox-marked' : 'radiobox-blank'}
+            size={22}
+            color={colors.primary}
+          />
+          <View style={styles.optionText}>
+            <Text style={styles.optionLabel}>{profile.label}</Text>
+            <Text style={styles.optionUrl}>{profile.apiBaseUrl}</Text>
+          </View>
+        </TouchableOpacity>
+      ))}
+
+      <View style={styles.customUrl}>
+        <Input
+          label="Custom Base URL (optional)"
+          placeholder="http://192.168.1.10:8000/api/"
+          value={customBaseUrl}
+          onChangeText={setCustomBaseUrl}
+          error={urlError}
+          touched={!!urlError}
+          keyboardType="url"
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+      </View>
+
+      <Text style={styles.activeUrl}>Currently using: {activeBaseUrl}</Text>
+
+      <Button title="Save" onPress={handleSave} />
+      <Button title="Reset to Default" onPress={handleReset} />
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.dark,
+    marginBottom: spacing.sm,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  optionText: {
+    marginLeft: 12,
+    flex: 1,
+  },
+  optionLabel: {
+    fontSize: 16,
+    color: colors.dark,
+  },
+  optionUrl: {
+    fontSize: 12,
+    color: colors.gray,
+  },
+  customUrl: {
+    marginTop: spacing.md,
+  },
+  activeUrl: {
+    fontSize: 12,
+    color: colors.gray,
+    marginBottom: spacing.sm,
+  },
+});
+
+export default DeveloperSettingsScreen;
@@ -0,0 +1,215 @@
+/**
+ * @fileoverview Developer screen listing recorded API traffic
+ *
+ * This screen shows what the app sent to and received from the backend with:
+ * - A list of recent requests with method, URL, status and timing
+ * - Expandable details with redacted headers and bodies
+ * - Exporting the whole log as JSON through the share sheet
+ * - Clearing the log
+ *
+ * Only registered in the drawer of debug builds.
+ */
+
+import React, { useEffect, useLayoutEffect, useState } from 'react';
+import { View, Text, StyleSheet, FlatList, TouchableOpacity, Share, Alert, Platform } from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { NetworkInspectorScreenProps } from '../../navigation/types';
+import {
+  NetworkLogEntry,
+  clearNetworkLog,
+  exportNetworkLog,
+  getNetworkLog,
+  subscribeToNetworkLog,
+} from '../../service/networkLog';
+import { colors, spacing } from '../../styles/globalStyles';
+
+/**
+ * Picks the colour for a response status
+ *
+ * @param {NetworkLogEntry} entry - Recorded exchange
+ * @returns {string} Colour for the status label
+ */
+const getStatusColor = (entry: NetworkLogEntry): string => {
+  if (entry.error || (entry.status !== undefined && entry.status >= 400)) {
+    return colors.danger;
+  }
+  return entry.status === undefined ? colors.gray : colors.primary;
+};
+
+/**
+ * Formats a header map or body for display
+ *
+ * @param {unknown} value - Value to format
+ * @returns {string} Pretty-printed value
+ */
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === '') {
+    return '(none)';
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+};
+
+/**
+ * Shares the log as JSON, e.g. to attach it to a bug report
+ */
+const handleExport = async () => {
+  try {
+    await Share.share({ title: 'Network log', message: exportNetworkLog() });
+  } catch (error: any) {
+    Alert.alert('Error', error.message);
+  }
+};
+
+/**
+ * Renders the export and clear actions in the header
+ *
+ * @returns {JSX.Element} Header buttons
+ */
+const renderHeaderActions = () => (
+  <View style={styles.headerActions}>
+    <TouchableOpacity onPress={handleExport} style={styles.headerButton}>
+      <Icon name="export-variant" size={22} color={colors.dark} />
+    </TouchableOpacity>
+    <TouchableOpacity onPress={clearNetworkLog} style={styles.headerButton}>
+      <Icon name="delete-outline" size={22} color={colors.dark} />
+    </TouchableOpacity>
+  </View>
+);
+
+/**
+ * Network inspector screen component
+ *
+ * @param {NetworkInspectorScreenProps} props - Navigation props
+ * @returns {JSX.Element} Rendered network inspector screen
+ */
+const NetworkInspectorScreen: React.FC<NetworkInspectorScreenProps> = ({ navigation }) => {
+  const [entries, setEntries] = useState<NetworkLogEntry[]>(getNetworkLog());
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  useEffect(() => subscribeToNetworkLog(setEntries), []);
+
+  useLayoutEffect(() => {
+    navigation.setOptions({ headerRight: renderHeaderActions });
+  }, [navigation]);
+
+  /**
+   * Renders a recorded exchange
+   *
+   * @param {{item: NetworkLogEntry}} props - FlatList item
+   * @returns {JSX.Element} List row with optional details
+   */
+  const renderEntry = ({ item }: { item: NetworkLogEntry }) => {
+    const isExpanded = item.id === expandedId;
+    return (
+      <TouchableOpacity
+        style={styles.entry}
+        onPress={() => setExpandedId(isExpanded ? null : item.id)}
+      >
+        <View style={styles.summaryRow}>
+          <Text style={styles.method}>{item.method}</Text>
+          <Text style={[styles.status, { color: getStatusColor(item) }]}>
+            {item.status ?? (item.error ? 'ERR' : '…')}
+          </Text>
+          <Text style={styles.duration}>
+            {item.durationMs !== undefined ? `${item.durationMs} ms` : 'pending'}
+          </Text>
+        </View>
+        <Text style={styles.url} numberOfLines={isExpanded ? undefined : 1}>{item.url}</Text>
+        {isExpanded && (
+          <View style={styles.details}>
+            <Text style={styles.detailLabel}>Started</Text>
+            <Text style={styles.code}>{item.startedAt}</Text>
+            {item.error && (
+              <>
+                <Text style={styles.detailLabel}>Error</Text>
+                <Text style={styles.code}>{item.error}</Text>
+              </>
+            )}
+            <Text style={styles.detailLabel}>Request headers</Text>
+            <Text style={styles.code}>{formatValue(item.requestHeaders)}</Text>
+            <Text style={styles.detailLabel}>Request body</Text>
+            <Text style={styles.code}>{formatValue(item.requestBody)}</Text>
+            <Text style={styles.detailLabel}>Response headers</Text>
+            <Text style={styles.code}>{formatValue(item.responseHeaders)}</Text>
+            <Text style={styles.detailLabel}>Response body</Text>
+            <Text style={styles.code}>{formatValue(item.responseBody)}</Text>
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <FlatList
+      data={[...entries].reverse()}
+      keyExtractor={item => String(item.id)}
+      renderItem={renderEntry}
+      contentContainerStyle={styles.list}
+      ListEmptyComponent={<Text style={styles.emptyText}>No requests recorded yet.</Text>}
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  list: {
+    padding: spacing.md,
+    backgroundColor: colors.background,
+    flexGrow: 1,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    marginRight: 10,
+  },
+  headerButton: {
+    marginLeft: spacing.md,
+  },
+  entry: {
+    backgroundColor: colors.white,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: spacing.sm,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  method: {
+    fontWeight: 'bold',
+    color: colors.dark,
+    marginRight: spacing.sm,
+  },
+  status: {
+    fontWeight: 'bold',
+    flex: 1,
+  },
+  duration: {
+    fontSize: 12,
+    color: colors.gray,
+  },
+  url: {
+    fontSize: 13,
+    color: colors.dark,
+  },
+  details: {
+    marginTop: spacing.sm,
+  },
+  detailLabel: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: colors.gray,
+    marginTop: spacing.sm,
+  },
+  code: {
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    fontSize: 12,
+    color: colors.dark,
+  },
+  emptyText: {
+    textAlign: 'center',
+    marginTop: 50,
+    color: colors.gray,
+  },
+});
+
+export default NetworkInspectorScreen;
@@ -3,19 +3,39 @@
  * 
  * This file provides the core HTTP client configuration for the Movie Review App:
  * - Axios instance with base URL and default headers
+ * - Runtime backend environment selection
+ * - Demo mode backed by the in-process mock backend
  * - Authentication token management
- * - Automatic token refresh interceptor
+ * - Proactive token refresh before expiry and on app foreground
+ * - Token refresh after 401 responses, with refresh-token rotation
+ * - Auth events for refreshed tokens and expired sessions
+ * - Retries with backoff for idempotent requests on transient failures
+ * - Traffic recording for the network inspector (debug builds only)
  * - Request/response interceptors for error handling
+ * - Normalization of every failure into an ApiError
  * 
- * Handles JWT token authentication and automatic refresh when tokens expire.
+ * Handles JWT token authentication and refreshes access tokens shortly before
+ * they expire, falling back to refreshing after a 401.
  */
 
 import axios from 'axios';
 import * as storage from '../utils/storage';
+import { getTokenExpiry, isTokenExpiring } from '../utils/jwt';
 import { Tokens } from '../types';
+import { ApiError, toApiError } from './apiError';
+import { emitAuthEvent } from './authEvents';
+import { attachNetworkRecorder } from './networkLog';
+import { getRetryDelay, wait } from './retryPolicy';
+import { mockAdapter } from './mock/mockAdapter';
+import { resetMockStore } from './mock/mockStore';
+import {
+  EnvironmentSelection,
+  getDefaultEnvironment,
+  resolveBaseUrl,
+} from '../config/environment';
 
-/** Base URL for the backend API endpoints */
-const API_BASE_URL = 'http://10.0.2.2:8000/api/';
+/** Base URL for the backend API endpoints, resolved from the active environment */
+let apiBaseUrl = resolveBaseUrl(getDefaultEnvironment());
 
 /**
  * Axios HTTP client instance configured for the Movie Review App
@@ -23,118 +43,299 @@ const API_BASE_URL = 'http://10.0.2.2:8000/api/';
  * Includes base URL, default headers, and interceptors for authentication
  */
 export const api = axios.create({
-  baseURL: API_BASE_URL,
+  baseURL: apiBaseUrl,
   headers: {
     'Content-Type': 'application/json',
   },
 });
 
+// Record traffic for the network inspector in debug builds; attached before
+// the other interceptors so it sees final requests and raw responses
+if (__DEV__) {
+  attachNetworkRecorder(api);
+}
+
+/**
+ * Returns the base URL of the currently active backend environment
+ *
+ * @returns {string} Active API base URL
+ */
+export const getApiBaseUrl = (): string => apiBaseUrl;
+
+/**
+ * Points the API client at the backend of the given environment
+ *
+ * @param {EnvironmentSelection} selection - Environment profile and optional URL override
+ */
+export const applyEnvironment = (selection: EnvironmentSelection) => {
+  apiBaseUrl = resolveBaseUrl(selection);
+  api.defaults.baseURL = apiBaseUrl;
+};
+
+/**
+ * Restores the persisted environment selection and applies it to the API client
+ * Falls back to the platform default when nothing has been selected
+ *
+ * @returns {Promise<EnvironmentSelection>} The environment now in use
+ */
+export const loadEnvironment = async (): Promise<EnvironmentSelection> => {
+  const selection = (await storage.getEnvironmentSelection()) ?? getDefaultEnvironment();
+  applyEnvironment(selection);
+  return selection;
+};
+
+/** Adapter axios picked for this platform, restored when demo mode is switched off */
+const networkAdapter = api.defaults.adapter;
+
+/**
+ * Switches demo mode on or off
+ * In demo mode every request is served by the in-process mock backend,
+ * which starts again from its fixture data each time demo mode is enabled.
+ *
+ * @param {boolean} enabled - Whether demo mode should be on
+ */
+export const applyDemoMode = (enabled: boolean) => {
+  if (enabled && api.defaults.adapter !== mockAdapter) {
+    resetMockStore();
+  }
+  api.defaults.adapter = enabled ? mockAdapter : networkAdapter;
+};
+
+/**
+ * Returns whether requests are currently served by the mock backend
+ *
+ * @returns {boolean} True if demo mode is on
+ */
+export const isDemoModeEnabled = (): boolean => api.defaults.adapter === mockAdapter;
+
+/**
+ * Restores the persisted demo mode flag and applies it to the API client
+ *
+ * @returns {Promise<boolean>} Whether demo mode is on
+ */
+export const loadDemoMode = async (): Promise<boolean> => {
+  const enabled = await storage.getDemoModeEnabled();
+  applyDemoMode(enabled);
+  return enabled;
+};
+
+/** How long before expiry the access token is refreshed (ms) */
+const REFRESH_LEEWAY = 60 * 1000;
+
+/** Upper bound for setTimeout delays; longer delays overflow and fire immediately */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/** Timer that refreshes the access token shortly before it expires */
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Schedules a refresh of the given access token shortly before it expires
+ * Tokens without a readable expiry are only refreshed after a 401.
+ *
+ * @param {string} token - Access token to schedule the refresh for
+ */
+const scheduleTokenRefresh = (token: string) => {
+  if (refreshTimer) {
+    clearTimeout(refreshTimer);
+    refreshTimer = null;
+  }
+  const expiry = getTokenExpiry(token);
+  if (expiry === null) {
+    return;
+  }
+  const delay = Math.min(Math.max(expiry - REFRESH_LEEWAY - Date.now(), 0), MAX_TIMER_DELAY);
+  refreshTimer = setTimeout(() => {
+    refreshTimer = null;
+    refreshAccessToken().catch(error => console.error('Scheduled token refresh failed:', error));
+  }, delay);
+};
+
 /**
  * Sets the authorization header for authenticated API requests
+ * and schedules a refresh before the token expires
  * 
  * @param {string} token - JWT access token for authentication
  */
 export const setAuthToken = (token: string) => {
   if (token) {
     api.defaults.headers.common['Authorization'] = `Bearer ${token}`;
+    scheduleTokenRefresh(token);
   } else {
-    delete api.defaults.headers.common['Authorization'];
+    clearAuthToken();
   }
 };
 
 /**
- * Removes the authorization header from API requests
+ * Removes the authorization header from API requests and cancels any scheduled refresh
  * Used during logout or when clearing authentication state
  */
 export const clearAuthToken = () => {
   delete api.defaults.headers.common['Authorization'];
+  if (refreshTimer) {
+    clearTimeout(refreshTimer);
+    refreshTimer = null;
+  }
 };
 
-// --- Axios Interceptor for Token Refresh ---
+// --- Token Refresh ---
+
+/** Refreshes in flight by refresh token; concurrent callers for the same account share one */
+const refreshPromises = new Map<string, Promise<string>>();
 
-/** Flag to prevent multiple simultaneous token refresh attempts */
-let isRefreshing = false;
+/**
+ * Exchanges the stored refresh token for a new access token
+ *
+ * Concurrent calls for the active account share a single request. When the
+ * backend rotates refresh tokens, the new refresh token replaces the stored one
+ * of the account it was issued for. If the backend rejects the refresh token
+ * that account is removed, and a `sessionExpired` auth event is emitted when it
+ * was the active one; network failures leave it intact so the refresh can be retried.
+ *
+ * @returns {Promise<string>} The new access token
+ * @throws {ApiError} When there is no refresh token or the refresh fails
+ */
+export const refreshAccessToken = async (): Promise<string> => {
+  const storedTokens = await storage.getTokens();
+  if (!storedTokens?.refresh) {
+    throw new ApiError('auth', 'Your session has expired. Please log in again.');
+  }
 
-/** Queue of failed requests waiting for token refresh */
-let failedQueue: { resolve: (token: string) => void; reject: (error: any) => void }[] = [];
+  let refreshPromise = refreshPromises.get(storedTokens.refresh);
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      try {
+        // Uses a bare request (no interceptors) that still honours demo mode
+        const { data } = await axios.post<{ access: string; refresh?: string }>(
+          'auth/token/refresh/',
+          { refresh: storedTokens.refresh },
+          { baseURL: getApiBaseUrl(), adapter: api.defaults.adapter }
+        );
+        const newTokens: Tokens = {
+          access: data.access,
+          refresh: data.refresh ?? storedTokens.refresh,
+        };
+
+        // The user may have switched accounts meanwhile: store the tokens with
+        // the account they belong to and only touch the session if it is still active
+        await storage.setTokens(newTokens, storedTokens);
+        if ((await storage.getTokens())?.refresh === newTokens.refresh) {
+          setAuthToken(newTokens.access);
+          emitAuthEvent({ type: 'tokensRefreshed', tokens: newTokens });
+        }
+        return newTokens.access;
+      } catch (refreshError) {
+        const error = toApiError(refreshError);
+        if (error.kind === 'auth') {
+          const wasActive = (await storage.getTokens())?.refresh === storedTokens.refresh;
+          await storage.clearTokens(storedTokens);
+          if (wasActive) {
+            clearAuthToken();
+            emitAuthEvent({ type: 'sessionExpired' });
+          }
+        }
+        throw error;
+      }
+    })().finally(() => {
+      refreshPromises.delete(storedTokens.refresh);
+    });
+    refreshPromises.set(storedTokens.refresh, refreshPromise);
+  }
+  return refreshPromise;
+};
 
 /**
- * Processes the queue of failed requests after token refresh
- * 
- * @param {any} error - Error from token refresh attempt, if any
- * @param {string|null} token - New access token if refresh was successful
- */
-const processQueue = (error: any, token: string | null = null) => {
-  failedQueue.forEach(prom => {
-    if (error) {
-      prom.reject(error);
-    } else {
-      prom.resolve(token!);
+ * Refreshes the access token if it expires soon
+ * Called when the app returns to the foreground, where timers may not have fired.
+ *
+ * @returns {Promise<void>} Resolves once the token is fresh (or refreshing failed)
+ */
+export const refreshTokenIfExpiring = async (): Promise<void> => {
+  const storedTokens = await storage.getTokens();
+  if (!storedTokens?.access) {
+    return;
+  }
+  if (isTokenExpiring(storedTokens.access, REFRESH_LEEWAY)) {
+    try {
+      await refreshAccessToken();
+    } catch (error) {
+      console.error('Token refresh on foreground failed:', error);
     }
-  });
-  failedQueue = [];
+  } else {
+    scheduleTokenRefresh(storedTokens.access);
+  }
 };
 
 /**
- * Response interceptor for automatic token refresh
+ * Returns the bearer token attached to a request, if any
+ *
+ * @param {any} header - Authorization header value
+ * @returns {string|null} The token without its `Bearer ` prefix
+ */
+const getBearerToken = (header: any): string | null =>
+  typeof header === 'string' && header.startsWith('Bearer ') ? header.slice('Bearer '.length) : null;
+
+// --- Axios Interceptors ---
+
+/**
+ * Request interceptor for proactive token refresh
+ *
+ * Before an authenticated request is sent with an access token that has
+ * expired or is about to, the token is refreshed first so the request does
+ * not need a failed round trip. If the refresh fails the request is sent
+ * as-is and the response interceptor handles the outcome.
+ */
+api.interceptors.request.use(async config => {
+  const token = getBearerToken(config.headers.Authorization);
+  if (token && isTokenExpiring(token, REFRESH_LEEWAY)) {
+    try {
+      const newAccessToken = await refreshAccessToken();
+      config.headers.Authorization = `Bearer ${newAccessToken}`;
+    } catch {
+      // Fall through; a 401 response is handled below
+    }
+  }
+  return config;
+});
+
+/**
+ * Response interceptor for token refresh after a 401 and for transient failures
  * 
- * Intercepts 401 (Unauthorized) responses and attempts to refresh the access token.
- * Queues failed requests and retries them with the new token upon successful refresh.
- * Handles token refresh failures by clearing stored tokens and rejecting requests.
+ * Covers tokens that expired without a readable `exp` claim or were revoked
+ * early. Refreshes the access token once and retries the request with it.
+ * Requests sent without a token (e.g. a login with wrong credentials) keep
+ * the backend's 401 instead.
+ * Idempotent requests failing with network errors, 5xx or 429 are retried
+ * according to the retry policy.
+ * Every rejection leaving the client is normalized into an ApiError.
  */
 api.interceptors.response.use(
   response => response,
   async error => {
     const originalRequest = error.config;
-    if (error.response?.status === 401 && !originalRequest._retry) {
-      if (isRefreshing) {
-        return new Promise((resolve, reject) => {
-          failedQueue.push({ resolve, reject });
-        })
-          .then(token => {
-            originalRequest.headers['Authorization'] = 'Bearer ' + token;
-            return axios(originalRequest);
-          })
-          .catch(err => {
-            return Promise.reject(err);
-          });
-      }
-
+    if (
+      error.response?.status === 401 &&
+      originalRequest &&
+      !originalRequest._retry &&
+      getBearerToken(originalRequest.headers?.Authorization)
+    ) {
       originalRequest._retry = true;
-      isRefreshing = true;
-
-      const storedTokens = await storage.getTokens();
-      if (!storedTokens?.refresh) {
-        isRefreshing = false;
-        return Promise.reject(error);
-      }
-
       try {
-        const { data } = await axios.post< { access: string } >(
-          `${API_BASE_URL}auth/token/refresh/`,
-          { refresh: storedTokens.refresh }
-        );
-        const newAccessToken = data.access;
-        const newTokens: Tokens = { ...storedTokens, access: newAccessToken };
-
-        await storage.setTokens(newTokens);
-        setAuthToken(newAccessToken);
-
+        const newAccessToken = await refreshAccessToken();
         originalRequest.headers['Authorization'] = `Bearer ${newAccessToken}`;
-        processQueue(null, newAccessToken); 
-
         return api(originalRequest);
       } catch (refreshError) {
-        processQueue(refreshError, null);
         console.error('Token refresh failed:', refreshError);
-        await storage.clearTokens();
-        clearAuthToken();
-        return Promise.reject(refreshError);
-      } finally {
-        isRefreshing = false;
+        return Promise.reject(toApiError(refreshError));
       }
     }
 
-    return Promise.reject(error);
+    const retryDelay = getRetryDelay(error);
+    if (retryDelay !== null) {
+      originalRequest._retryCount = (originalRequest._retryCount ?? 0) + 1;
+      await wait(retryDelay);
+      return api(originalRequest);
+    }
+
+    return Promise.reject(toApiError(error));
   }
-);
\ No newline at end of file
+);
@@ -0,0 +1,229 @@
+/**
+ * @fileoverview Normalized API error type and error classification
+ *
+ * This file turns raw axios failures into a single ApiError shape:
+ * - Classification into network, auth, forbidden, validation, not-found, conflict, throttling and server errors
+ * - A separate `canceled` kind for requests aborted by the app itself
+ * - A readable message derived from DRF `detail` / `non_field_errors` payloads
+ * - Per-field messages that forms can feed straight into Formik `setErrors`
+ *
+ * Every request made through the `api` client rejects with an ApiError,
+ * so screens never have to inspect `error.response.data` themselves.
+ */
+
+import axios from 'axios';
+
+/** Category of an API failure */
+export type ApiErrorKind =
+  | 'network'
+  | 'auth'
+  | 'forbidden'
+  | 'validation'
+  | 'not_found'
+  | 'conflict'
+  | 'throttled'
+  | 'server'
+  | 'canceled'
+  | 'unknown';
+
+/** Fallback messages shown when the backend does not provide one */
+const DEFAULT_MESSAGES: Record<ApiErrorKind, string> = {
+  network: 'Could not connect to the server. Please check your network connection.',
+  auth: 'You are not authorized to perform this action.',
+  forbidden: 'You do not have permission to perform this action.',
+  validation: 'Some of the submitted information is invalid.',
+  not_found: 'The requested item could not be found.',
+  conflict: 'This item was changed by someone else.',
+  throttled: 'Too many requests. Please wait a moment and try again.',
+  server: 'The server encountered an error. Please try again later.',
+  canceled: 'The request was canceled.',
+  unknown: 'An unexpected error occurred.',
+};
+
+/** DRF keys that carry messages not bound to a specific field */
+const NON_FIELD_KEYS = ['detail', 'non_field_errors'];
+
+/**
+ * Normalized error produced by the API client
+ *
+ * @property {ApiErrorKind} kind - Category of the failure
+ * @property {number} [status] - HTTP status code, if a response was received
+ * @property {Record<string, string>} fieldErrors - Messages keyed by request field name
+ * @property {unknown} data - Raw response body, kept for logging
+ */
+export class ApiError extends Error {
+  kind: ApiErrorKind;
+  status?: number;
+  fieldErrors: Record<string, string>;
+  data: unknown;
+
+  constructor(
+    kind: ApiErrorKind,
+    message: string,
+    options: { status?: number; fieldErrors?: Record<string, string>; data?: unknown } = {},
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = options.status;
+    this.fieldErrors = options.fieldErrors ?? {};
+    this.data = options.data;
+  }
+}
+
+/**
+ * Type guard for ApiError instances
+ *
+ * @param {unknown} error - Value to check
+ * @returns {boolean} Whether the value is an ApiError
+ */
+export const isApiError = (error: unknown): error is ApiError => error instanceof ApiError;
+
+/**
+ * Checks whether a request failed only because the app aborted it
+ * Such failures are expected (e.g. a screen was left) and should not be shown.
+ *
+ * @param {unknown} error - Error thrown by a request
+ * @returns {boolean} True if the request was canceled
+ */
+export const isCanceledError = (error: unknown): boolean => toApiError(error).kind === 'canceled';
+
+/**
+ * Maps an HTTP status code to an error category
+ *
+ * @param {number} status - HTTP status code
+ * @returns {ApiErrorKind} Error category for the status
+ */
+const classifyStatus = (status: number): ApiErrorKind => {
+  if (status === 401) return 'auth';
+  if (status === 403) return 'forbidden';
+  if (status === 400 || status === 422) return 'validation';
+  if (status === 404) return 'not_found';
+  if (status === 409 || status === 412) return 'conflict';
+  if (status === 429) return 'throttled';
+  if (status >= 500) return 'server';
+  return 'unknown';
+};
+
+/**
+ * Flattens a DRF error value (string, list or nested object) into one message
+ *
+ * @param {unknown} value - Error value from the response body
+ * @returns {string} Flattened message
+ */
+const flattenMessage = (value: unknown): string => {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return value.map(flattenMessage).join(' ');
+  if (value && typeof value === 'object') {
+    return Object.values(value).map(flattenMessage).join(' ');
+  }
+  return String(value);
+};
+
+/**
+ * Extracts per-field messages and a general message from a DRF response body
+ *
+ * @param {unknown} data - Response body
+ * @returns {{fieldErrors: Record<string, string>, message: string | null}} Parsed messages
+ */
+const parseResponseData = (data: unknown): { fieldErrors: Record<string, string>; message: string | null } => {
+  if (typeof data === 'string') {
+    // HTML error pages are not useful to show to the user
+    return { fieldErrors: {}, message: data && !data.trim().startsWith('<') ? data : null };
+  }
+  if (Array.isArray(data)) {
+    return { fieldErrors: {}, message: flattenMessage(data) || null };
+  }
+  if (!data || typeof data !== 'object') {
+    return { fieldErrors: {}, message: null };
+  }
+
+  const fieldErrors: Record<string, string> = {};
+  const generalMessages: string[] = [];
+  Object.entries(data).forEach(([key, value]) => {
+    if (NON_FIELD_KEYS.includes(key)) {
+      generalMessages.push(flattenMessage(value));
+    } else {
+      fieldErrors[key] = flattenMessage(value);
+    }
+  });
+  return { fieldErrors, message: generalMessages.length > 0 ? generalMessages.join('\n') : null };
+};
+
+/**
+ * Converts any thrown value into an ApiError
+ *
+ * ApiErrors are passed through unchanged, so the conversion is safe to
+ * apply more than once along the interceptor chain.
+ *
+ * @param {unknown} error - Error thrown by axios or application code
+ * @returns {ApiError} Normalized error
+ */
+export const toApiError = (error: unknown): ApiError => {
+  if (isApiError(error)) {
+    return error;
+  }
+
+  if (axios.isCancel(error)) {
+    return new ApiError('canceled', DEFAULT_MESSAGES.canceled);
+  }
+
+  if (axios.isAxiosError(error)) {
+    if (!error.response) {
+      return new ApiError('network', DEFAULT_MESSAGES.network);
+    }
+
+    const { status, data } = error.response;
+    const kind = classifyStatus(status);
+    const { fieldErrors, message } = parseResponseData(data);
+    const fieldSummary = Object.entries(fieldErrors)
+      .map(([key, value]) => `${key}: ${value}`)
+      .join('\n');
+
+    return new ApiError(kind, message || fieldSummary || DEFAULT_MESSAGES[kind], {
+      status,
+      fieldErrors,
+      data,
+    });
+  }
+
+  const message = error instanceof Error && error.message ? error.message : DEFAULT_MESSAGES.unknown;
+  return new ApiError('unknown', message);
+};
+
+/**
+ * Splits an error into Formik field errors and a message for everything else
+ *
+ * Field errors whose key matches one of the form's values are returned in
+ * `errors`, ready for Formik's `setErrors`. Anything that cannot be shown
+ * inline (general messages, unknown fields, network failures) is combined
+ * into `message`, which is null when every problem was mapped to a field.
+ *
+ * @param {unknown} error - Error thrown by a service call
+ * @param {Values} values - Current form values, used to know which fields exist
+ * @returns {{errors: Partial<Record<keyof Values, string>>, message: string | null}} Form errors and leftover message
+ */
+export const getFormErrors = <Values extends object>(
+  error: unknown,
+  values: Values,
+): { errors: Partial<Record<keyof Values, string>>; message: string | null } => {
+  const apiError = toApiError(error);
+  const errors: Partial<Record<keyof Values, string>> = {};
+  const unmapped: string[] = [];
+
+  Object.entries(apiError.fieldErrors).forEach(([key, value]) => {
+    if (key in values) {
+      errors[key as keyof Values] = value;
+    } else {
+      unmapped.push(`${key}: ${value}`);
+    }
+  });
+
+  if (Object.keys(apiError.fieldErrors).length === 0) {
+    return { errors, message: apiError.message };
+  }
+
+  const { message: generalMessage } = parseResponseData(apiError.data);
+  const leftovers = [generalMessage, ...unmapped].filter(Boolean);
+  return { errors, message: leftovers.length > 0 ? leftovers.join('\n') : null };
+};
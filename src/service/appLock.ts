@@ -0,0 +1,156 @@
+/**
+ * @fileoverview App lock PIN storage and verification
+ *
+ * This file provides the rules of the optional app lock:
+ * - Setting a PIN, stored only as a salted hash
+ * - Verifying entered PINs and counting failed attempts, also across restarts
+ * - Choosing how long the app may stay idle or in the background before it locks
+ * - Turning the app lock off
+ *
+ * AppLockContext decides when to lock and what happens after too many wrong
+ * PINs; this module only owns the stored settings and the PIN checks.
+ */
+
+import * as storage from '../utils/storage';
+import { sha256 } from '../utils/sha256';
+
+/** Wrong PINs in a row after which the app signs every account out */
+export const MAX_PIN_ATTEMPTS = 5;
+
+/** Idle or background periods (ms) the user can choose from before the app locks */
+export const IDLE_TIMEOUT_OPTIONS = [1, 5, 15, 30].map(minutes => minutes * 60 * 1000);
+
+/** Idle or background period (ms) used until the user chooses one */
+export const DEFAULT_IDLE_TIMEOUT = 5 * 60 * 1000;
+
+/** Hashing rounds, making each guess against a leaked hash more expensive */
+const PIN_HASH_ITERATIONS = 200;
+
+/**
+ * Stored app lock settings
+ *
+ * @interface AppLockSettings
+ * @property {string} pinHash - Salted hash of the PIN
+ * @property {string} salt - Random salt the PIN was hashed with
+ * @property {number} idleTimeout - Idle or background period (ms) before the app locks
+ * @property {number} failedAttempts - Wrong PINs entered in a row
+ */
+export interface AppLockSettings {
+  pinHash: string;
+  salt: string;
+  idleTimeout: number;
+  failedAttempts: number;
+}
+
+/**
+ * Result of checking an entered PIN
+ * - correct: the PIN matched (or the app lock is off)
+ * - wrong: the PIN did not match; more attempts are allowed
+ * - lockedOut: the last allowed attempt failed and the app lock was turned off
+ */
+export type PinCheckResult =
+  | { type: 'correct' }
+  | { type: 'wrong'; attemptsLeft: number }
+  | { type: 'lockedOut' };
+
+/**
+ * Creates a random salt
+ * Math.random is not a secure source, but the salt only has to differ
+ * between installs; the PIN is protected by the attempt limit and the
+ * encrypted store.
+ *
+ * @returns {string} 32 hex characters
+ */
+const createSalt = (): string =>
+  Array.from({ length: 32 }, () => Math.floor(Math.random() * 16).toString(16)).join('');
+
+/**
+ * Hashes a PIN with a salt
+ *
+ * @param {string} pin - PIN to hash
+ * @param {string} salt - Salt to hash it with
+ * @returns {string} Hex digest
+ */
+const hashPin = (pin: string, salt: string): string => {
+  let hash = sha256(salt + pin);
+  for (let i = 1; i < PIN_HASH_ITERATIONS; i++) {
+    hash = sha256(hash + salt + pin);
+  }
+  return hash;
+};
+
+/**
+ * Retrieves the app lock settings
+ *
+ * @returns {Promise<AppLockSettings|null>} The settings, or null if the app lock is off
+ */
+export const getAppLockSettings = (): Promise<AppLockSettings | null> => storage.getAppLockSettings();
+
+/**
+ * Turns the app lock on with a new PIN
+ *
+ * @param {string} pin - The chosen PIN
+ * @param {number} idleTimeout - Idle or background period (ms) before the app locks
+ * @returns {Promise<AppLockSettings>} The stored settings
+ */
+export const setPin = async (pin: string, idleTimeout: number): Promise<AppLockSettings> => {
+  const salt = createSalt();
+  const settings: AppLockSettings = { pinHash: hashPin(pin, salt), salt, idleTimeout, failedAttempts: 0 };
+  await storage.setAppLockSettings(settings);
+  return settings;
+};
+
+/**
+ * Changes how long the app may stay idle or in the background before it locks
+ *
+ * @param {number} idleTimeout - Idle or background period (ms)
+ * @returns {Promise<AppLockSettings|null>} The updated settings, or null if the app lock is off
+ */
+export const setIdleTimeout = async (idleTimeout: number): Promise<AppLockSettings | null> => {
+  const settings = await storage.getAppLockSettings();
+  if (!settings) {
+    return null;
+  }
+  const updated = { ...settings, idleTimeout };
+  await storage.setAppLockSettings(updated);
+  return updated;
+};
+
+/**
+ * Checks an entered PIN
+ * Failed attempts are persisted, so restarting the app does not reset them.
+ * After MAX_PIN_ATTEMPTS wrong PINs in a row the app lock is turned off and
+ * the caller is expected to sign every account out.
+ *
+ * @param {string} pin - The entered PIN
+ * @returns {Promise<PinCheckResult>} Whether the PIN matched
+ */
+export const verifyPin = async (pin: string): Promise<PinCheckResult> => {
+  const settings = await storage.getAppLockSettings();
+  if (!settings) {
+    return { type: 'correct' };
+  }
+
+  if (hashPin(pin, settings.salt) === settings.pinHash) {
+    if (settings.failedAttempts > 0) {
+      // Never keep the user locked out because the counter could not be reset
+      await storage.setAppLockSettings({ ...settings, failedAttempts: 0 }).catch(() => undefined);
+    }
+    return { type: 'correct' };
+  }
+
+  const failedAttempts = settings.failedAttempts + 1;
+  if (failedAttempts >= MAX_PIN_ATTEMPTS) {
+    await storage.clearAppLockSettings();
+    return { type: 'lockedOut' };
+  }
+  await storage.setAppLockSettings({ ...settings, failedAttempts });
+  return { type: 'wrong', attemptsLeft: MAX_PIN_ATTEMPTS - failedAttempts };
+};
+
+/**
+ * Turns the app lock off and forgets the PIN
+ *
+ * @returns {Promise<void>} Resolves once the settings are removed
+ */
+export const removePin = (): Promise<void> => storage.clearAppLockSettings();
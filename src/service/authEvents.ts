@@ -0,0 +1,53 @@
+/**
+ * @fileoverview Auth event channel between the API client and AuthContext
+ *
+ * This file provides a small publish/subscribe channel for authentication events:
+ * - `tokensRefreshed` when the API client stored a new token pair
+ * - `sessionExpired` when the session can no longer be refreshed
+ *
+ * The API client lives outside React, so it cannot update auth state itself;
+ * it emits events here and AuthContext subscribes to them.
+ */
+
+import { Tokens } from '../types';
+
+/**
+ * An authentication event emitted by the API client
+ */
+export type AuthEvent =
+  | { type: 'tokensRefreshed'; tokens: Tokens }
+  | { type: 'sessionExpired' };
+
+/** Callback invoked for every auth event */
+export type AuthEventListener = (event: AuthEvent) => void;
+
+/** Currently subscribed listeners */
+const listeners = new Set<AuthEventListener>();
+
+/**
+ * Subscribes to auth events
+ *
+ * @param {AuthEventListener} listener - Called for every emitted event
+ * @returns {Function} Unsubscribe function
+ */
+export const subscribeToAuthEvents = (listener: AuthEventListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Notifies every subscriber of an auth event
+ *
+ * @param {AuthEvent} event - Event to emit
+ */
+export const emitAuthEvent = (event: AuthEvent) => {
+  listeners.forEach(listener => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('Auth event listener failed:', error);
+    }
+  });
+};
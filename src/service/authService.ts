@@ -5,17 +5,82 @@
  * - User registration and login
  * - User logout
  * - Profile retrieval and updates
+ * - Password reset by emailed code, with client-side resend throttling
+ * - Email verification by emailed code, with the same resend throttling
+ * - Password change for the signed-in user
+ * - Personal data export and account deletion
  * 
  * All functions use the configured API client with proper error handling
  * and return typed responses for type safety.
  */
 
 import { api } from './api';
-import { User, Tokens } from '../types';
-import { LoginCredentials, RegisterData } from '../utils/validation';
+import { ApiError } from './apiError';
+import { getMovies } from './movieService';
+import { Movie, User, Tokens, UserDataExport } from '../types';
+import {
+  ChangePasswordData,
+  DeleteAccountData,
+  LoginCredentials,
+  RegisterData,
+  ResetPasswordData,
+} from '../utils/validation';
+
+/** Minimum time between two requests for the same emailed code (ms) */
+export const CODE_RESEND_INTERVAL = 60 * 1000;
+
+/** Kind of code the backend emails */
+type EmailCodePurpose = 'passwordReset' | 'verification';
+
+/** When a code was last requested, keyed by purpose and normalized email */
+const codeRequestTimes = new Map<string, number>();
+
+/**
+ * Builds the key under which a code request is remembered
+ * 
+ * @param {EmailCodePurpose} purpose - Kind of code
+ * @param {string} email - Email the code is sent to
+ * @returns {string} Key for codeRequestTimes
+ */
+const getCodeRequestKey = (purpose: EmailCodePurpose, email: string): string =>
+  `${purpose}:${email.trim().toLowerCase()}`;
+
+/**
+ * Returns how long the user has to wait before a code can be requested again
+ * 
+ * @param {EmailCodePurpose} purpose - Kind of code
+ * @param {string} email - Email the code is sent to
+ * @returns {number} Remaining wait in whole seconds, 0 if a code can be requested now
+ */
+const getCodeCooldown = (purpose: EmailCodePurpose, email: string): number => {
+  const requestedAt = codeRequestTimes.get(getCodeRequestKey(purpose, email));
+  if (requestedAt === undefined) {
+    return 0;
+  }
+  return Math.max(0, Math.ceil((requestedAt + CODE_RESEND_INTERVAL - Date.now()) / 1000));
+};
+
+/**
+ * Sends a code request unless the same code was requested too recently
+ * 
+ * @param {EmailCodePurpose} purpose - Kind of code
+ * @param {string} email - Email the code is sent to
+ * @param {Function} send - Performs the request
+ * @returns {Promise<void>} Resolves when the request was accepted
+ * @throws {ApiError} With kind `throttled` when called again within CODE_RESEND_INTERVAL
+ */
+const requestCode = async (purpose: EmailCodePurpose, email: string, send: () => Promise<unknown>) => {
+  const cooldown = getCodeCooldown(purpose, email);
+  if (cooldown > 0) {
+    throw new ApiError('throttled', `Please wait ${cooldown} seconds before requesting another code.`);
+  }
+  await send();
+  codeRequestTimes.set(getCodeRequestKey(purpose, email), Date.now());
+};
 
 /**
  * Registers a new user account
+ * The new user is signed in right away but starts with an unverified email address.
  * 
  * @param {RegisterData} data - User registration information
  * @returns {Promise<{user: User, tokens: Tokens}>} User data and authentication tokens
@@ -23,6 +88,8 @@ import { LoginCredentials, RegisterData } from '../utils/validation';
  */
 export const register = async (data: RegisterData): Promise<{ user: User; tokens: Tokens }> => {
   const response = await api.post('/auth/register/', data);
+  // The backend emails a verification code right away, which starts the resend cooldown
+  codeRequestTimes.set(getCodeRequestKey('verification', response.data.user.email), Date.now());
   return response.data;
 };
 
@@ -75,3 +142,136 @@ export const updateUserProfile = async (data: FormData): Promise<User> => {
   });
   return response.data;
 };
+
+/**
+ * Returns how long the user has to wait before another reset code can be requested
+ * 
+ * @param {string} email - Email the code is sent to
+ * @returns {number} Remaining wait in whole seconds, 0 if a code can be requested now
+ */
+export const getPasswordResetCooldown = (email: string): number => getCodeCooldown('passwordReset', email);
+
+/**
+ * Asks the backend to email a password reset code
+ * 
+ * The backend answers the same way whether or not an account exists for the
+ * email, so the result reveals nothing about registered users.
+ * 
+ * @param {string} email - Email of the account to reset
+ * @returns {Promise<void>} Resolves when the request was accepted
+ * @throws {ApiError} With kind `throttled` when called again within CODE_RESEND_INTERVAL
+ */
+export const requestPasswordReset = (email: string): Promise<void> =>
+  requestCode('passwordReset', email, () => api.post('/auth/password/reset/', { email }));
+
+/**
+ * Sets a new password using an emailed reset code
+ * 
+ * @param {string} email - Email the code was sent to
+ * @param {ResetPasswordData} data - Reset code and the new password with its confirmation
+ * @returns {Promise<void>} Resolves when the password was changed
+ * @throws {ApiError} When the code is wrong or expired, or the password is rejected
+ */
+export const confirmPasswordReset = async (email: string, data: ResetPasswordData): Promise<void> => {
+  await api.post('/auth/password/reset/confirm/', { email, ...data });
+};
+
+/**
+ * Changes the signed-in user's password
+ * 
+ * The backend answers with a new access token and blacklists the given refresh
+ * token when it rotates refresh tokens; a backend that does not rotate them
+ * omits the refresh token, and the current one is kept. With
+ * `signOutOtherSessions`, every other token issued to the user stops working as well.
+ * 
+ * @param {ChangePasswordData} data - Current password and the new password with its confirmation
+ * @param {string} refreshToken - Refresh token of this session, replaced by the returned one
+ * @param {boolean} signOutOtherSessions - Whether to end the user's sessions on other devices
+ * @returns {Promise<Tokens>} Tokens replacing the current ones
+ * @throws {ApiError} When the current password is wrong or the new password is rejected
+ */
+export const changePassword = async (
+  data: ChangePasswordData,
+  refreshToken: string,
+  signOutOtherSessions: boolean,
+): Promise<Tokens> => {
+  const { data: tokens } = await api.post<{ access: string; refresh?: string }>('/auth/password/change/', {
+    ...data,
+    refresh: refreshToken,
+    logout_other_sessions: signOutOtherSessions,
+  });
+  return { access: tokens.access, refresh: tokens.refresh ?? refreshToken };
+};
+
+/**
+ * Confirms the signed-in user's email address with the code sent after registration
+ * 
+ * @param {string} code - Code from the verification email
+ * @returns {Promise<User>} Updated user profile, now marked as verified
+ * @throws {ApiError} When the code is wrong or expired
+ */
+export const verifyEmail = async (code: string): Promise<User> => {
+  const response = await api.post('/auth/email/verify/', { code });
+  return response.data;
+};
+
+/**
+ * Returns how long the user has to wait before another verification code can be requested
+ * 
+ * @param {string} email - Email the code is sent to
+ * @returns {number} Remaining wait in whole seconds, 0 if a code can be requested now
+ */
+export const getVerificationResendCooldown = (email: string): number => getCodeCooldown('verification', email);
+
+/**
+ * Asks the backend to send the signed-in user a new verification code
+ * 
+ * @param {string} email - The user's email, used for throttling
+ * @returns {Promise<void>} Resolves when the request was accepted
+ * @throws {ApiError} With kind `throttled` when called again within CODE_RESEND_INTERVAL
+ */
+export const resendVerificationEmail = (email: string): Promise<void> =>
+  requestCode('verification', email, () => api.post('/auth/email/verify/resend/'));
+
+/**
+ * Collects the signed-in user's data for an export
+ * 
+ * Built from the profile and the movie list, since the backend has no export
+ * endpoint: every page of the list is read, keeping the movies the user added
+ * and the reviews they wrote (each movie carries the user's own review).
+ * 
+ * @returns {Promise<UserDataExport>} Profile, reviews and created movies
+ * @throws {ApiError} When one of the requests fails
+ */
+export const exportUserData = async (): Promise<UserDataExport> => {
+  const user = await getUserProfile();
+  const movies: Movie[] = [];
+  let page = 1;
+  let hasMore = true;
+  while (hasMore) {
+    const { results, next } = await getMovies(page);
+    movies.push(...results);
+    hasMore = next !== null;
+    page += 1;
+  }
+
+  return {
+    user,
+    reviews: movies.flatMap(movie => (movie.user_review ? [{ ...movie.user_review, movie: movie.id }] : [])),
+    movies: movies.filter(movie => movie.created_by === user.id),
+  };
+};
+
+/**
+ * Permanently deletes the signed-in user's account
+ * 
+ * The backend removes the user together with their reviews, movies and
+ * favorites; every token issued to the user stops working.
+ * 
+ * @param {DeleteAccountData} data - The user's password, confirming the deletion
+ * @returns {Promise<void>} Resolves once the account is deleted
+ * @throws {ApiError} When the password is wrong or the deletion fails
+ */
+export const deleteAccount = async (data: DeleteAccountData): Promise<void> => {
+  await api.delete('/auth/user/', { data });
+};
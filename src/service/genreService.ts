@@ -0,0 +1,98 @@
+/**
+ * @fileoverview Genre service loading the backend's genre list
+ *
+ * This file provides the genres movies can be assigned to:
+ * - Fetching the list from the backend (`GET /genres/`)
+ * - Persisting the fetched list with a format version and the backend it came from
+ * - Falling back to the persisted list, then to the bundled one, when offline
+ *
+ * GenreContext keeps the loaded list for pickers and displays. The backend
+ * owns the genre ids, so they are only ever sent from a list it returned,
+ * except while nothing could be loaded yet.
+ */
+
+import { api, getApiBaseUrl, isDemoModeEnabled } from './api';
+import { Genre } from '../types';
+import { BUNDLED_GENRES } from '../data/genres';
+import * as storage from '../utils/storage';
+
+/** Format version of the persisted genre list; persisted lists of other versions are ignored */
+export const GENRE_CACHE_VERSION = 1;
+
+/** How long a fetched genre list is used before it is fetched again (ms) */
+export const GENRES_TTL = 24 * 60 * 60 * 1000;
+
+/**
+ * Persisted genre list
+ *
+ * @interface StoredGenres
+ * @property {number} version - GENRE_CACHE_VERSION at the time it was written
+ * @property {string} source - Backend the list was fetched from
+ * @property {number} fetchedAt - Timestamp (ms) of the fetch
+ * @property {Genre[]} genres - The backend's genres
+ */
+export interface StoredGenres {
+  version: number;
+  source: string;
+  fetchedAt: number;
+  genres: Genre[];
+}
+
+/**
+ * A loaded genre list
+ *
+ * @interface LoadedGenres
+ * @property {Genre[]} genres - Genres to offer and display
+ * @property {'backend'|'persisted'|'bundled'} origin - Where the list came from
+ * @property {boolean} isStale - Whether the list should be fetched again
+ */
+export interface LoadedGenres {
+  genres: Genre[];
+  origin: 'backend' | 'persisted' | 'bundled';
+  isStale: boolean;
+}
+
+/**
+ * Identifies the backend in use, so a list fetched from another one is never used
+ *
+ * @returns {string} Backend identifier
+ */
+const currentSource = (): string => `${isDemoModeEnabled() ? 'demo:' : ''}${getApiBaseUrl()}`;
+
+/**
+ * Retrieves the genre list from the backend
+ *
+ * @returns {Promise<Genre[]>} The backend's genres
+ * @throws {Error} When the genres cannot be fetched
+ */
+export const getGenres = async (): Promise<Genre[]> => {
+  const response = await api.get<Genre[]>('/genres/');
+  return response.data;
+};
+
+/**
+ * Reads the persisted genre list, or the bundled one if nothing usable is persisted
+ * A persisted list is only used if it has the current format version and was
+ * fetched from the backend in use.
+ *
+ * @returns {Promise<LoadedGenres>} Persisted or bundled genres
+ */
+export const readGenres = async (): Promise<LoadedGenres> => {
+  const stored = await storage.getGenres();
+  if (stored && stored.version === GENRE_CACHE_VERSION && stored.source === currentSource()) {
+    return { genres: stored.genres, origin: 'persisted', isStale: Date.now() - stored.fetchedAt > GENRES_TTL };
+  }
+  return { genres: BUNDLED_GENRES, origin: 'bundled', isStale: true };
+};
+
+/**
+ * Fetches the genre list from the backend and persists it
+ *
+ * @returns {Promise<LoadedGenres>} The backend's genres
+ * @throws {Error} When the genres cannot be fetched
+ */
+export const refreshGenres = async (): Promise<LoadedGenres> => {
+  const genres = await getGenres();
+  await storage.setGenres({ version: GENRE_CACHE_VERSION, source: currentSource(), fetchedAt: Date.now(), genres });
+  return { genres, origin: 'backend', isStale: false };
+};
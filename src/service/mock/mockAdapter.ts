@@ -0,0 +1,926 @@
+/**
+ * @fileoverview Axios adapter implementing the backend API in-process
+ *
+ * This file provides the request handling for demo mode and tests:
+ * - Routing of every endpoint the services call (auth, movies, reviews)
+ * - DRF-style validation errors and permission checks
+ * - JWT-style authentication with expiring access tokens (401 on expiry)
+ * - Token refresh with refresh-token rotation, and logout (refresh token revocation)
+ * - Password reset by emailed code (the code is logged instead of emailed)
+ * - Password change, optionally revoking the user's other sessions
+ * - Email verification by emailed code; unverified users cannot create movies or reviews
+ * - Password-confirmed account deletion
+ * - Genre listing (`/genres/`)
+ * - Paginated movie listing with DRF-style `search` across title, director and cast
+ *   and a `genres` filter matching all or any of the given genre ids (`genre_match`)
+ * - Movie list filters by release year, duration, minimum rating and director
+ * - DRF-style `ordering` of the movie list, e.g. `-average_rating`
+ * - Conditional movie updates (`If-Match` against `updated_at`)
+ *
+ * Installed on the `api` client when demo mode is on, so requests never
+ * leave the device and go through the same interceptors as real traffic.
+ */
+
+import {
+  AxiosAdapter,
+  AxiosError,
+  AxiosHeaders,
+  AxiosResponse,
+  CanceledError,
+  InternalAxiosRequestConfig,
+} from 'axios';
+import { Movie } from '../../types';
+import {
+  db,
+  issueTokenPair,
+  verifyToken,
+  serializeUser,
+  serializeMovie,
+  serializeReview,
+  takeNextId,
+  MockMovie,
+  MockEmailCode,
+} from './mockStore';
+
+/** Simulated network latency (ms) so loading states remain visible */
+export const MOCK_LATENCY = 250;
+
+/** Number of movies per page, matching the backend's pagination */
+const PAGE_SIZE = 10;
+
+/** Numeric movie list filters, each a bound on one movie property */
+const MOVIE_RANGE_FILTERS = ['year_min', 'year_max', 'duration_min', 'duration_max', 'rating_min'] as const;
+
+/** Fields the movie list can be ordered by */
+const MOVIE_ORDERING_FIELDS = ['average_rating', 'release_date', 'title', 'duration', 'id'] as const;
+
+/** Minimum time between two emailed codes of the same kind for one user (ms) */
+const EMAIL_CODE_THROTTLE = 60 * 1000;
+
+/** How long an emailed code is accepted (ms) */
+const EMAIL_CODE_LIFETIME = 15 * 60 * 1000;
+
+/** Message DRF returns for required fields */
+const REQUIRED = 'This field is required.';
+
+/**
+ * Parsed request passed to route handlers
+ *
+ * @interface MockRequest
+ * @property {string[]} params - Values captured by the route pattern
+ * @property {Record<string, string>} query - Query string parameters
+ * @property {Record<string, unknown>} body - Parsed request body
+ * @property {number|null} userId - Authenticated user, if any
+ * @property {string} baseURL - Base URL of the request, used for pagination links
+ * @property {AxiosHeaders} headers - Request headers
+ */
+interface MockRequest {
+  params: string[];
+  query: Record<string, string>;
+  body: Record<string, unknown>;
+  userId: number | null;
+  baseURL: string;
+  headers: AxiosHeaders;
+}
+
+/**
+ * Response produced by a route handler
+ *
+ * @interface MockResponse
+ * @property {number} status - HTTP status code
+ * @property {unknown} [data] - Response body
+ */
+interface MockResponse {
+  status: number;
+  data?: unknown;
+}
+
+/**
+ * Route definition
+ *
+ * @interface Route
+ * @property {string} method - HTTP method (lowercase)
+ * @property {RegExp} pattern - Path pattern; capture groups become `params`
+ * @property {boolean} requiresAuth - Whether a valid access token is required
+ * @property {Function} handler - Function producing the response
+ */
+interface Route {
+  method: string;
+  pattern: RegExp;
+  requiresAuth: boolean;
+  handler: (request: MockRequest) => MockResponse;
+}
+
+// --- REQUEST PARSING ---
+
+/**
+ * Splits a request URL into its path (relative to the API root) and query
+ *
+ * @param {InternalAxiosRequestConfig} config - Request configuration
+ * @returns {{path: string, query: Record<string, string>}} Path and query parameters
+ */
+const parseUrl = (config: InternalAxiosRequestConfig) => {
+  let url = config.url ?? '';
+  if (config.baseURL && url.startsWith(config.baseURL)) {
+    url = url.slice(config.baseURL.length);
+  }
+  const [rawPath, rawQuery = ''] = url.split('?');
+  const path = `/${rawPath.replace(/^\/+/, '')}`;
+
+  const query: Record<string, string> = {};
+  rawQuery.split('&').filter(Boolean).forEach(pair => {
+    const [key, value = ''] = pair.split('=');
+    query[decodeURIComponent(key)] = decodeURIComponent(value.replace(/\+/g, ' '));
+  });
+  Object.entries(config.params ?? {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) {
+      query[key] = String(value);
+    }
+  });
+  return { path, query };
+};
+
+/** A part of a React Native FormData body */
+type FormDataPart = { fieldName: string; string?: string };
+
+/**
+ * Tells whether a value is a plain object, e.g. a parsed JSON body
+ *
+ * @param {unknown} value - Value to check
+ * @returns {boolean} Whether the value is a non-array object
+ */
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Parses a request body sent as JSON or as (React Native) FormData
+ *
+ * @param {unknown} data - Body after axios' request transforms
+ * @returns {Record<string, unknown>} Parsed body, empty when there is none
+ */
+const parseBody = (data: unknown): Record<string, unknown> => {
+  if (typeof data === 'string') {
+    try {
+      const parsed: unknown = JSON.parse(data);
+      return isRecord(parsed) ? parsed : {};
+    } catch {
+      return {};
+    }
+  }
+  if (isRecord(data) && typeof data.getParts === 'function') {
+    const parts: FormDataPart[] = data.getParts();
+    return Object.fromEntries(parts.map(part => [part.fieldName, part.string]));
+  }
+  if (isRecord(data) && typeof data.entries === 'function') {
+    return Object.fromEntries(data.entries());
+  }
+  return isRecord(data) ? data : {};
+};
+
+// --- VALIDATION HELPERS ---
+
+/**
+ * Collects DRF-style `{field: [messages]}` errors
+ */
+class ValidationErrors {
+  errors: Record<string, string[]> = {};
+
+  add(field: string, message: string) {
+    (this.errors[field] = this.errors[field] ?? []).push(message);
+  }
+
+  required(body: Record<string, unknown>, fields: string[]) {
+    fields.forEach(field => {
+      if (body[field] === undefined || body[field] === null || String(body[field]).trim() === '') {
+        this.add(field, REQUIRED);
+      }
+    });
+  }
+
+  get isEmpty() {
+    return Object.keys(this.errors).length === 0;
+  }
+}
+
+const badRequest = (data: unknown): MockResponse => ({ status: 400, data });
+const notFound = (): MockResponse => ({ status: 404, data: { detail: 'Not found.' } });
+const forbidden = (): MockResponse => ({
+  status: 403,
+  data: { detail: 'You do not have permission to perform this action.' },
+});
+const throttled = (wait: number): MockResponse => ({
+  status: 429,
+  data: { detail: `Request was throttled. Expected available in ${wait} seconds.` },
+});
+
+/**
+ * Checks whether a user still has to verify their email address
+ *
+ * @param {number|null} userId - Authenticated user
+ * @returns {MockResponse|null} 403 response for unverified users, null otherwise
+ */
+const requireVerifiedEmail = (userId: number | null): MockResponse | null => {
+  const user = db.users.find(candidate => candidate.id === userId);
+  return user?.email_verified
+    ? null
+    : { status: 403, data: { detail: 'Please verify your email address first.' } };
+};
+
+/**
+ * Issues a six-digit code and "emails" it by logging it, since demo mode cannot send mail
+ *
+ * @param {string} purpose - What the code is for, shown in the log
+ * @param {string} email - Recipient
+ * @returns {MockEmailCode} The issued code
+ */
+const sendEmailCode = (purpose: string, email: string): MockEmailCode => {
+  const now = Date.now();
+  const code = String(Math.floor(Math.random() * 1000000)).padStart(6, '0');
+  console.info(`[mock backend] ${purpose} code for ${email}: ${code}`);
+  return { code, requestedAt: now, expiresAt: now + EMAIL_CODE_LIFETIME };
+};
+
+/**
+ * Returns how long to wait before another code may be sent
+ *
+ * @param {MockEmailCode} [previous] - Code sent last, if any
+ * @returns {number} Remaining wait in whole seconds, 0 if a code may be sent now
+ */
+const getEmailCodeWait = (previous?: MockEmailCode): number =>
+  previous ? Math.max(0, Math.ceil((previous.requestedAt + EMAIL_CODE_THROTTLE - Date.now()) / 1000)) : 0;
+
+/**
+ * Checks an entered code against the one that was sent
+ *
+ * @param {MockEmailCode|undefined} sent - Code that was sent, if any
+ * @param {unknown} entered - Code from the request body
+ * @returns {boolean} Whether the code matches and has not expired
+ */
+const isValidEmailCode = (sent: MockEmailCode | undefined, entered: unknown): boolean =>
+  !!sent && sent.code === String(entered) && sent.expiresAt > Date.now();
+
+/**
+ * Validates movie fields and converts them into a stored movie's shape
+ *
+ * @param {Record<string, unknown>} body - Request body
+ * @param {boolean} partial - Whether missing fields are allowed (PATCH)
+ * @returns {{errors: ValidationErrors, values: Partial<MockMovie>}} Validation result and cleaned values
+ */
+const validateMovie = (body: Record<string, unknown>, partial: boolean) => {
+  const errors = new ValidationErrors();
+  const values: Partial<MockMovie> = {};
+  const present = (field: string) => body[field] !== undefined;
+
+  if (!partial) {
+    errors.required(body, ['title', 'description', 'release_date', 'duration', 'director', 'cast', 'poster_url']);
+  }
+  (['title', 'description', 'director', 'cast'] as const).forEach(field => {
+    if (present(field) && String(body[field]).trim() !== '') {
+      values[field] = String(body[field]);
+    }
+  });
+  if (present('release_date') && body.release_date !== '') {
+    const releaseDate = String(body.release_date);
+    if (/^\d{4}-\d{2}-\d{2}$/.test(releaseDate) && !isNaN(Date.parse(releaseDate))) {
+      values.release_date = releaseDate;
+    } else {
+      errors.add('release_date', 'Date has wrong format. Use one of these formats instead: YYYY-MM-DD.');
+    }
+  }
+  if (present('duration') && body.duration !== '') {
+    const duration = Number(body.duration);
+    if (!Number.isInteger(duration)) {
+      errors.add('duration', 'A valid integer is required.');
+    } else if (duration <= 0) {
+      errors.add('duration', 'Ensure this value is greater than or equal to 1.');
+    } else {
+      values.duration = duration;
+    }
+  }
+  if (present('poster_url') && body.poster_url !== '') {
+    const posterUrl = String(body.poster_url);
+    if (/^https?:\/\/\S+$/.test(posterUrl)) {
+      values.poster = posterUrl;
+    } else {
+      errors.add('poster_url', 'Enter a valid URL.');
+    }
+  }
+  if (present('genres') || !partial) {
+    const genres: unknown[] = Array.isArray(body.genres) ? body.genres : [];
+    const invalid = genres.find(id => !db.genres.some(genre => genre.id === Number(id)));
+    if (genres.length === 0) {
+      errors.add('genres', 'This list may not be empty.');
+    } else if (invalid !== undefined) {
+      errors.add('genres', `Invalid pk "${invalid}" - object does not exist.`);
+    } else {
+      values.genres = genres.map(Number);
+    }
+  }
+  return { errors, values };
+};
+
+/**
+ * Validates review fields
+ *
+ * @param {Record<string, unknown>} body - Request body
+ * @returns {{errors: ValidationErrors, rating: number, comment: string}} Validation result and cleaned values
+ */
+const validateReview = (body: Record<string, unknown>) => {
+  const errors = new ValidationErrors();
+  const rating = Number(body.rating);
+  if (body.rating === undefined || body.rating === null || body.rating === '') {
+    errors.add('rating', REQUIRED);
+  } else if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+    errors.add('rating', 'Rating must be between 1 and 5.');
+  }
+  return { errors, rating, comment: body.comment ? String(body.comment) : '' };
+};
+
+// --- HANDLERS ---
+
+const register = ({ body }: MockRequest): MockResponse => {
+  const errors = new ValidationErrors();
+  errors.required(body, ['username', 'email', 'first_name', 'last_name', 'password', 'password_confirm']);
+  if (body.username && String(body.username).length < 3) {
+    errors.add('username', 'Ensure this field has at least 3 characters.');
+  }
+  if (body.username && db.users.some(user => user.username === body.username)) {
+    errors.add('username', 'A user with that username already exists.');
+  }
+  if (body.email && !/^\S+@\S+\.\S+$/.test(String(body.email))) {
+    errors.add('email', 'Enter a valid email address.');
+  } else if (body.email && db.users.some(user => user.email === String(body.email).toLowerCase())) {
+    errors.add('email', 'A user with that email already exists.');
+  }
+  if (body.password && String(body.password).length < 8) {
+    errors.add('password', 'This password is too short. It must contain at least 8 characters.');
+  }
+  if (body.password && body.password_confirm && body.password !== body.password_confirm) {
+    errors.add('password_confirm', "Password fields didn't match.");
+  }
+  if (!errors.isEmpty) {
+    return badRequest(errors.errors);
+  }
+
+  const user = {
+    id: takeNextId('user'),
+    username: String(body.username),
+    email: String(body.email).toLowerCase(),
+    first_name: String(body.first_name),
+    last_name: String(body.last_name),
+    password: String(body.password),
+    email_verified: false,
+  };
+  db.users.push(user);
+  db.emailVerifications.set(user.id, sendEmailCode('Email verification', user.email));
+  return { status: 201, data: { user: serializeUser(user), tokens: issueTokenPair(user.id) } };
+};
+
+const login = ({ body }: MockRequest): MockResponse => {
+  const errors = new ValidationErrors();
+  errors.required(body, ['email', 'password']);
+  if (!errors.isEmpty) {
+    return badRequest(errors.errors);
+  }
+  const user = db.users.find(
+    candidate => candidate.email === String(body.email).toLowerCase() && candidate.password === body.password,
+  );
+  if (!user) {
+    return { status: 401, data: { detail: 'No active account found with the given credentials' } };
+  }
+  return { status: 200, data: { ...issueTokenPair(user.id), user: serializeUser(user) } };
+};
+
+const logout = ({ body }: MockRequest): MockResponse => {
+  if (!body.refresh_token) {
+    return badRequest({ refresh_token: [REQUIRED] });
+  }
+  db.revokedTokens.add(String(body.refresh_token));
+  return { status: 205 };
+};
+
+const refreshToken = ({ body }: MockRequest): MockResponse => {
+  if (!body.refresh) {
+    return badRequest({ refresh: [REQUIRED] });
+  }
+  const userId = verifyToken(String(body.refresh), 'refresh');
+  if (userId === null) {
+    return { status: 401, data: { detail: 'Token is invalid or expired', code: 'token_not_valid' } };
+  }
+  // Rotate the refresh token and blacklist the old one, like SimpleJWT's
+  // ROTATE_REFRESH_TOKENS + BLACKLIST_AFTER_ROTATION settings
+  db.revokedTokens.add(String(body.refresh));
+  return { status: 200, data: issueTokenPair(userId) };
+};
+
+const requestPasswordReset = ({ body }: MockRequest): MockResponse => {
+  const errors = new ValidationErrors();
+  errors.required(body, ['email']);
+  if (!errors.isEmpty) {
+    return badRequest(errors.errors);
+  }
+  const email = String(body.email).toLowerCase();
+  const wait = getEmailCodeWait(db.passwordResets.get(email));
+  if (wait > 0) {
+    return throttled(wait);
+  }
+  // Unknown emails get the same answer so the endpoint cannot be used to probe for accounts
+  if (db.users.some(user => user.email === email)) {
+    db.passwordResets.set(email, sendEmailCode('Password reset', email));
+  }
+  return { status: 200, data: { detail: 'If an account exists for this email, a reset code has been sent.' } };
+};
+
+const confirmPasswordReset = ({ body }: MockRequest): MockResponse => {
+  const errors = new ValidationErrors();
+  errors.required(body, ['email', 'code', 'password', 'password_confirm']);
+  if (body.password && String(body.password).length < 8) {
+    errors.add('password', 'This password is too short. It must contain at least 8 characters.');
+  }
+  if (body.password && body.password_confirm && body.password !== body.password_confirm) {
+    errors.add('password_confirm', "Password fields didn't match.");
+  }
+  if (!errors.isEmpty) {
+    return badRequest(errors.errors);
+  }
+  const email = String(body.email).toLowerCase();
+  const user = db.users.find(candidate => candidate.email === email);
+  if (!user || !isValidEmailCode(db.passwordResets.get(email), body.code)) {
+    return badRequest({ code: ['This code is invalid or has expired.'] });
+  }
+  user.password = String(body.password);
+  db.passwordResets.delete(email);
+  return { status: 200, data: { detail: 'Your password has been reset.' } };
+};
+
+const verifyEmail = ({ body, userId }: MockRequest): MockResponse => {
+  const user = db.users.find(candidate => candidate.id === userId)!;
+  if (!body.code) {
+    return badRequest({ code: [REQUIRED] });
+  }
+  if (!user.email_verified) {
+    if (!isValidEmailCode(db.emailVerifications.get(user.id), body.code)) {
+      return badRequest({ code: ['This code is invalid or has expired.'] });
+    }
+    user.email_verified = true;
+    db.emailVerifications.delete(user.id);
+  }
+  return { status: 200, data: serializeUser(user) };
+};
+
+const resendVerificationEmail = ({ userId }: MockRequest): MockResponse => {
+  const user = db.users.find(candidate => candidate.id === userId)!;
+  if (user.email_verified) {
+    return badRequest({ detail: 'Your email address is already verified.' });
+  }
+  const wait = getEmailCodeWait(db.emailVerifications.get(user.id));
+  if (wait > 0) {
+    return throttled(wait);
+  }
+  db.emailVerifications.set(user.id, sendEmailCode('Email verification', user.email));
+  return { status: 200, data: { detail: 'A new verification code has been sent.' } };
+};
+
+const changePassword = ({ body, userId }: MockRequest): MockResponse => {
+  const user = db.users.find(candidate => candidate.id === userId)!;
+  const errors = new ValidationErrors();
+  errors.required(body, ['old_password', 'new_password', 'new_password_confirm']);
+  if (body.old_password && body.old_password !== user.password) {
+    errors.add('old_password', 'Your old password was entered incorrectly. Please enter it again.');
+  }
+  if (body.new_password && String(body.new_password).length < 8) {
+    errors.add('new_password', 'This password is too short. It must contain at least 8 characters.');
+  }
+  if (body.new_password && body.new_password_confirm && body.new_password !== body.new_password_confirm) {
+    errors.add('new_password_confirm', "Password fields didn't match.");
+  }
+  if (!errors.isEmpty) {
+    return badRequest(errors.errors);
+  }
+  user.password = String(body.new_password);
+  if (body.refresh) {
+    db.revokedTokens.add(String(body.refresh));
+  }
+  if (body.logout_other_sessions) {
+    db.tokenVersions.set(user.id, (db.tokenVersions.get(user.id) ?? 0) + 1);
+  }
+  return { status: 200, data: issueTokenPair(user.id) };
+};
+
+const getUser = ({ userId }: MockRequest): MockResponse => {
+  const user = db.users.find(candidate => candidate.id === userId)!;
+  return { status: 200, data: serializeUser(user) };
+};
+
+const updateProfile = ({ body, userId }: MockRequest): MockResponse => {
+  const user = db.users.find(candidate => candidate.id === userId)!;
+  const errors = new ValidationErrors();
+  ['first_name', 'last_name'].forEach(field => {
+    if (body[field] !== undefined && String(body[field]).trim() === '') {
+      errors.add(field, 'This field may not be blank.');
+    }
+  });
+  if (!errors.isEmpty) {
+    return badRequest(errors.errors);
+  }
+  if (body.first_name !== undefined) user.first_name = String(body.first_name);
+  if (body.last_name !== undefined) user.last_name = String(body.last_name);
+  return { status: 200, data: serializeUser(user) };
+};
+
+const deleteAccount = ({ body, userId }: MockRequest): MockResponse => {
+  const user = db.users.find(candidate => candidate.id === userId)!;
+  const errors = new ValidationErrors();
+  errors.required(body, ['password']);
+  if (body.password && body.password !== user.password) {
+    errors.add('password', 'Your password was entered incorrectly. Please enter it again.');
+  }
+  if (!errors.isEmpty) {
+    return badRequest(errors.errors);
+  }
+  // Removing the user invalidates their tokens, since verifyToken requires an existing user
+  const movieIds = db.movies.filter(movie => movie.created_by === user.id).map(movie => movie.id);
+  db.users = db.users.filter(candidate => candidate !== user);
+  db.movies = db.movies.filter(movie => !movieIds.includes(movie.id));
+  db.reviews = db.reviews.filter(review => review.user !== user.id && !movieIds.includes(review.movie));
+  db.favorites = db.favorites.filter(favorite => favorite.user !== user.id && !movieIds.includes(favorite.movie));
+  db.emailVerifications.delete(user.id);
+  return { status: 204 };
+};
+
+/**
+ * Tells whether a movie matches a search query
+ * Like DRF's SearchFilter, every whitespace-separated term has to appear
+ * (case-insensitively) in at least one of the searched fields.
+ *
+ * @param {MockMovie} movie - Stored movie
+ * @param {string} search - Search query
+ * @returns {boolean} Whether the movie matches
+ */
+const matchesSearch = (movie: MockMovie, search: string): boolean => {
+  const fields = [movie.title, movie.director, movie.cast].map(field => field.toLowerCase());
+  return search
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every(term => fields.some(field => field.includes(term)));
+};
+
+/**
+ * Tells whether a movie has the requested genres
+ *
+ * @param {MockMovie} movie - Movie to check
+ * @param {number[]} genres - Requested genre ids; an empty list matches every movie
+ * @param {string} match - 'all' to require every genre, anything else for at least one
+ * @returns {boolean} Whether the movie matches
+ */
+const matchesGenres = (movie: MockMovie, genres: number[], match: string): boolean => {
+  if (genres.length === 0) return true;
+  return match === 'all'
+    ? genres.every(genre => movie.genres.includes(genre))
+    : genres.some(genre => movie.genres.includes(genre));
+};
+
+/**
+ * Tells whether a movie lies within the requested bounds and has the requested director
+ *
+ * @param {Movie} movie - Serialized movie, including its average rating
+ * @param {Object} ranges - Requested bounds by filter name
+ * @param {string} director - Text the director's name has to contain, empty for any
+ * @returns {boolean} Whether the movie matches
+ */
+const matchesFilters = (
+  movie: Movie,
+  ranges: Partial<Record<(typeof MOVIE_RANGE_FILTERS)[number], number>>,
+  director: string,
+): boolean => {
+  const within = (value: number | undefined, min?: number, max?: number) =>
+    (min === undefined && max === undefined) ||
+    (value !== undefined && (min === undefined || value >= min) && (max === undefined || value <= max));
+  return (
+    within(Number(movie.release_date.slice(0, 4)), ranges.year_min, ranges.year_max) &&
+    within(movie.duration, ranges.duration_min, ranges.duration_max) &&
+    within(movie.average_rating, ranges.rating_min) &&
+    movie.director.toLowerCase().includes(director.toLowerCase())
+  );
+};
+
+/**
+ * Compares two movies by one field, for sorting
+ * Movies without a value (unrated movies) always sort last, in both directions.
+ *
+ * @param {Movie} a - First movie
+ * @param {Movie} b - Second movie
+ * @param {string} ordering - Ordering field, prefixed with `-` for descending order
+ * @returns {number} Negative if `a` comes first, positive if `b` does
+ */
+const compareMovies = (a: Movie, b: Movie, ordering: string): number => {
+  const descending = ordering.startsWith('-');
+  const field = (descending ? ordering.slice(1) : ordering) as (typeof MOVIE_ORDERING_FIELDS)[number];
+  const left = a[field];
+  const right = b[field];
+  if (left === right) return a.id - b.id;
+  if (left === undefined) return 1;
+  if (right === undefined) return -1;
+  const order = typeof left === 'string' ? left.localeCompare(String(right)) : left - Number(right);
+  return descending ? -order : order;
+};
+
+const listGenres = (): MockResponse => ({ status: 200, data: db.genres });
+
+const listMovies = ({ query, userId, baseURL }: MockRequest): MockResponse => {
+  const search = query.search ?? '';
+  const genres = (query.genres ?? '').split(',').filter(Boolean).map(Number);
+  if (query.genre_match && !['all', 'any'].includes(query.genre_match)) {
+    return badRequest({ genre_match: ['Must be "all" or "any".'] });
+  }
+  if (genres.some(genre => !Number.isInteger(genre))) {
+    return badRequest({ genres: ['Enter a comma-separated list of genre ids.'] });
+  }
+  const ranges: Partial<Record<(typeof MOVIE_RANGE_FILTERS)[number], number>> = {};
+  for (const key of MOVIE_RANGE_FILTERS) {
+    if (query[key] === undefined) continue;
+    const value = Number(query[key]);
+    if (query[key] === '' || Number.isNaN(value)) {
+      return badRequest({ [key]: ['Enter a number.'] });
+    }
+    ranges[key] = value;
+  }
+  const ordering = query.ordering ?? 'id';
+  if (!MOVIE_ORDERING_FIELDS.some(field => ordering === field || ordering === `-${field}`)) {
+    return badRequest({ ordering: [`Cannot order by "${ordering}".`] });
+  }
+  const movies = db.movies
+    .filter(movie => matchesSearch(movie, search) && matchesGenres(movie, genres, query.genre_match ?? 'any'))
+    .map(movie => serializeMovie(movie, userId))
+    .filter(movie => matchesFilters(movie, ranges, query.director ?? ''))
+    .sort((a, b) => compareMovies(a, b, ordering));
+  const page = query.page ? Number(query.page) : 1;
+  const start = (page - 1) * PAGE_SIZE;
+  if (!Number.isInteger(page) || page < 1 || (page > 1 && start >= movies.length)) {
+    return { status: 404, data: { detail: 'Invalid page.' } };
+  }
+  const results = movies.slice(start, start + PAGE_SIZE);
+  // Next and previous pages keep every filter of this request
+  const filterParams = Object.entries(query)
+    .filter(([key]) => key !== 'page')
+    .map(([key, value]) => `&${key}=${encodeURIComponent(value)}`)
+    .join('');
+  const pageUrl = (target: number) => `${baseURL}movies/?page=${target}${filterParams}`;
+  return {
+    status: 200,
+    data: {
+      count: movies.length,
+      next: start + PAGE_SIZE < movies.length ? pageUrl(page + 1) : null,
+      previous: page > 1 ? pageUrl(page - 1) : null,
+      results,
+    },
+  };
+};
+
+const getMovie = ({ params, userId }: MockRequest): MockResponse => {
+  const movie = db.movies.find(candidate => candidate.id === Number(params[0]));
+  return movie ? { status: 200, data: serializeMovie(movie, userId, true) } : notFound();
+};
+
+const createMovie = ({ body, userId }: MockRequest): MockResponse => {
+  const unverified = requireVerifiedEmail(userId);
+  if (unverified) return unverified;
+  const { errors, values } = validateMovie(body, false);
+  if (!errors.isEmpty) {
+    return badRequest(errors.errors);
+  }
+  const movie = {
+    ...(values as MockMovie),
+    id: takeNextId('movie'),
+    created_by: userId!,
+    updated_at: new Date().toISOString(),
+  };
+  db.movies.push(movie);
+  return { status: 201, data: serializeMovie(movie, userId, true) };
+};
+
+/**
+ * Returns a modification timestamp that is guaranteed to differ from the previous one,
+ * so back-to-back updates within the same millisecond still get distinct versions
+ *
+ * @param {string} [previous] - Previous `updated_at`
+ * @returns {string} New `updated_at`
+ */
+const nextTimestamp = (previous?: string): string => {
+  const now = Date.now();
+  const last = previous ? Date.parse(previous) : 0;
+  return new Date(Math.max(now, last + 1)).toISOString();
+};
+
+/**
+ * Builds a handler updating a movie with PUT (full) or PATCH (partial) semantics
+ * Honours `If-Match` with the movie's `updated_at` and answers 412 when it is outdated.
+ *
+ * @param {boolean} partial - Whether missing fields are allowed
+ * @returns {Function} Route handler
+ */
+const updateMovie = (partial: boolean) => ({ params, body, userId, headers }: MockRequest): MockResponse => {
+  const movie = db.movies.find(candidate => candidate.id === Number(params[0]));
+  if (!movie) return notFound();
+  if (movie.created_by !== userId) return forbidden();
+
+  const ifMatch = headers.get('If-Match');
+  if (typeof ifMatch === 'string' && ifMatch !== `"${movie.updated_at}"`) {
+    return { status: 412, data: { detail: 'This movie was changed by someone else since you loaded it.' } };
+  }
+
+  const { errors, values } = validateMovie(body, partial);
+  if (!errors.isEmpty) {
+    return badRequest(errors.errors);
+  }
+  Object.assign(movie, values, { updated_at: nextTimestamp(movie.updated_at) });
+  return { status: 200, data: serializeMovie(movie, userId, true) };
+};
+
+const deleteMovie = ({ params, userId }: MockRequest): MockResponse => {
+  const movie = db.movies.find(candidate => candidate.id === Number(params[0]));
+  if (!movie) return notFound();
+  if (movie.created_by !== userId) return forbidden();
+  db.movies = db.movies.filter(candidate => candidate !== movie);
+  db.reviews = db.reviews.filter(review => review.movie !== movie.id);
+  db.favorites = db.favorites.filter(favorite => favorite.movie !== movie.id);
+  return { status: 204 };
+};
+
+const createReview = ({ params, body, userId }: MockRequest): MockResponse => {
+  const movieId = Number(params[0]);
+  if (!db.movies.some(movie => movie.id === movieId)) return notFound();
+  const unverified = requireVerifiedEmail(userId);
+  if (unverified) return unverified;
+  if (db.reviews.some(review => review.movie === movieId && review.user === userId)) {
+    return badRequest({ non_field_errors: ['You have already reviewed this movie.'] });
+  }
+  const { errors, rating, comment } = validateReview(body);
+  if (!errors.isEmpty) {
+    return badRequest(errors.errors);
+  }
+  const review = {
+    id: takeNextId('review'),
+    movie: movieId,
+    user: userId!,
+    rating,
+    comment,
+    created_at: new Date().toISOString(),
+    user_name: db.users.find(user => user.id === userId)?.username,
+  };
+  db.reviews.push(review);
+  return { status: 201, data: serializeReview(review) };
+};
+
+const updateReview = ({ params, body, userId }: MockRequest): MockResponse => {
+  const review = db.reviews.find(candidate => candidate.id === Number(params[0]));
+  if (!review) return notFound();
+  if (review.user !== userId) return forbidden();
+  const { errors, rating, comment } = validateReview(body);
+  if (!errors.isEmpty) {
+    return badRequest(errors.errors);
+  }
+  Object.assign(review, { rating, comment });
+  return { status: 200, data: serializeReview(review) };
+};
+
+const deleteReview = ({ params, userId }: MockRequest): MockResponse => {
+  const review = db.reviews.find(candidate => candidate.id === Number(params[0]));
+  if (!review) return notFound();
+  if (review.user !== userId) return forbidden();
+  db.reviews = db.reviews.filter(candidate => candidate !== review);
+  return { status: 204 };
+};
+
+/** Every endpoint the app's services call */
+const routes: Route[] = [
+  { method: 'post', pattern: /^\/auth\/register\/$/, requiresAuth: false, handler: register },
+  { method: 'post', pattern: /^\/auth\/login\/$/, requiresAuth: false, handler: login },
+  { method: 'post', pattern: /^\/auth\/logout\/$/, requiresAuth: true, handler: logout },
+  { method: 'post', pattern: /^\/auth\/token\/refresh\/$/, requiresAuth: false, handler: refreshToken },
+  { method: 'post', pattern: /^\/auth\/password\/reset\/$/, requiresAuth: false, handler: requestPasswordReset },
+  {
+    method: 'post',
+    pattern: /^\/auth\/password\/reset\/confirm\/$/,
+    requiresAuth: false,
+    handler: confirmPasswordReset,
+  },
+  { method: 'post', pattern: /^\/auth\/email\/verify\/$/, requiresAuth: true, handler: verifyEmail },
+  {
+    method: 'post',
+    pattern: /^\/auth\/email\/verify\/resend\/$/,
+    requiresAuth: true,
+    handler: resendVerificationEmail,
+  },
+  { method: 'post', pattern: /^\/auth\/password\/change\/$/, requiresAuth: true, handler: changePassword },
+  { method: 'get', pattern: /^\/auth\/user\/$/, requiresAuth: true, handler: getUser },
+  { method: 'patch', pattern: /^\/auth\/profile\/$/, requiresAuth: true, handler: updateProfile },
+  { method: 'delete', pattern: /^\/auth\/user\/$/, requiresAuth: true, handler: deleteAccount },
+  { method: 'get', pattern: /^\/genres\/$/, requiresAuth: false, handler: listGenres },
+  { method: 'get', pattern: /^\/movies\/$/, requiresAuth: true, handler: listMovies },
+  { method: 'post', pattern: /^\/movies\/$/, requiresAuth: true, handler: createMovie },
+  { method: 'put', pattern: /^\/movies\/reviews\/(\d+)\/$/, requiresAuth: true, handler: updateReview },
+  { method: 'delete', pattern: /^\/movies\/reviews\/(\d+)\/$/, requiresAuth: true, handler: deleteReview },
+  { method: 'get', pattern: /^\/movies\/(\d+)\/$/, requiresAuth: true, handler: getMovie },
+  { method: 'put', pattern: /^\/movies\/(\d+)\/$/, requiresAuth: true, handler: updateMovie(false) },
+  { method: 'patch', pattern: /^\/movies\/(\d+)\/$/, requiresAuth: true, handler: updateMovie(true) },
+  { method: 'delete', pattern: /^\/movies\/(\d+)\/$/, requiresAuth: true, handler: deleteMovie },
+  { method: 'post', pattern: /^\/movies\/(\d+)\/reviews\/$/, requiresAuth: true, handler: createReview },
+];
+
+/**
+ * Resolves a request against the route table, including authentication
+ *
+ * @param {InternalAxiosRequestConfig} config - Request configuration
+ * @returns {MockResponse} Response for the request
+ */
+const handleRequest = (config: InternalAxiosRequestConfig): MockResponse => {
+  const method = (config.method ?? 'get').toLowerCase();
+  const { path, query } = parseUrl(config);
+
+  const pathRoutes = routes.filter(candidate => candidate.pattern.test(path));
+  if (pathRoutes.length === 0) {
+    return notFound();
+  }
+  const route = pathRoutes.find(candidate => candidate.method === method);
+  if (!route) {
+    return { status: 405, data: { detail: `Method "${method.toUpperCase()}" not allowed.` } };
+  }
+
+  const authorization = AxiosHeaders.from(config.headers).get('Authorization');
+  const token = typeof authorization === 'string' ? authorization.replace(/^Bearer\s+/, '') : null;
+  const userId = token ? verifyToken(token, 'access') : null;
+  if (route.requiresAuth && userId === null) {
+    return {
+      status: 401,
+      data: token
+        ? { detail: 'Given token not valid for any token type', code: 'token_not_valid' }
+        : { detail: 'Authentication credentials were not provided.' },
+    };
+  }
+
+  return route.handler({
+    params: path.match(route.pattern)!.slice(1),
+    query,
+    body: parseBody(config.data),
+    userId,
+    baseURL: config.baseURL ?? '',
+    headers: AxiosHeaders.from(config.headers),
+  });
+};
+
+/**
+ * Axios adapter serving requests from the in-memory mock backend
+ *
+ * Resolves 2xx responses and rejects others with an AxiosError carrying the
+ * response, exactly like axios' network adapters, so interceptors and the
+ * ApiError normalization behave the same as against a real server.
+ * Requests aborted through `config.signal` reject with a CanceledError.
+ *
+ * @param {InternalAxiosRequestConfig} config - Request configuration
+ * @returns {Promise<AxiosResponse>} Mock response
+ */
+export const mockAdapter: AxiosAdapter = config =>
+  new Promise((resolve, reject) => {
+    const signal = config.signal as AbortSignal | undefined;
+    const rejectCanceled = () => reject(new CanceledError(undefined, undefined, config));
+    if (signal?.aborted) {
+      rejectCanceled();
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener?.('abort', onAbort);
+      const { status, data } = handleRequest(config);
+      const response: AxiosResponse = {
+        data: data ?? '',
+        status,
+        statusText: String(status),
+        headers: new AxiosHeaders({ 'Content-Type': 'application/json' }),
+        config,
+        request: {},
+      };
+      const validateStatus = config.validateStatus ?? (code => code >= 200 && code < 300);
+      if (validateStatus(status)) {
+        resolve(response);
+      } else {
+        reject(
+          new AxiosError(
+            `Request failed with status code ${status}`,
+            status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+            config,
+            response.request,
+            response,
+          ),
+        );
+      }
+    }, MOCK_LATENCY);
+
+    // Aborted requests are never handled, so they have no effect on the store
+    function onAbort() {
+      clearTimeout(timer);
+      rejectCanceled();
+    }
+    signal?.addEventListener?.('abort', onAbort);
+  });
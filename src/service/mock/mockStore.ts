@@ -0,0 +1,272 @@
+/**
+ * @fileoverview In-memory data store backing the mock backend
+ *
+ * This file holds the state of the demo-mode backend:
+ * - Users, movies, reviews and favorites seeded from the fixture JSON files
+ * - Genres seeded from the genre list bundled with the app
+ * - Identifier counters for newly created records
+ * - Issuing and verifying JWT-shaped access and refresh tokens
+ * - Pending password reset and email verification codes
+ * - Serializing records into the shapes the real API returns
+ *
+ * The store lives only in memory, so every app start (and every call to
+ * resetMockStore) begins again from the fixtures.
+ */
+
+import { BUNDLED_GENRES } from '../../data/genres';
+import { Favorite, Genre, Movie, Review, User } from '../../types';
+import { decodeBase64Url, encodeBase64Url } from '../../utils/base64';
+import usersFixture from './fixtures/users.json';
+import moviesFixture from './fixtures/movies.json';
+import reviewsFixture from './fixtures/reviews.json';
+import favoritesFixture from './fixtures/favorites.json';
+
+/** Lifetime of mock access tokens (seconds) */
+export const ACCESS_TOKEN_LIFETIME = 5 * 60;
+
+/** Lifetime of mock refresh tokens (seconds) */
+export const REFRESH_TOKEN_LIFETIME = 24 * 60 * 60;
+
+/**
+ * A user record including the credentials only the backend knows
+ */
+export interface MockUser extends User {
+  password: string;
+}
+
+/**
+ * A movie record as stored by the backend, with genres kept as ids
+ */
+export interface MockMovie extends Omit<Movie, 'genres' | 'reviews' | 'average_rating' | 'user_review'> {
+  genres: number[];
+}
+
+/**
+ * A review record including the movie it belongs to
+ */
+export interface MockReview extends Review {
+  movie: number;
+}
+
+/**
+ * A one-time code "emailed" to a user, waiting to be used
+ *
+ * @interface MockEmailCode
+ * @property {string} code - Six-digit code
+ * @property {number} requestedAt - When the code was issued (ms)
+ * @property {number} expiresAt - When the code stops being accepted (ms)
+ */
+export interface MockEmailCode {
+  code: string;
+  requestedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Complete state of the mock backend
+ *
+ * @interface MockDb
+ * @property {MockUser[]} users - Registered users
+ * @property {MockMovie[]} movies - Movies
+ * @property {Genre[]} genres - Genres movies can be assigned to
+ * @property {MockReview[]} reviews - Reviews of all movies
+ * @property {Favorite[]} favorites - Movies users marked as favorites
+ * @property {Set<string>} revokedTokens - Refresh tokens invalidated by logout
+ * @property {Map<string, MockEmailCode>} passwordResets - Pending reset codes by email
+ * @property {Map<number, MockEmailCode>} emailVerifications - Pending verification codes by user ID
+ * @property {Map<number, number>} tokenVersions - Token generation per user; bumping it revokes all older tokens
+ * @property {Object} nextIds - Next identifier to assign per record type
+ */
+export interface MockDb {
+  users: MockUser[];
+  movies: MockMovie[];
+  genres: Genre[];
+  reviews: MockReview[];
+  favorites: Favorite[];
+  revokedTokens: Set<string>;
+  passwordResets: Map<string, MockEmailCode>;
+  emailVerifications: Map<number, MockEmailCode>;
+  tokenVersions: Map<number, number>;
+  nextIds: { user: number; movie: number; review: number };
+}
+
+/** Type of a mock token, mirroring SimpleJWT's `token_type` claim */
+type TokenType = 'access' | 'refresh';
+
+/**
+ * Creates a fresh store from the fixtures
+ *
+ * @returns {MockDb} Newly seeded store
+ */
+const seedDb = (): MockDb => {
+  const users: MockUser[] = usersFixture.map(user => ({ ...user }));
+  const seededAt = new Date().toISOString();
+  const movies: MockMovie[] = moviesFixture.map(movie => ({
+    ...movie,
+    genres: [...movie.genres],
+    updated_at: seededAt,
+  }));
+  const reviews: MockReview[] = reviewsFixture.map(review => ({
+    ...review,
+    user_name: users.find(user => user.id === review.user)?.username,
+  }));
+  const nextId = (records: { id: number }[]) => Math.max(0, ...records.map(record => record.id)) + 1;
+
+  return {
+    users,
+    movies,
+    genres: BUNDLED_GENRES.map(genre => ({ ...genre })),
+    reviews,
+    favorites: favoritesFixture.map(favorite => ({ ...favorite })),
+    revokedTokens: new Set(),
+    passwordResets: new Map(),
+    emailVerifications: new Map(),
+    tokenVersions: new Map(),
+    nextIds: { user: nextId(users), movie: nextId(movies), review: nextId(reviews) },
+  };
+};
+
+/** The live store used by the mock adapter */
+export let db: MockDb = seedDb();
+
+/**
+ * Restores the store to the fixture data
+ * Used when demo mode is switched on and between tests
+ */
+export const resetMockStore = () => {
+  db = seedDb();
+};
+
+/**
+ * Returns the next identifier for a record type and advances the counter
+ *
+ * @param {keyof MockDb['nextIds']} type - Record type
+ * @returns {number} Identifier for the new record
+ */
+export const takeNextId = (type: keyof MockDb['nextIds']): number => db.nextIds[type]++;
+
+// --- TOKENS ---
+
+/**
+ * Encodes a value as a base64url JSON token segment
+ *
+ * @param {object} value - JSON-serializable value
+ * @returns {string} Encoded segment
+ */
+const encodeSegment = (value: object): string => encodeBase64Url(JSON.stringify(value));
+
+/**
+ * Decodes a base64url JSON token segment
+ *
+ * @param {string} segment - Encoded segment
+ * @returns {any} Decoded value, or null if the segment is malformed
+ */
+const decodeSegment = (segment: string): any => {
+  try {
+    return JSON.parse(decodeBase64Url(segment));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Issues a JWT-shaped token for a user
+ * The signature is a fixed marker; only the mock backend verifies these tokens.
+ *
+ * @param {number} userId - User the token belongs to
+ * @param {TokenType} type - Access or refresh token
+ * @returns {string} Encoded token
+ */
+export const issueToken = (userId: number, type: TokenType): string => {
+  const now = Math.floor(Date.now() / 1000);
+  const lifetime = type === 'access' ? ACCESS_TOKEN_LIFETIME : REFRESH_TOKEN_LIFETIME;
+  const payload = {
+    token_type: type,
+    user_id: userId,
+    iat: now,
+    exp: now + lifetime,
+    jti: Math.random().toString(36).slice(2),
+    ver: db.tokenVersions.get(userId) ?? 0,
+  };
+  return `${encodeSegment({ alg: 'none', typ: 'JWT' })}.${encodeSegment(payload)}.mock`;
+};
+
+/**
+ * Issues a new access/refresh token pair for a user
+ *
+ * @param {number} userId - User to issue tokens for
+ * @returns {{access: string, refresh: string}} Token pair
+ */
+export const issueTokenPair = (userId: number) => ({
+  access: issueToken(userId, 'access'),
+  refresh: issueToken(userId, 'refresh'),
+});
+
+/**
+ * Verifies a token and returns the user it belongs to
+ *
+ * @param {string} token - Encoded token
+ * @param {TokenType} type - Expected token type
+ * @returns {number|null} User ID, or null if the token is invalid, expired or revoked
+ */
+export const verifyToken = (token: string, type: TokenType): number | null => {
+  const [, payloadSegment] = token.split('.');
+  const payload = payloadSegment ? decodeSegment(payloadSegment) : null;
+  if (!payload || payload.token_type !== type || db.revokedTokens.has(token)) {
+    return null;
+  }
+  if (payload.exp * 1000 <= Date.now() || payload.ver !== (db.tokenVersions.get(payload.user_id) ?? 0)) {
+    return null;
+  }
+  return db.users.some(user => user.id === payload.user_id) ? payload.user_id : null;
+};
+
+// --- SERIALIZERS ---
+
+/**
+ * Returns the public representation of a user
+ *
+ * @param {MockUser} user - Stored user
+ * @returns {User} User without credentials
+ */
+export const serializeUser = (user: MockUser): User => {
+  const publicUser: Partial<MockUser> = { ...user };
+  delete publicUser.password;
+  return publicUser as User;
+};
+
+/**
+ * Returns the API representation of a review
+ *
+ * @param {MockReview} review - Stored review
+ * @returns {Review} Review without the movie reference
+ */
+export const serializeReview = (review: MockReview): Review => {
+  const apiReview: Partial<MockReview> = { ...review };
+  delete apiReview.movie;
+  return apiReview as Review;
+};
+
+/**
+ * Returns the API representation of a movie
+ *
+ * @param {MockMovie} movie - Stored movie
+ * @param {number|null} userId - Requesting user, used for `user_review`
+ * @param {boolean} [withReviews] - Whether to embed the movie's reviews (detail view)
+ * @returns {Movie} Movie as returned by the API
+ */
+export const serializeMovie = (movie: MockMovie, userId: number | null, withReviews = false): Movie => {
+  const reviews = db.reviews.filter(review => review.movie === movie.id);
+  const averageRating = reviews.length > 0
+    ? Math.round((reviews.reduce((sum, review) => sum + review.rating, 0) / reviews.length) * 10) / 10
+    : undefined;
+  const userReview = reviews.find(review => review.user === userId);
+
+  return {
+    ...movie,
+    genres: db.genres.filter(genre => movie.genres.includes(genre.id)),
+    average_rating: averageRating,
+    user_review: userReview ? serializeReview(userReview) : null,
+    ...(withReviews ? { reviews: reviews.map(serializeReview) } : {}),
+  };
+};
@@ -4,15 +4,16 @@
  * This file provides API functions for movie-related operations:
  * - Movie CRUD operations (Create, Read, Update, Delete)
  * - Review management (Create, Update, Delete)
- * - Paginated movie listing
- * - Genre information
+ * - Paginated movie listing, optionally narrowed by a search query, genres,
+ *   release year, duration, minimum rating and director, and sorted by an ordering
+ * - Cancellation of reads through AbortSignal
  * 
  * All functions use the configured API client with proper error handling
  * and return typed responses for type safety.
  */
 
 import { api } from './api';
-import { Movie, Review } from '../types';
+import { Movie, MovieCreateInput, MovieUpdateInput, Review } from '../types';
 
 /**
  * Response structure for paginated movie listings
@@ -31,65 +32,263 @@ export interface PaginatedMoviesResponse {
 }
 
 /**
- * Genre information structure
+ * Per-request options for reads that can be canceled
  * 
- * @interface Genre
- * @property {number} id - Unique identifier for the genre
- * @property {string} value - Genre value used in API calls
- * @property {string} label - Human-readable genre name
+ * @interface RequestOptions
+ * @property {AbortSignal} [signal] - Aborts the request when signaled
  */
-export interface Genre {
-  id: number;
-  value: string;
-  label: string;
+export interface RequestOptions {
+  signal?: AbortSignal;
 }
 
+/**
+ * How a movie has to match the selected genres
+ * - all: the movie has every selected genre
+ * - any: the movie has at least one of the selected genres
+ */
+export type GenreMatch = 'all' | 'any';
+
+/**
+ * Fields the movie list can be sorted by
+ * `id` follows the order movies were added in.
+ */
+export type MovieSortField = 'average_rating' | 'release_date' | 'title' | 'duration' | 'id';
+
+/**
+ * DRF-style ordering: a sort field, prefixed with `-` for descending order
+ */
+export type MovieOrdering = MovieSortField | `-${MovieSortField}`;
+
+/**
+ * Query narrowing down the movie list
+ * 
+ * @interface MovieQuery
+ * @property {string} [search] - Text matched against title, director and cast
+ * @property {number[]} [genres] - Ids of the genres to filter by
+ * @property {GenreMatch} [genreMatch] - How movies have to match the genres (defaults to any)
+ * @property {MovieOrdering} [ordering] - Sort order (defaults to the backend's order)
+ * @property {number} [yearMin] - Earliest release year
+ * @property {number} [yearMax] - Latest release year
+ * @property {number} [durationMin] - Shortest duration in minutes
+ * @property {number} [durationMax] - Longest duration in minutes
+ * @property {number} [ratingMin] - Lowest average rating; unrated movies are left out
+ * @property {string} [director] - Text the director's name has to contain
+ */
+export interface MovieQuery {
+  search?: string;
+  genres?: number[];
+  genreMatch?: GenreMatch;
+  ordering?: MovieOrdering;
+  yearMin?: number;
+  yearMax?: number;
+  durationMin?: number;
+  durationMax?: number;
+  ratingMin?: number;
+  director?: string;
+}
+
+/**
+ * The advanced filters of a movie query, set together in the filter sheet
+ */
+export type MovieFilters = Pick<
+  MovieQuery,
+  'yearMin' | 'yearMax' | 'durationMin' | 'durationMax' | 'ratingMin' | 'director'
+>;
+
+/**
+ * Query params of the numeric movie list filters
+ */
+const RANGE_PARAMS = {
+  yearMin: 'year_min',
+  yearMax: 'year_max',
+  durationMin: 'duration_min',
+  durationMax: 'duration_max',
+  ratingMin: 'rating_min',
+} as const;
+
+/**
+ * Builds the endpoint for a page of the movie list
+ * Also used as the cache key for that page, so each query is cached separately
+ * 
+ * @param {number} page - Page number
+ * @param {MovieQuery} [query] - Query narrowing down the list
+ * @returns {string} Movie list endpoint
+ */
+export const moviesEndpoint = (page: number, query: MovieQuery = {}): string => {
+  const params = [`page=${page}`];
+  if (query.search) {
+    params.push(`search=${encodeURIComponent(query.search)}`);
+  }
+  if (query.genres?.length) {
+    // Sorted, so the same selection always maps to the same cache key
+    params.push(`genres=${[...query.genres].sort((a, b) => a - b).join(',')}`);
+    params.push(`genre_match=${query.genreMatch ?? 'any'}`);
+  }
+  if (query.ordering) {
+    params.push(`ordering=${query.ordering}`);
+  }
+  (Object.keys(RANGE_PARAMS) as (keyof typeof RANGE_PARAMS)[]).forEach(key => {
+    if (query[key] !== undefined) {
+      params.push(`${RANGE_PARAMS[key]}=${query[key]}`);
+    }
+  });
+  if (query.director) {
+    params.push(`director=${encodeURIComponent(query.director)}`);
+  }
+  return `/movies/?${params.join('&')}`;
+};
+
+/**
+ * Tells whether a movie has the queried genres
+ * 
+ * @param {Movie} movie - Movie to check
+ * @param {MovieQuery} query - Query with the genre ids and how they have to match
+ * @returns {boolean} Whether the movie matches; always true without genres
+ */
+const matchesGenres = (movie: Movie, { genres = [], genreMatch = 'any' }: MovieQuery): boolean => {
+  const ids = movie.genres.map(genre => genre.id);
+  if (genres.length === 0) {
+    return true;
+  }
+  return genreMatch === 'all' ? genres.every(id => ids.includes(id)) : genres.some(id => ids.includes(id));
+};
+
+/**
+ * Tells whether a movie lies within the queried bounds and has the queried director
+ * 
+ * @param {Movie} movie - Movie to check
+ * @param {MovieFilters} filters - Queried bounds and director
+ * @returns {boolean} Whether the movie matches; unrated movies never match a minimum rating
+ */
+const matchesFilters = (movie: Movie, filters: MovieFilters): boolean => {
+  const within = (value: number | null | undefined, min?: number, max?: number) =>
+    (min === undefined && max === undefined) ||
+    (value !== undefined &&
+      value !== null &&
+      (min === undefined || value >= min) &&
+      (max === undefined || value <= max));
+  return (
+    within(Number(movie.release_date.slice(0, 4)), filters.yearMin, filters.yearMax) &&
+    within(movie.duration, filters.durationMin, filters.durationMax) &&
+    within(movie.average_rating, filters.ratingMin) &&
+    movie.director.toLowerCase().includes((filters.director ?? '').toLowerCase())
+  );
+};
+
+/**
+ * Compares two movies by an ordering, for sorting
+ * Movies without a value (unrated movies) sort last in both directions, and
+ * ties keep the order of their ids, like on the backend.
+ * 
+ * @param {Movie} a - First movie
+ * @param {Movie} b - Second movie
+ * @param {MovieOrdering} ordering - Sort field, prefixed with `-` for descending order
+ * @returns {number} Negative if `a` comes first, positive if `b` does
+ */
+const compareMovies = (a: Movie, b: Movie, ordering: MovieOrdering): number => {
+  const descending = ordering.startsWith('-');
+  const field = (descending ? ordering.slice(1) : ordering) as MovieSortField;
+  const left = a[field];
+  const right = b[field];
+  if (left === right) {
+    return a.id - b.id;
+  }
+  if (left === undefined || left === null) {
+    return 1;
+  }
+  if (right === undefined || right === null) {
+    return -1;
+  }
+  const order = typeof left === 'string' ? left.localeCompare(String(right)) : left - Number(right);
+  return descending ? -order : order;
+};
+
+/**
+ * Applies a query's filters and sort order to a page of movies
+ * The backend handles the query params itself; applying them again to the
+ * returned page keeps the list right on a backend that ignores some of them.
+ * 
+ * @param {Movie[]} movies - Movies of one page
+ * @param {MovieQuery} query - Query the page was requested with
+ * @returns {Movie[]} The movies matching the query, in its order
+ */
+export const applyMovieQuery = (movies: Movie[], query: MovieQuery): Movie[] => {
+  const matching = movies.filter(movie => matchesGenres(movie, query) && matchesFilters(movie, query));
+  const { ordering } = query;
+  return ordering ? matching.sort((a, b) => compareMovies(a, b, ordering)) : matching;
+};
+
+/**
+ * Builds the endpoint for a single movie
+ * Also used as the cache key for that movie
+ * 
+ * @param {number} id - Unique identifier of the movie
+ * @returns {string} Movie details endpoint
+ */
+export const movieEndpoint = (id: number): string => `/movies/${id}/`;
+
 /**
  * Retrieves a paginated list of movies
+ * The query is sent as params and applied again to the returned page (see applyMovieQuery).
  * 
  * @param {number} page - Page number for pagination (defaults to 1)
+ * @param {MovieQuery} [query] - Search query, filters and sort order of the list
+ * @param {RequestOptions} [options] - Cancellation signal
  * @returns {Promise<PaginatedMoviesResponse>} Paginated movie results
  * @throws {Error} When movie retrieval fails
  */
-export const getMovies = async (page: number = 1): Promise<PaginatedMoviesResponse> => {
-  const response = await api.get(`/movies/?page=${page}`);
-  return response.data;
+export const getMovies = async (
+  page: number = 1,
+  query: MovieQuery = {},
+  options: RequestOptions = {},
+): Promise<PaginatedMoviesResponse> => {
+  const response = await api.get<PaginatedMoviesResponse>(moviesEndpoint(page, query), { signal: options.signal });
+  return { ...response.data, results: applyMovieQuery(response.data.results, query) };
 };
 
 /**
  * Retrieves detailed information for a specific movie
  * 
  * @param {number} id - Unique identifier of the movie
+ * @param {RequestOptions} [options] - Cancellation signal
  * @returns {Promise<Movie>} Complete movie information
  * @throws {Error} When movie retrieval fails or movie doesn't exist
  */
-export const getMovieById = async (id: number): Promise<Movie> => {
-  const response = await api.get(`/movies/${id}/`);
+export const getMovieById = async (id: number, options: RequestOptions = {}): Promise<Movie> => {
+  const response = await api.get(movieEndpoint(id), { signal: options.signal });
   return response.data;
 };
 
 /**
  * Creates a new movie in the system
  * 
- * @param {any} movieData - Movie information to create
+ * @param {MovieCreateInput} movieData - Movie information to create
  * @returns {Promise<Movie>} Created movie with assigned ID
  * @throws {Error} When movie creation fails
  */
-export const createMovie = async (movieData: any): Promise<Movie> => {
+export const createMovie = async (movieData: MovieCreateInput): Promise<Movie> => {
   const response = await api.post('/movies/', movieData);
   return response.data;
 };
 
 /**
- * Updates an existing movie's information
+ * Partially updates an existing movie's information
  * 
  * @param {number} movieId - Unique identifier of the movie to update
- * @param {any} movieData - Updated movie information
+ * @param {MovieUpdateInput} movieData - Only the fields that changed
+ * @param {string} [version] - `updated_at` of the movie the edit is based on; when given,
+ *   the backend rejects the update with 412 if the movie has changed since
  * @returns {Promise<Movie>} Updated movie data
  * @throws {Error} When movie update fails
  */
-export const updateMovie = async (movieId: number, movieData: any): Promise<Movie> => {
-  const response = await api.put(`/movies/${movieId}/`, movieData);
+export const updateMovie = async (
+  movieId: number,
+  movieData: MovieUpdateInput,
+  version?: string,
+): Promise<Movie> => {
+  const response = await api.patch(movieEndpoint(movieId), movieData, {
+    headers: version ? { 'If-Match': `"${version}"` } : undefined,
+  });
   return response.data;
 };
 
@@ -101,7 +300,7 @@ export const updateMovie = async (movieId: number, movieData: any): Promise<Movi
  * @throws {Error} When movie deletion fails
  */
 export const deleteMovie = async (movieId: number): Promise<void> => {
-  await api.delete(`/movies/${movieId}/`);
+  await api.delete(movieEndpoint(movieId));
 };
 
 /**
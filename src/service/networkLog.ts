@@ -0,0 +1,297 @@
+/**
+ * @fileoverview Recorder of API traffic for the in-app network inspector
+ *
+ * This file provides a debugging aid for developer builds:
+ * - Axios interceptors recording every request and its response or failure
+ * - A ring buffer keeping only the most recent exchanges
+ * - Redaction of credentials in headers and bodies before anything is stored
+ * - Subscription for the inspector screen and JSON export for bug reports
+ *
+ * The recorder is attached to the `api` client only in `__DEV__` builds.
+ */
+
+import { AxiosError, AxiosHeaders, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+
+/** Number of exchanges kept; older ones are dropped first */
+const MAX_ENTRIES = 100;
+
+/** Placeholder shown instead of redacted values */
+const REDACTED = '[redacted]';
+
+/** Headers whose values are never stored (compared in lower case) */
+const REDACTED_HEADERS = ['cookie', 'set-cookie', 'x-csrftoken', 'proxy-authorization'];
+
+/** Body fields whose values are never stored: passwords, tokens, secrets and emailed codes */
+const REDACTED_FIELD_PATTERN = /password|token|secret|code/i;
+
+/** Token fields the pattern does not cover */
+const REDACTED_FIELDS = ['access', 'refresh'];
+
+/**
+ * Tells whether a body field holds a credential
+ *
+ * @param {string} key - Field name
+ * @returns {boolean} Whether the value must not be stored
+ */
+const isRedactedField = (key: string): boolean =>
+  REDACTED_FIELD_PATTERN.test(key) || REDACTED_FIELDS.includes(key);
+
+/**
+ * A recorded request and, once it completed, its outcome
+ *
+ * @interface NetworkLogEntry
+ * @property {number} id - Sequence number of the request
+ * @property {string} method - HTTP method in upper case
+ * @property {string} url - Full request URL
+ * @property {string} startedAt - ISO timestamp of when the request was sent
+ * @property {number} [durationMs] - Time until the response or failure
+ * @property {number} [status] - HTTP status, if a response was received
+ * @property {Record<string, string>} requestHeaders - Redacted request headers
+ * @property {unknown} requestBody - Redacted request body
+ * @property {Record<string, string>} [responseHeaders] - Redacted response headers
+ * @property {unknown} [responseBody] - Redacted response body
+ * @property {string} [error] - Failure message when no usable response was received
+ */
+export interface NetworkLogEntry {
+  id: number;
+  method: string;
+  url: string;
+  startedAt: string;
+  durationMs?: number;
+  status?: number;
+  requestHeaders: Record<string, string>;
+  requestBody: unknown;
+  responseHeaders?: Record<string, string>;
+  responseBody?: unknown;
+  error?: string;
+}
+
+/** Callback invoked whenever the log changes */
+type NetworkLogListener = (entries: NetworkLogEntry[]) => void;
+
+/** Recorded exchanges, oldest first */
+let entries: NetworkLogEntry[] = [];
+
+/** Sequence number for the next request */
+let nextId = 1;
+
+/** Maps in-flight request configs to their entry */
+const pendingRequests = new WeakMap<InternalAxiosRequestConfig, { id: number; startedAt: number }>();
+
+/** Subscribed listeners */
+const listeners = new Set<NetworkLogListener>();
+
+/**
+ * Notifies listeners about the current entries
+ */
+const notify = () => {
+  const snapshot = [...entries];
+  listeners.forEach(listener => listener(snapshot));
+};
+
+/**
+ * Masks a bearer token, keeping only its last characters for correlation
+ *
+ * @param {string} value - Authorization header value
+ * @returns {string} Masked value
+ */
+const maskAuthorization = (value: string): string => {
+  const [scheme, credentials] = value.split(' ');
+  if (!credentials) {
+    return REDACTED;
+  }
+  return `${scheme} …${credentials.slice(-6)}`;
+};
+
+/**
+ * Returns a copy of headers with credentials removed
+ *
+ * @param {unknown} headers - Axios headers object or plain object
+ * @returns {Record<string, string>} Redacted headers
+ */
+export const redactHeaders = (headers: unknown): Record<string, string> => {
+  const plain: Record<string, unknown> =
+    headers instanceof AxiosHeaders
+      ? headers.toJSON()
+      : typeof headers === 'object' && headers !== null
+        ? { ...headers }
+        : {};
+  const result: Record<string, string> = {};
+  Object.entries(plain).forEach(([name, value]) => {
+    if (value === undefined || value === null || typeof value === 'object') {
+      return;
+    }
+    const lowerName = name.toLowerCase();
+    if (lowerName === 'authorization') {
+      result[name] = maskAuthorization(String(value));
+    } else if (REDACTED_HEADERS.includes(lowerName)) {
+      result[name] = REDACTED;
+    } else {
+      result[name] = String(value);
+    }
+  });
+  return result;
+};
+
+/**
+ * Returns a copy of a request or response body with credentials removed
+ *
+ * @param {unknown} body - Body as seen by axios
+ * @returns {unknown} Redacted body
+ */
+export const redactBody = (body: unknown): unknown => {
+  if (typeof body === 'string') {
+    try {
+      return redactBody(JSON.parse(body));
+    } catch {
+      return body;
+    }
+  }
+  if (typeof FormData !== 'undefined' && body instanceof FormData) {
+    return '[multipart form data]';
+  }
+  if (Array.isArray(body)) {
+    return body.map(redactBody);
+  }
+  if (body && typeof body === 'object') {
+    return Object.fromEntries(
+      Object.entries(body).map(([key, value]) => [
+        key,
+        isRedactedField(key) ? REDACTED : redactBody(value),
+      ]),
+    );
+  }
+  return body;
+};
+
+/**
+ * Adds an entry, dropping the oldest ones beyond the buffer size
+ *
+ * @param {NetworkLogEntry} entry - Entry to add
+ */
+const addEntry = (entry: NetworkLogEntry) => {
+  entries = [...entries, entry].slice(-MAX_ENTRIES);
+  notify();
+};
+
+/**
+ * Completes the entry of a finished request
+ *
+ * @param {InternalAxiosRequestConfig} [config] - Config of the finished request
+ * @param {Partial<NetworkLogEntry>} outcome - Response or failure details
+ */
+const completeEntry = (config: InternalAxiosRequestConfig | undefined, outcome: Partial<NetworkLogEntry>) => {
+  const pending = config && pendingRequests.get(config);
+  if (!pending) {
+    return;
+  }
+  pendingRequests.delete(config);
+  entries = entries.map(entry =>
+    entry.id === pending.id ? { ...entry, ...outcome, durationMs: Date.now() - pending.startedAt } : entry,
+  );
+  notify();
+};
+
+/**
+ * Records an outgoing request
+ *
+ * @param {InternalAxiosRequestConfig} config - Request about to be sent
+ * @returns {InternalAxiosRequestConfig} The unchanged config
+ */
+const recordRequest = (config: InternalAxiosRequestConfig) => {
+  const id = nextId++;
+  const startedAt = Date.now();
+  pendingRequests.set(config, { id, startedAt });
+  const baseURL = config.baseURL ?? '';
+  const url = config.url ?? '';
+  addEntry({
+    id,
+    method: (config.method ?? 'get').toUpperCase(),
+    url: /^https?:\/\//.test(url) ? url : baseURL.replace(/\/+$/, '') + '/' + url.replace(/^\/+/, ''),
+    startedAt: new Date(startedAt).toISOString(),
+    requestHeaders: redactHeaders(config.headers),
+    requestBody: redactBody(config.data),
+  });
+  return config;
+};
+
+/**
+ * Records a received response
+ *
+ * @param {AxiosResponse} response - Successful response
+ * @returns {AxiosResponse} The unchanged response
+ */
+const recordResponse = (response: AxiosResponse) => {
+  completeEntry(response.config, {
+    status: response.status,
+    responseHeaders: redactHeaders(response.headers),
+    responseBody: redactBody(response.data),
+  });
+  return response;
+};
+
+/**
+ * Records a failed request and passes the error on unchanged
+ *
+ * @param {AxiosError} error - Error from axios
+ * @returns {Promise<never>} Rejection with the same error
+ */
+const recordFailure = (error: AxiosError) => {
+  completeEntry(error.config, {
+    status: error.response?.status,
+    responseHeaders: error.response ? redactHeaders(error.response.headers) : undefined,
+    responseBody: error.response ? redactBody(error.response.data) : undefined,
+    error: error.response ? undefined : error.message,
+  });
+  return Promise.reject(error);
+};
+
+/**
+ * Attaches the recorder to an axios instance
+ *
+ * Attach it before any other interceptors: its request interceptor then runs
+ * last (capturing the final headers) and its response interceptor first
+ * (seeing the raw axios response or error).
+ *
+ * @param {AxiosInstance} instance - Client to record
+ */
+export const attachNetworkRecorder = (instance: AxiosInstance) => {
+  instance.interceptors.request.use(recordRequest);
+  instance.interceptors.response.use(recordResponse, recordFailure);
+};
+
+/**
+ * Returns the recorded exchanges, oldest first
+ *
+ * @returns {NetworkLogEntry[]} Recorded entries
+ */
+export const getNetworkLog = (): NetworkLogEntry[] => [...entries];
+
+/**
+ * Subscribes to changes of the log
+ *
+ * @param {NetworkLogListener} listener - Called with all entries after every change
+ * @returns {Function} Unsubscribe function
+ */
+export const subscribeToNetworkLog = (listener: NetworkLogListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Removes every recorded exchange
+ */
+export const clearNetworkLog = () => {
+  entries = [];
+  notify();
+};
+
+/**
+ * Serializes the log for sharing in a bug report
+ *
+ * @returns {string} Pretty-printed JSON of all recorded entries
+ */
+export const exportNetworkLog = (): string =>
+  JSON.stringify({ exportedAt: new Date().toISOString(), entries }, null, 2);
@@ -0,0 +1,240 @@
+/**
+ * @fileoverview Offline mutation outbox for reviews and movie edits
+ *
+ * This file provides a persistent queue of write operations made while offline:
+ * - Recording review and movie mutations that failed with a network error
+ * - Persisting the queue in storage so it survives app restarts
+ * - Replaying queued mutations in order, with a backoff delay between attempts
+ * - Reporting mutations the backend rejected for good (conflicts, other 4xx) back to the caller
+ * - Keeping each signed-in account's mutations apart, so they are only sent with that account's session
+ * - Discarding an account's mutations once the account is deleted
+ *
+ * MovieContext decides when to queue and when to replay; this module only
+ * owns the queue and the replay rules.
+ */
+
+import * as storage from '../utils/storage';
+import { MovieUpdateInput } from '../types';
+import * as movieService from './movieService';
+import { ApiError, ApiErrorKind, toApiError } from './apiError';
+
+/** Review fields sent when creating or updating a review */
+type ReviewData = { rating: number; comment: string };
+
+/**
+ * A write operation that can be queued while offline
+ */
+export type OutboxMutation =
+  | { type: 'addReview'; movieId: number; data: ReviewData }
+  | { type: 'updateReview'; movieId: number; reviewId: number; data: ReviewData }
+  | { type: 'deleteReview'; movieId: number; reviewId: number }
+  | { type: 'updateMovie'; movieId: number; data: MovieUpdateInput; version?: string }
+  | { type: 'deleteMovie'; movieId: number };
+
+/**
+ * A queued mutation together with its bookkeeping data
+ */
+export type OutboxEntry = OutboxMutation & {
+  /** Unique identifier of the queued entry */
+  id: string;
+  /** ISO timestamp of when the mutation was queued */
+  queuedAt: string;
+  /** User ID of the account that queued it; missing on entries queued by older versions */
+  accountId?: number;
+};
+
+/**
+ * A queued mutation the backend refused during replay
+ *
+ * @interface OutboxFailure
+ * @property {OutboxEntry} entry - The mutation that was dropped from the queue
+ * @property {ApiError} error - Why the backend refused it
+ */
+export interface OutboxFailure {
+  entry: OutboxEntry;
+  error: ApiError;
+}
+
+/**
+ * Result of replaying the outbox
+ *
+ * @interface ReplayResult
+ * @property {OutboxEntry[]} synced - Mutations successfully sent to the backend
+ * @property {OutboxFailure[]} failures - Mutations dropped because the backend refused them
+ * @property {OutboxEntry[]} remaining - Mutations still queued (e.g. still offline)
+ */
+export interface ReplayResult {
+  synced: OutboxEntry[];
+  failures: OutboxFailure[];
+  remaining: OutboxEntry[];
+}
+
+/** Human-readable descriptions of each mutation type */
+const MUTATION_LABELS: Record<OutboxMutation['type'], string> = {
+  addReview: 'Adding a review',
+  updateReview: 'Updating a review',
+  deleteReview: 'Deleting a review',
+  updateMovie: 'Updating a movie',
+  deleteMovie: 'Deleting a movie',
+};
+
+/** Failures after which a mutation is kept queued and sent again later */
+const RETRYABLE_KINDS: ApiErrorKind[] = ['network', 'auth', 'server', 'throttled'];
+
+/** Delay before replaying again after a replay left mutations queued (ms); doubles with every further attempt */
+const REPLAY_BASE_DELAY = 5 * 1000;
+
+/** Upper bound of the delay between replay attempts (ms) */
+const MAX_REPLAY_DELAY = 5 * 60 * 1000;
+
+/**
+ * Serializes read-modify-write access to the persisted queue so that
+ * enqueueing during a replay cannot lose entries.
+ */
+let queueLock: Promise<unknown> = Promise.resolve();
+
+const withQueueLock = <T>(task: () => Promise<T>): Promise<T> => {
+  const result = queueLock.then(task, task);
+  queueLock = result.catch(() => undefined);
+  return result;
+};
+
+/**
+ * Tells whether a queued mutation belongs to the given account
+ * Entries queued before accounts were tracked belong to whichever account is active.
+ *
+ * @param {OutboxEntry} entry - Queued mutation
+ * @param {number|null} accountId - User ID of the account
+ * @returns {boolean} Whether the entry belongs to the account
+ */
+const belongsTo = (entry: OutboxEntry, accountId: number | null): boolean =>
+  entry.accountId === undefined || entry.accountId === accountId;
+
+/**
+ * Describes a queued mutation for display to the user
+ *
+ * @param {OutboxMutation} mutation - Mutation to describe
+ * @returns {string} Short description of the mutation
+ */
+export const describeMutation = (mutation: OutboxMutation): string => MUTATION_LABELS[mutation.type];
+
+/**
+ * Computes how long to wait before replaying the queue again, using equal jitter
+ *
+ * @param {number} attempt - Number of replay attempts that already left mutations queued
+ * @returns {number} Delay in milliseconds
+ */
+export const getReplayDelay = (attempt: number): number => {
+  const ceiling = Math.min(MAX_REPLAY_DELAY, REPLAY_BASE_DELAY * 2 ** attempt);
+  return Math.round(ceiling / 2 + (Math.random() * ceiling) / 2);
+};
+
+/**
+ * Retrieves the active account's queued mutations, oldest first
+ *
+ * @returns {Promise<OutboxEntry[]>} Queued mutations
+ */
+export const getOutbox = async (): Promise<OutboxEntry[]> => {
+  const accountId = await storage.getActiveAccountId();
+  return (await storage.getOutbox()).filter(entry => belongsTo(entry, accountId));
+};
+
+/**
+ * Appends a mutation to the end of the active account's queue
+ *
+ * @param {OutboxMutation} mutation - Mutation to queue
+ * @returns {Promise<OutboxEntry[]>} The active account's queue after appending
+ */
+export const enqueueMutation = (mutation: OutboxMutation): Promise<OutboxEntry[]> =>
+  withQueueLock(async () => {
+    const accountId = await storage.getActiveAccountId();
+    const entry: OutboxEntry = {
+      ...mutation,
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      queuedAt: new Date().toISOString(),
+      ...(accountId !== null && { accountId }),
+    };
+    const entries = [...(await storage.getOutbox()), entry];
+    await storage.setOutbox(entries);
+    return entries.filter(queued => belongsTo(queued, accountId));
+  });
+
+/**
+ * Drops every mutation queued by an account, e.g. after the account was deleted
+ *
+ * @param {number} accountId - User ID of the account
+ * @returns {Promise<void>} Resolves once the queue is updated
+ */
+export const discardAccountMutations = (accountId: number): Promise<void> =>
+  withQueueLock(async () => {
+    const entries = await storage.getOutbox();
+    await storage.setOutbox(entries.filter(entry => !belongsTo(entry, accountId)));
+  });
+
+/**
+ * Sends a single queued mutation to the backend
+ *
+ * @param {OutboxMutation} mutation - Mutation to send
+ * @returns {Promise<void>} Resolves when the backend accepted the mutation
+ */
+const sendMutation = async (mutation: OutboxMutation): Promise<void> => {
+  switch (mutation.type) {
+    case 'addReview':
+      await movieService.createReview(mutation.movieId, mutation.data);
+      break;
+    case 'updateReview':
+      await movieService.updateReview(mutation.reviewId, mutation.data);
+      break;
+    case 'deleteReview':
+      await movieService.deleteReview(mutation.reviewId);
+      break;
+    case 'updateMovie':
+      await movieService.updateMovie(mutation.movieId, mutation.data, mutation.version);
+      break;
+    case 'deleteMovie':
+      await movieService.deleteMovie(mutation.movieId);
+      break;
+  }
+};
+
+/**
+ * Replays the active account's queued mutations in order
+ *
+ * Replay stops at the first network, throttling or server error, or at a 401
+ * the session refresh could not recover from (the user can log in again), and
+ * keeps that mutation and everything after it queued for the next attempt.
+ * Mutations the backend refuses for good (any other 4xx, e.g. validation,
+ * forbidden, not-found, conflict) are dropped from the queue and returned as
+ * failures so they can be reported to the user.
+ * Other accounts' mutations stay queued until their account is active again.
+ *
+ * @returns {Promise<ReplayResult>} What was synced, refused and left queued
+ */
+export const replayOutbox = (): Promise<ReplayResult> =>
+  withQueueLock(async () => {
+    const accountId = await storage.getActiveAccountId();
+    const allEntries = await storage.getOutbox();
+    const entries = allEntries.filter(entry => belongsTo(entry, accountId));
+    const synced: OutboxEntry[] = [];
+    const failures: OutboxFailure[] = [];
+    let index = 0;
+
+    for (; index < entries.length; index++) {
+      const entry = entries[index];
+      try {
+        await sendMutation(entry);
+        synced.push(entry);
+      } catch (err) {
+        const error = toApiError(err);
+        if (RETRYABLE_KINDS.includes(error.kind)) {
+          break;
+        }
+        failures.push({ entry, error });
+      }
+    }
+
+    const remaining = entries.slice(index);
+    const handled = new Set([...synced, ...failures.map(failure => failure.entry)]);
+    await storage.setOutbox(allEntries.filter(entry => !handled.has(entry)));
+    return { synced, failures, remaining };
+  });
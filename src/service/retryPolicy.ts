@@ -0,0 +1,107 @@
+/**
+ * @fileoverview Retry policy for transient API failures
+ *
+ * This file decides whether and when a failed request is sent again:
+ * - Only idempotent requests (GET/HEAD/OPTIONS) are retried, never POST/PUT/PATCH/DELETE
+ * - Network errors and 5xx responses are retried with exponential backoff and full jitter
+ * - 429 responses are retried after the delay the server asks for in `Retry-After`
+ * - Requests can opt out with `retry: false` in their axios config
+ *
+ * The interceptor in api.ts applies this policy; nothing here sends requests.
+ */
+
+import { AxiosError } from 'axios';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /** Set to false to never retry this request */
+    retry?: boolean;
+    /** Number of retries already made for this request (internal) */
+    _retryCount?: number;
+  }
+}
+
+/** Maximum number of retries after the initial attempt */
+export const MAX_RETRIES = 3;
+
+/** Delay before the first retry (ms); doubles with every further retry */
+const BASE_DELAY = 500;
+
+/** Upper bound of the backoff delay (ms) */
+const MAX_BACKOFF_DELAY = 8000;
+
+/** Longest `Retry-After` the client is willing to wait (ms); longer waits fail immediately */
+const MAX_RETRY_AFTER = 30 * 1000;
+
+/** Methods that are safe to send more than once */
+const IDEMPOTENT_METHODS = ['get', 'head', 'options'];
+
+/**
+ * Parses a `Retry-After` header given in seconds or as an HTTP date
+ *
+ * @param {unknown} header - Header value
+ * @returns {number|null} Delay in milliseconds, or null if absent or unreadable
+ */
+export const parseRetryAfter = (header: unknown): number | null => {
+  if (typeof header !== 'string' && typeof header !== 'number') {
+    return null;
+  }
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(String(header));
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+/**
+ * Computes the backoff delay for a retry, using full jitter
+ *
+ * @param {number} retryCount - Number of retries already made
+ * @returns {number} Delay in milliseconds
+ */
+export const getBackoffDelay = (retryCount: number): number => {
+  const ceiling = Math.min(MAX_BACKOFF_DELAY, BASE_DELAY * 2 ** retryCount);
+  return Math.round(Math.random() * ceiling);
+};
+
+/**
+ * Decides whether a failed request should be retried
+ *
+ * @param {AxiosError} error - Error from axios (before normalization)
+ * @returns {number|null} Delay before retrying in milliseconds, or null to give up
+ */
+export const getRetryDelay = (error: AxiosError): number | null => {
+  const config = error.config;
+  if (!config || config.retry === false || error.code === AxiosError.ERR_CANCELED) {
+    return null;
+  }
+  if (!IDEMPOTENT_METHODS.includes((config.method ?? 'get').toLowerCase())) {
+    return null;
+  }
+  const retryCount = config._retryCount ?? 0;
+  if (retryCount >= MAX_RETRIES) {
+    return null;
+  }
+
+  const status = error.response?.status;
+  if (status === 429) {
+    const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after']);
+    if (retryAfter === null) {
+      return getBackoffDelay(retryCount);
+    }
+    return retryAfter <= MAX_RETRY_AFTER ? retryAfter : null;
+  }
+  if (status === undefined || status >= 500) {
+    return getBackoffDelay(retryCount);
+  }
+  return null;
+};
+
+/**
+ * Waits for the given time
+ *
+ * @param {number} ms - Delay in milliseconds
+ * @returns {Promise<void>} Resolves after the delay
+ */
+export const wait = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
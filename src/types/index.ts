@@ -1,5 +1,6 @@
 /**
- * Represents a single Genre object from the backend.
+ * Represents a single Genre object from the backend (`GET /genres/`).
+ * The only declaration of Genre; ids are assigned by the backend.
  */
 export interface Genre {
   id: number;
@@ -17,6 +18,8 @@ export interface User {
   first_name: string;
   last_name: string;
   profile_picture?: string;
+  /** Whether the user confirmed their email address; unverified users cannot add movies or reviews */
+  email_verified: boolean;
 }
 
 /**
@@ -45,8 +48,31 @@ export interface Movie {
   average_rating?: number;
   created_by: number; 
   user_review?: Review | null;
+  /** Last modification time; doubles as the version token for conditional updates */
+  updated_at?: string;
 }
 
+/**
+ * Payload for creating a movie (`POST /movies/`).
+ * Genres are sent as ids and the poster as a URL, unlike the `Movie` the API returns.
+ */
+export interface MovieCreateInput {
+  title: string;
+  description: string;
+  genres: number[];
+  release_date: string;
+  duration: number;
+  director: string;
+  cast: string;
+  poster_url: string;
+}
+
+/**
+ * Payload for partially updating a movie (`PATCH /movies/:id/`).
+ * Only the fields that changed are sent.
+ */
+export type MovieUpdateInput = Partial<MovieCreateInput>;
+
 /**
  * Represents a single movie review.
  */
@@ -66,4 +92,14 @@ export interface Favorite {
   id: number;
   user: number;
   movie: number;
-}
\ No newline at end of file
+}
+
+/**
+ * A user's personal data export, collected from the profile and movie list endpoints.
+ * Reviews carry the id of the movie they belong to.
+ */
+export interface UserDataExport {
+  user: User;
+  reviews: (Review & { movie: number })[];
+  movies: Movie[];
+}
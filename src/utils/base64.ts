@@ -0,0 +1,136 @@
+/**
+ * @fileoverview base64url encoding helpers
+ *
+ * This file provides dependency-free base64url conversion used for JWTs:
+ * - Encoding UTF-8 strings as unpadded base64url
+ * - Decoding base64url (padded or not) back into UTF-8 strings
+ * - Encoding UTF-8 strings as standard padded base64 (e.g. for data URIs)
+ * - Converting strings into UTF-8 bytes (also used for hashing)
+ *
+ * Implemented in plain TypeScript so it behaves the same on Hermes,
+ * JSC and in Jest, regardless of which globals each runtime provides.
+ */
+
+/* eslint-disable no-bitwise */
+
+/** base64url alphabet */
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+/**
+ * Converts a string into its UTF-8 bytes
+ *
+ * @param {string} value - String to convert
+ * @returns {number[]} UTF-8 bytes
+ */
+export const toUtf8Bytes = (value: string): number[] => {
+  const bytes: number[] = [];
+  for (const char of value) {
+    const code = char.codePointAt(0)!;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f),
+      );
+    }
+  }
+  return bytes;
+};
+
+/**
+ * Converts UTF-8 bytes back into a string
+ *
+ * @param {number[]} bytes - UTF-8 bytes
+ * @returns {string} Decoded string
+ */
+const fromUtf8Bytes = (bytes: number[]): string => {
+  let result = '';
+  let index = 0;
+  while (index < bytes.length) {
+    const byte = bytes[index];
+    let code: number;
+    if (byte < 0x80) {
+      code = byte;
+      index += 1;
+    } else if (byte < 0xe0) {
+      code = ((byte & 0x1f) << 6) | (bytes[index + 1] & 0x3f);
+      index += 2;
+    } else if (byte < 0xf0) {
+      code = ((byte & 0x0f) << 12) | ((bytes[index + 1] & 0x3f) << 6) | (bytes[index + 2] & 0x3f);
+      index += 3;
+    } else {
+      code =
+        ((byte & 0x07) << 18) |
+        ((bytes[index + 1] & 0x3f) << 12) |
+        ((bytes[index + 2] & 0x3f) << 6) |
+        (bytes[index + 3] & 0x3f);
+      index += 4;
+    }
+    result += String.fromCodePoint(code);
+  }
+  return result;
+};
+
+/**
+ * Encodes a string as unpadded base64url
+ *
+ * @param {string} value - String to encode
+ * @returns {string} base64url representation
+ */
+export const encodeBase64Url = (value: string): string => {
+  const bytes = toUtf8Bytes(value);
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    const length = Math.min(3, bytes.length - i);
+    for (let j = 0; j <= length; j++) {
+      result += ALPHABET[(chunk >> (18 - j * 6)) & 0x3f];
+    }
+  }
+  return result;
+};
+
+/**
+ * Encodes a string as standard, padded base64
+ *
+ * @param {string} value - String to encode
+ * @returns {string} base64 representation
+ */
+export const encodeBase64 = (value: string): string => {
+  const encoded = encodeBase64Url(value).replace(/-/g, '+').replace(/_/g, '/');
+  return encoded + '='.repeat((4 - (encoded.length % 4)) % 4);
+};
+
+/**
+ * Decodes a base64 or base64url string
+ *
+ * @param {string} value - Encoded string, with or without padding
+ * @returns {string} Decoded string
+ * @throws {Error} When the input contains invalid characters
+ */
+export const decodeBase64Url = (value: string): string => {
+  const normalized = value.replace(/\+/g, '-').replace(/\//g, '_').replace(/[=]+$/, '');
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of normalized) {
+    const index = ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base64 input');
+    }
+    buffer = (buffer << 6) | index;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+  return fromUtf8Bytes(bytes);
+};
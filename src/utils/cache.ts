@@ -0,0 +1,145 @@
+/**
+ * @fileoverview Persisted response cache for stale-while-revalidate reads
+ *
+ * This file provides a small cache for API responses keyed by endpoint:
+ * - Reading cached responses with a freshness (TTL) check
+ * - Writing responses to memory and persistent storage
+ * - Explicit invalidation by endpoint prefix after mutations
+ * - Keeping the responses of each signed-in account apart
+ * - Clearing an account's cached responses (e.g. on logout)
+ *
+ * Entries live in an in-memory map for instant reads and are mirrored to
+ * AsyncStorage so cached screens render immediately after a cold start.
+ * Keys are scoped to the account set with setCacheAccount, since responses
+ * include per-user data such as the user's own reviews.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+/** Prefix for cache keys in AsyncStorage, keeping them apart from other app data */
+const CACHE_KEY_PREFIX = 'api_cache:';
+
+/** Entries older than this are discarded instead of being shown as stale data */
+const MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Stored cache entry
+ *
+ * @interface CacheEntry
+ * @property {T} data - Cached response body
+ * @property {number} storedAt - Timestamp (ms) of when the response was cached
+ */
+interface CacheEntry<T> {
+  data: T;
+  storedAt: number;
+}
+
+/**
+ * Result of a cache read
+ *
+ * @interface CachedValue
+ * @property {T} data - Cached response body
+ * @property {boolean} isStale - Whether the entry is older than the requested TTL
+ */
+export interface CachedValue<T> {
+  data: T;
+  isStale: boolean;
+}
+
+/** In-memory mirror of the persisted entries */
+const memoryCache = new Map<string, CacheEntry<unknown>>();
+
+/** Key prefix of the account whose responses are read and written */
+let accountScope = '';
+
+/**
+ * Selects the account whose cached responses are used from now on.
+ * @param {number|null} accountId - User ID of the account, or null when signed out.
+ */
+export const setCacheAccount = (accountId: number | null): void => {
+  accountScope = accountId === null ? '' : `${accountId}:`;
+};
+
+/**
+ * Removes every cached response whose scoped key starts with the given prefix.
+ * @param {string} prefix - Scoped key prefix.
+ */
+const removeEntries = async (prefix: string): Promise<void> => {
+  Array.from(memoryCache.keys())
+    .filter(key => key.startsWith(prefix))
+    .forEach(key => memoryCache.delete(key));
+  try {
+    const keys = await AsyncStorage.getAllKeys();
+    const staleKeys = keys.filter(key => key.startsWith(CACHE_KEY_PREFIX + prefix));
+    if (staleKeys.length > 0) {
+      await AsyncStorage.multiRemove(staleKeys);
+    }
+  } catch (error) {
+    console.error('Error invalidating cache', error);
+  }
+};
+
+/**
+ * Reads a cached response.
+ * @param {string} endpoint - Endpoint the response was fetched from (e.g. `/movies/12/`).
+ * @param {number} ttl - Time in milliseconds during which the entry counts as fresh.
+ * @returns {Promise<CachedValue<T> | null>} The cached value or null if nothing usable is cached.
+ */
+export const readCache = async <T>(endpoint: string, ttl: number): Promise<CachedValue<T> | null> => {
+  const key = accountScope + endpoint;
+  try {
+    let entry = memoryCache.get(key) as CacheEntry<T> | undefined;
+    if (!entry) {
+      const entryString = await AsyncStorage.getItem(CACHE_KEY_PREFIX + key);
+      if (!entryString) {
+        return null;
+      }
+      entry = JSON.parse(entryString) as CacheEntry<T>;
+      memoryCache.set(key, entry);
+    }
+
+    const age = Date.now() - entry.storedAt;
+    if (age > MAX_AGE) {
+      memoryCache.delete(key);
+      await AsyncStorage.removeItem(CACHE_KEY_PREFIX + key);
+      return null;
+    }
+    return { data: entry.data, isStale: age > ttl };
+  } catch (error) {
+    console.error('Error reading cache', error);
+    return null;
+  }
+};
+
+/**
+ * Caches a response.
+ * @param {string} endpoint - Endpoint the response was fetched from.
+ * @param {T} data - Response body to cache.
+ */
+export const writeCache = async <T>(endpoint: string, data: T): Promise<void> => {
+  const key = accountScope + endpoint;
+  const entry: CacheEntry<T> = { data, storedAt: Date.now() };
+  memoryCache.set(key, entry);
+  try {
+    await AsyncStorage.setItem(CACHE_KEY_PREFIX + key, JSON.stringify(entry));
+  } catch (error) {
+    console.error('Error writing cache', error);
+  }
+};
+
+/**
+ * Removes every cached response of the current account whose endpoint starts with the given prefix.
+ * @param {string} prefix - Endpoint prefix to invalidate (e.g. `/movies/?`).
+ */
+export const invalidateCache = (prefix: string): Promise<void> => removeEntries(accountScope + prefix);
+
+/**
+ * Removes every cached response of an account.
+ * @param {number} accountId - User ID of the account.
+ */
+export const clearAccountCache = (accountId: number): Promise<void> => removeEntries(`${accountId}:`);
+
+/**
+ * Removes every cached response of every account.
+ */
+export const clearCache = (): Promise<void> => removeEntries('');
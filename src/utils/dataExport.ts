@@ -0,0 +1,45 @@
+/**
+ * @fileoverview Sharing a user's personal data export
+ *
+ * This file turns the collected data export into a JSON file for the user:
+ * - Adding when the export was made
+ * - Naming the file after the user and the date
+ * - Handing the file to the system share sheet, from where it can be saved or sent
+ *
+ * iOS shares the JSON as a file (data URI); Android shares it as text,
+ * since the app has no file system access.
+ */
+
+import { Platform, Share } from 'react-native';
+import { UserDataExport } from '../types';
+import { encodeBase64 } from './base64';
+
+/**
+ * Builds the file name of an export
+ *
+ * @param {UserDataExport} data - Exported data
+ * @param {Date} exportedAt - When the export was made
+ * @returns {string} File name, e.g. `movie-reviews-demo-2024-05-01.json`
+ */
+const getExportFileName = (data: UserDataExport, exportedAt: Date): string =>
+  `movie-reviews-${data.user.username}-${exportedAt.toISOString().slice(0, 10)}.json`;
+
+/**
+ * Opens the share sheet with the exported data as a JSON file
+ *
+ * @param {UserDataExport} data - Exported data
+ * @returns {Promise<boolean>} Whether the user shared or saved the file (false if dismissed)
+ */
+export const shareUserData = async (data: UserDataExport): Promise<boolean> => {
+  const exportedAt = new Date();
+  const fileName = getExportFileName(data, exportedAt);
+  const json = JSON.stringify({ exported_at: exportedAt.toISOString(), ...data }, null, 2);
+
+  const result = await Share.share(
+    Platform.OS === 'ios'
+      ? { url: `data:application/json;base64,${encodeBase64(json)}`, title: fileName }
+      : { message: json, title: fileName },
+    { subject: fileName, dialogTitle: 'Export my data' },
+  );
+  return result.action === Share.sharedAction;
+};
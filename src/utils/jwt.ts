@@ -0,0 +1,72 @@
+/**
+ * @fileoverview JWT inspection helpers
+ *
+ * This file provides read-only access to the claims of JWTs issued by the backend:
+ * - Decoding the payload segment of a token
+ * - Reading the expiry (`exp`) claim as a timestamp
+ * - Checking whether a token expires within a given window
+ *
+ * Signatures are not verified here; that is the backend's job. The client only
+ * reads claims to decide when to refresh.
+ */
+
+import { decodeBase64Url } from './base64';
+
+/**
+ * Standard claims the client reads from a token
+ *
+ * @interface JwtPayload
+ * @property {number} [exp] - Expiry time (seconds since epoch)
+ * @property {number} [iat] - Issue time (seconds since epoch)
+ * @property {number} [user_id] - User the token belongs to
+ * @property {string} [token_type] - `access` or `refresh`
+ */
+export interface JwtPayload {
+  exp?: number;
+  iat?: number;
+  user_id?: number;
+  token_type?: string;
+}
+
+/**
+ * Decodes the payload of a JWT without verifying its signature
+ *
+ * @param {string} token - Encoded token
+ * @returns {JwtPayload|null} Decoded claims, or null if the token is malformed
+ */
+export const decodeJwtPayload = (token: string): JwtPayload | null => {
+  const segments = token.split('.');
+  if (segments.length !== 3) {
+    return null;
+  }
+  try {
+    const payload = JSON.parse(decodeBase64Url(segments[1]));
+    return payload && typeof payload === 'object' ? payload : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Returns when a token expires
+ *
+ * @param {string} token - Encoded token
+ * @returns {number|null} Expiry timestamp in milliseconds, or null if the token has no readable `exp`
+ */
+export const getTokenExpiry = (token: string): number | null => {
+  const exp = decodeJwtPayload(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+};
+
+/**
+ * Checks whether a token has expired or will expire within the given window
+ * Tokens without a readable expiry are treated as not expiring.
+ *
+ * @param {string} token - Encoded token
+ * @param {number} [withinMs=0] - Window in milliseconds before the actual expiry
+ * @returns {boolean} True if the token should be refreshed
+ */
+export const isTokenExpiring = (token: string, withinMs = 0): boolean => {
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry - withinMs <= Date.now();
+};
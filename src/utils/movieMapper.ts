@@ -0,0 +1,172 @@
+/**
+ * @fileoverview Conversions between movies, movie form values and API payloads
+ *
+ * This file is the single place where the movie form and the movie API meet:
+ * - Empty form values for creating a movie
+ * - Form values pre-filled from an existing `Movie` for editing
+ * - The create/update payload built from submitted form values
+ * - The partial update payload holding only the fields an edit changed
+ * - Three-way merging of an edit with a newer server version after a conflict
+ *
+ * Both the add and edit screens go through these mappers, so a field added to
+ * the form, the payload or `Movie` fails type-checking until it is mapped here.
+ */
+
+import { Movie, MovieCreateInput, MovieUpdateInput } from '../types';
+import { MovieFormValues } from './validation';
+
+/**
+ * Form values for a new movie
+ */
+export const emptyMovieFormValues: MovieFormValues = {
+  title: '',
+  description: '',
+  genres: [],
+  release_date: '',
+  duration: '',
+  director: '',
+  cast: '',
+  poster_url: '',
+};
+
+/**
+ * Builds form values from an existing movie
+ *
+ * @param {Movie} movie - Movie to edit
+ * @returns {MovieFormValues} Form values pre-filled with the movie's data
+ */
+export const movieToFormValues = (movie: Movie): MovieFormValues => ({
+  title: movie.title ?? '',
+  description: movie.description ?? '',
+  genres: (movie.genres ?? []).map(genre => genre.id),
+  release_date: movie.release_date ?? '',
+  duration: movie.duration != null ? String(movie.duration) : '',
+  director: movie.director ?? '',
+  cast: movie.cast ?? '',
+  poster_url: movie.poster ?? '',
+});
+
+/**
+ * Builds the create/update payload from validated form values
+ *
+ * @param {MovieFormValues} values - Submitted form values
+ * @returns {MovieCreateInput} Payload for the movie API
+ */
+export const formValuesToMovieInput = (values: MovieFormValues): MovieCreateInput => ({
+  title: values.title.trim(),
+  description: values.description.trim(),
+  genres: values.genres,
+  release_date: values.release_date.trim(),
+  duration: Number(values.duration),
+  director: values.director.trim(),
+  cast: values.cast.trim(),
+  poster_url: values.poster_url.trim(),
+});
+
+/**
+ * Checks whether two payload values are equal
+ * Genre ids are compared as sets, since their order carries no meaning.
+ *
+ * @param {unknown} a - First value
+ * @param {unknown} b - Second value
+ * @returns {boolean} True if the values are equal
+ */
+const isSameValue = (a: unknown, b: unknown): boolean => {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every(item => b.includes(item));
+  }
+  return a === b;
+};
+
+/**
+ * Builds the partial update payload for an edit
+ * Both sides go through the same normalization, so untouched fields never
+ * count as changed (e.g. whitespace or genre order).
+ *
+ * @param {Movie} movie - Movie as it was loaded for editing
+ * @param {MovieFormValues} values - Submitted form values
+ * @returns {MovieUpdateInput} Only the fields that differ from the loaded movie; empty if nothing changed
+ */
+export const getMovieChanges = (movie: Movie, values: MovieFormValues): MovieUpdateInput => {
+  const original = formValuesToMovieInput(movieToFormValues(movie));
+  const updated = formValuesToMovieInput(values);
+  const changes: MovieUpdateInput = {};
+  (Object.keys(updated) as (keyof MovieCreateInput)[]).forEach(field => {
+    if (!isSameValue(original[field], updated[field])) {
+      (changes as Record<string, unknown>)[field] = updated[field];
+    }
+  });
+  return changes;
+};
+
+/**
+ * Checks whether a partial update payload contains any changes
+ *
+ * @param {MovieUpdateInput} changes - Payload from getMovieChanges
+ * @returns {boolean} True if at least one field changed
+ */
+export const hasMovieChanges = (changes: MovieUpdateInput): boolean => Object.keys(changes).length > 0;
+
+/**
+ * Returns the fields whose form values differ between two versions
+ *
+ * @param {MovieFormValues} a - First version
+ * @param {MovieFormValues} b - Second version
+ * @returns {(keyof MovieFormValues)[]} Fields that differ
+ */
+const getChangedFields = (a: MovieFormValues, b: MovieFormValues): (keyof MovieFormValues)[] => {
+  const inputA = formValuesToMovieInput(a);
+  const inputB = formValuesToMovieInput(b);
+  return (Object.keys(inputA) as (keyof MovieFormValues)[]).filter(
+    field => !isSameValue(inputA[field], inputB[field]),
+  );
+};
+
+/**
+ * Finds the fields where an edit collides with changes made on the server
+ * A field conflicts when both the user and the server changed it, to different
+ * values. Fields only one side changed are not conflicts; merging keeps
+ * whichever side changed them.
+ *
+ * @param {Movie} base - Movie as it was loaded for editing
+ * @param {Movie} latest - Latest movie from the server
+ * @param {MovieFormValues} values - The user's form values
+ * @returns {(keyof MovieFormValues)[]} Conflicting fields
+ */
+export const getMovieConflicts = (
+  base: Movie,
+  latest: Movie,
+  values: MovieFormValues,
+): (keyof MovieFormValues)[] => {
+  const baseValues = movieToFormValues(base);
+  const latestValues = movieToFormValues(latest);
+  const serverFields = getChangedFields(baseValues, latestValues);
+  const differsFromServer = getChangedFields(latestValues, values);
+  return getChangedFields(baseValues, values).filter(
+    field => serverFields.includes(field) && differsFromServer.includes(field),
+  );
+};
+
+/**
+ * Merges an edit onto the latest server version
+ *
+ * @param {Movie} base - Movie as it was loaded for editing
+ * @param {Movie} latest - Latest movie from the server
+ * @param {MovieFormValues} values - The user's form values
+ * @param {(keyof MovieFormValues)[]} keepServerFields - Conflicting fields resolved in favour of the server
+ * @returns {MovieFormValues} Latest server values with the user's edits applied
+ */
+export const mergeMovieEdits = (
+  base: Movie,
+  latest: Movie,
+  values: MovieFormValues,
+  keepServerFields: (keyof MovieFormValues)[] = [],
+): MovieFormValues => {
+  const merged = movieToFormValues(latest);
+  getChangedFields(movieToFormValues(base), values)
+    .filter(field => !keepServerFields.includes(field))
+    .forEach(field => {
+      Object.assign(merged, { [field]: values[field] });
+    });
+  return merged;
+};
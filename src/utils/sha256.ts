@@ -0,0 +1,97 @@
+/**
+ * @fileoverview SHA-256 hashing
+ *
+ * This file provides a dependency-free SHA-256 implementation:
+ * - Hashing UTF-8 strings into lowercase hex digests
+ *
+ * Implemented in plain TypeScript like base64.ts, since neither Hermes nor
+ * the app's dependencies offer a hash function.
+ */
+
+/* eslint-disable no-bitwise */
+
+import { toUtf8Bytes } from './base64';
+
+/** Round constants: fractional parts of the cube roots of the first 64 primes */
+const K = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+];
+
+/** Initial hash values: fractional parts of the square roots of the first 8 primes */
+const INITIAL_HASH = [
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+];
+
+/**
+ * Rotates a 32-bit word to the right
+ *
+ * @param {number} word - 32-bit word
+ * @param {number} bits - Number of bits to rotate by
+ * @returns {number} Rotated word
+ */
+const rotateRight = (word: number, bits: number): number => (word >>> bits) | (word << (32 - bits));
+
+/**
+ * Computes the SHA-256 digest of a string
+ *
+ * @param {string} value - String to hash; hashed as UTF-8
+ * @returns {string} Digest as 64 lowercase hex characters
+ */
+export const sha256 = (value: string): string => {
+  const bytes = toUtf8Bytes(value);
+  const bitLength = bytes.length * 8;
+
+  // Padding: a single 1 bit, zeros up to 56 mod 64 bytes, then the 64-bit message length
+  bytes.push(0x80);
+  while (bytes.length % 64 !== 56) {
+    bytes.push(0);
+  }
+  const high = Math.floor(bitLength / 0x100000000);
+  for (const word of [high, bitLength >>> 0]) {
+    bytes.push((word >>> 24) & 0xff, (word >>> 16) & 0xff, (word >>> 8) & 0xff, word & 0xff);
+  }
+
+  const hash = [...INITIAL_HASH];
+  const w = new Array<number>(64);
+  for (let offset = 0; offset < bytes.length; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4;
+      w[i] = (bytes[j] << 24) | (bytes[j + 1] << 16) | (bytes[j + 2] << 8) | bytes[j + 3];
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotateRight(w[i - 15], 7) ^ rotateRight(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotateRight(w[i - 2], 17) ^ rotateRight(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+    for (let i = 0; i < 64; i++) {
+      const sum1 = rotateRight(e, 6) ^ rotateRight(e, 11) ^ rotateRight(e, 25);
+      const ch = (e & f) ^ (~e & g);
+      const temp1 = (h + sum1 + ch + K[i] + w[i]) | 0;
+      const sum0 = rotateRight(a, 2) ^ rotateRight(a, 13) ^ rotateRight(a, 22);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const temp2 = (sum0 + maj) | 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + temp1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (temp1 + temp2) | 0;
+    }
+    [a, b, c, d, e, f, g, h].forEach((word, index) => {
+      hash[index] = (hash[index] + word) | 0;
+    });
+  }
+
+  return hash.map(word => (word >>> 0).toString(16).padStart(8, '0')).join('');
+};
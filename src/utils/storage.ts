@@ -1,54 +1,406 @@
 /**
- * @fileoverview Secure token storage utilities for authentication
+ * @fileoverview Typed persistent storage for authentication and app settings
  * 
- * This file provides functions for managing JWT tokens in persistent storage:
- * - Storing authentication tokens securely
- * - Retrieving stored tokens
- * - Clearing tokens during logout
+ * This file provides functions for managing persisted app data:
+ * - Storing every signed-in account (tokens and cached user) in the encrypted backend
+ * - Remembering which account is active
+ * - Reading, rotating and clearing the tokens of an account
+ * - Persisting the selected backend environment
+ * - Persisting the offline mutation outbox
+ * - Persisting the demo mode flag
+ * - Storing the app lock PIN hash and settings in the encrypted backend
+ * - Persisting the genre list last fetched from the backend
+ * - Migrating tokens saved by older versions out of plain AsyncStorage
  * 
- * Uses AsyncStorage for cross-platform persistent storage with proper
- * error handling and JSON serialization/deserialization.
+ * Older versions stored a single session under `user_tokens`. Those tokens are
+ * still returned by getTokens until the session is saved as an account.
+ * 
+ * Every key has a declared value type in StorageSchema, and each key is routed
+ * to a backend from storageBackends.ts: secrets go to the encrypted store,
+ * everything else to AsyncStorage. Tests can swap in in-memory backends with
+ * configureStorage. Callers only use the functions below and never talk to a
+ * backend directly.
  */
 
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Tokens } from '../types';
+import { Tokens, User } from '../types';
+import { EnvironmentSelection } from '../config/environment';
+import { OutboxEntry } from '../service/outbox';
+import { AppLockSettings } from '../service/appLock';
+import { StoredGenres } from '../service/genreService';
+import {
+  StorageBackend,
+  asyncStorageBackend,
+  encryptedStorageBackend,
+} from './storageBackends';
 
-/** Storage key for user authentication tokens */
-const TOKEN_KEY = 'user_tokens';
+/**
+ * A signed-in account
+ *
+ * @interface StoredAccount
+ * @property {User} user - Profile as last fetched, shown before it is refreshed
+ * @property {Tokens} tokens - The account's JWT tokens
+ */
+export interface StoredAccount {
+  user: User;
+  tokens: Tokens;
+}
 
 /**
- * Stores the user's JWT tokens securely.
- * @param {Tokens} tokens - The access and refresh tokens.
+ * Value type stored under each storage key
+ *
+ * @interface StorageSchema
+ * @property {Tokens} user_tokens - Tokens of a session not yet saved as an account (encrypted)
+ * @property {StoredAccount[]} accounts - Signed-in accounts (encrypted)
+ * @property {number} active_account - User ID of the account in use
+ * @property {EnvironmentSelection} api_environment - Selected backend environment
+ * @property {OutboxEntry[]} offline_outbox - Mutations queued while offline
+ * @property {boolean} demo_mode - Whether demo mode is on
+ * @property {AppLockSettings} app_lock - App lock PIN hash and settings (encrypted)
+ * @property {StoredGenres} genres - Genre list last fetched from the backend
+ */
+export interface StorageSchema {
+  user_tokens: Tokens;
+  accounts: StoredAccount[];
+  active_account: number;
+  api_environment: EnvironmentSelection;
+  offline_outbox: OutboxEntry[];
+  demo_mode: boolean;
+  app_lock: AppLockSettings;
+  genres: StoredGenres;
+}
+
+/** A key of the persisted storage */
+export type StorageKey = keyof StorageSchema;
+
+/** Keys holding secrets, which are only ever written to the encrypted backend */
+const SECURE_KEYS: StorageKey[] = ['user_tokens', 'accounts', 'app_lock'];
+
+/**
+ * Backends in use
+ *
+ * @property {StorageBackend} app - Backend for regular app data
+ * @property {StorageBackend} secure - Backend for secrets
+ */
+let backends: { app: StorageBackend; secure: StorageBackend } = {
+  app: asyncStorageBackend,
+  secure: encryptedStorageBackend,
+};
+
+/** Migration of legacy plain-text secrets, started on first access to a secure key */
+let migration: Promise<void> | null = null;
+
+/**
+ * Replaces the storage backends, e.g. with in-memory backends in tests
+ * Resets the migration so it runs against the new backends.
+ *
+ * @param {Partial<{app: StorageBackend, secure: StorageBackend}>} overrides - Backends to use instead
+ */
+export const configureStorage = (overrides: Partial<{ app: StorageBackend; secure: StorageBackend }>) => {
+  backends = { ...backends, ...overrides };
+  migration = null;
+};
+
+/**
+ * Moves secrets stored in plain AsyncStorage by older app versions into the
+ * encrypted backend and deletes the plain copies
+ * A value already present in the encrypted backend wins over the legacy one.
+ * A plain copy is only deleted once the encrypted backend holds the value.
+ *
+ * @returns {Promise<void>} Resolves when the migration has finished
+ * @throws {Error} When a secret could not be moved; the remaining plain copies are kept
+ */
+const migrateLegacySecrets = async (): Promise<void> => {
+  if (backends.secure === backends.app) {
+    return;
+  }
+  for (const key of SECURE_KEYS) {
+    try {
+      const legacyValue = await backends.app.getItem(key);
+      if (legacyValue === null) {
+        continue;
+      }
+      if ((await backends.secure.getItem(key)) === null) {
+        await backends.secure.setItem(key, legacyValue);
+      }
+      await backends.app.removeItem(key);
+    } catch (error) {
+      console.error(`Error migrating "${key}" to encrypted storage`, error);
+      throw error;
+    }
+  }
+};
+
+/**
+ * Returns the backend a key is stored in, migrating legacy secrets first
+ *
+ * @param {StorageKey} key - Storage key
+ * @returns {Promise<StorageBackend>} Backend for the key
+ */
+const getBackend = async (key: StorageKey): Promise<StorageBackend> => {
+  if (!SECURE_KEYS.includes(key)) {
+    return backends.app;
+  }
+  if (!migration) {
+    // Forgotten when it fails, so the next access to a secret tries again
+    migration = migrateLegacySecrets().catch(error => {
+      migration = null;
+      throw error;
+    });
+  }
+  await migration;
+  return backends.secure;
+};
+
+/**
+ * Reads a stored value.
+ * Failing to read a secret is passed on, so that an unavailable keystore is
+ * never mistaken for a signed-out device; other failures are only logged.
+ * @param {K} key - Storage key.
+ * @returns {Promise<StorageSchema[K] | null>} The stored value or null if not found or unreadable.
+ * @throws {Error} When a secret (tokens, accounts, app lock) cannot be read.
  */
-export const setTokens = async (tokens: Tokens): Promise<void> => {
+export const readItem = async <K extends StorageKey>(key: K): Promise<StorageSchema[K] | null> => {
   try {
-    await AsyncStorage.setItem(TOKEN_KEY, JSON.stringify(tokens));
+    const valueString = await (await getBackend(key)).getItem(key);
+    return valueString ? (JSON.parse(valueString) as StorageSchema[K]) : null;
   } catch (error) {
-    console.error('Error setting tokens in storage', error);
+    console.error(`Error reading "${key}" from storage`, error);
+    if (SECURE_KEYS.includes(key)) {
+      throw error;
+    }
+    return null;
   }
 };
 
 /**
- * Retrieves the user's JWT tokens from storage.
- * @returns {Promise<Tokens | null>} The stored tokens or null if not found.
+ * Stores a value.
+ * Failing to store a secret is passed on, so that e.g. a session that could not
+ * be saved is never treated as signed in; other failures are only logged.
+ * @param {K} key - Storage key.
+ * @param {StorageSchema[K]} value - Value to store.
+ * @throws {Error} When a secret (tokens, accounts, app lock) cannot be stored.
  */
-export const getTokens = async (): Promise<Tokens | null> => {
+export const writeItem = async <K extends StorageKey>(key: K, value: StorageSchema[K]): Promise<void> => {
   try {
-    const tokenString = await AsyncStorage.getItem(TOKEN_KEY);
-    return tokenString ? JSON.parse(tokenString) : null;
+    await (await getBackend(key)).setItem(key, JSON.stringify(value));
   } catch (error) {
-    console.error('Error getting tokens from storage', error);
-    return null;
+    console.error(`Error writing "${key}" to storage`, error);
+    if (SECURE_KEYS.includes(key)) {
+      throw error;
+    }
   }
 };
 
 /**
- * Clears the user's JWT tokens from storage.
+ * Removes a stored value.
+ * @param {StorageKey} key - Storage key.
  */
-export const clearTokens = async (): Promise<void> => {
+export const removeItem = async (key: StorageKey): Promise<void> => {
   try {
-    await AsyncStorage.removeItem(TOKEN_KEY);
+    await (await getBackend(key)).removeItem(key);
   } catch (error) {
-    console.error('Error clearing tokens from storage', error);
+    console.error(`Error removing "${key}" from storage`, error);
+  }
+};
+
+/** Serializes read-modify-write updates of the account list */
+let accountsLock: Promise<unknown> = Promise.resolve();
+
+/**
+ * Applies a change to the stored account list, one change at a time
+ * @param {Function} update - Receives the current accounts and returns the new list.
+ * @returns {Promise<void>} Resolves once the new list is stored.
+ */
+const updateAccounts = (update: (accounts: StoredAccount[]) => StoredAccount[]): Promise<void> => {
+  const task = async () => writeItem('accounts', update(await getAccounts()));
+  const result = accountsLock.then(task, task);
+  accountsLock = result.catch(() => undefined);
+  return result;
+};
+
+/**
+ * Retrieves every signed-in account.
+ * @returns {Promise<StoredAccount[]>} The stored accounts, or an empty list if none are stored.
+ */
+export const getAccounts = async (): Promise<StoredAccount[]> => (await readItem('accounts')) ?? [];
+
+/**
+ * Retrieves the user ID of the account in use.
+ * @returns {Promise<number | null>} The active account's user ID or null if none is active.
+ */
+export const getActiveAccountId = (): Promise<number | null> => readItem('active_account');
+
+/**
+ * Makes a stored account the one in use.
+ * @param {number} userId - User ID of the account.
+ */
+export const setActiveAccountId = (userId: number): Promise<void> => writeItem('active_account', userId);
+
+/**
+ * Stores an account, replacing an earlier entry of the same user, and makes it active.
+ * A session stored by an older version under `user_tokens` is dropped, since it is now saved as an account.
+ * @param {User} user - The account's user profile.
+ * @param {Tokens} tokens - The account's tokens.
+ * @throws {Error} When the account cannot be stored.
+ */
+export const saveAccount = async (user: User, tokens: Tokens): Promise<void> => {
+  await updateAccounts(accounts => [
+    ...accounts.filter(account => account.user.id !== user.id),
+    { user, tokens },
+  ]);
+  await setActiveAccountId(user.id);
+  await removeItem('user_tokens');
+};
+
+/**
+ * Replaces the cached profile of a stored account, e.g. after the profile was refreshed.
+ * @param {User} user - The updated user profile.
+ */
+export const updateAccountUser = (user: User): Promise<void> =>
+  updateAccounts(accounts =>
+    accounts.map(account => (account.user.id === user.id ? { ...account, user } : account)),
+  );
+
+/**
+ * Removes an account; if it was active, no account is active afterwards.
+ * @param {number} userId - User ID of the account.
+ */
+export const removeAccount = async (userId: number): Promise<void> => {
+  await updateAccounts(accounts => accounts.filter(account => account.user.id !== userId));
+  if ((await getActiveAccountId()) === userId) {
+    await removeItem('active_account');
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Removes every signed-in account, including a session stored by an older version.
+ */
+export const clearAccounts = async (): Promise<void> => {
+  await updateAccounts(() => []);
+  await removeItem('active_account');
+  await removeItem('user_tokens');
+};
+
+/**
+ * Retrieves the active account's JWT tokens from storage.
+ * @returns {Promise<Tokens | null>} The stored tokens or null if not found.
+ */
+export const getTokens = async (): Promise<Tokens | null> => {
+  const activeId = await getActiveAccountId();
+  const active = (await getAccounts()).find(account => account.user.id === activeId);
+  return active ? active.tokens : readItem('user_tokens');
+};
+
+/**
+ * Stores new JWT tokens securely.
+ * With `replacing`, the tokens go to the account that held those tokens, which
+ * may no longer be the active one (e.g. a refresh that finished after a switch).
+ * Otherwise they go to the active account, or to the single session of an
+ * older version when no account is saved yet.
+ * @param {Tokens} tokens - The access and refresh tokens.
+ * @param {Tokens} [replacing] - The tokens being rotated out.
+ * @throws {Error} When the tokens cannot be stored.
+ */
+export const setTokens = async (tokens: Tokens, replacing?: Tokens): Promise<void> => {
+  const activeId = await getActiveAccountId();
+  const accounts = await getAccounts();
+  const owner = replacing
+    ? accounts.find(account => account.tokens.refresh === replacing.refresh)
+    : accounts.find(account => account.user.id === activeId);
+  if (owner) {
+    await updateAccounts(current =>
+      current.map(account => (account.user.id === owner.user.id ? { ...account, tokens } : account)),
+    );
+    return;
+  }
+  const legacyTokens = await readItem('user_tokens');
+  if (!replacing || legacyTokens?.refresh === replacing.refresh) {
+    await writeItem('user_tokens', tokens);
+  }
+};
+
+/**
+ * Clears JWT tokens from storage, signing their account out.
+ * @param {Tokens} [tokens] - Tokens to clear; defaults to the active account's.
+ */
+export const clearTokens = async (tokens?: Tokens): Promise<void> => {
+  const activeId = await getActiveAccountId();
+  const owner = (await getAccounts()).find(account =>
+    tokens ? account.tokens.refresh === tokens.refresh : account.user.id === activeId,
+  );
+  if (owner) {
+    await removeAccount(owner.user.id);
+  }
+  await removeItem('user_tokens');
+};
+
+/**
+ * Stores the selected backend environment.
+ * @param {EnvironmentSelection} selection - The environment profile and optional URL override.
+ */
+export const setEnvironmentSelection = (selection: EnvironmentSelection): Promise<void> =>
+  writeItem('api_environment', selection);
+
+/**
+ * Retrieves the selected backend environment from storage.
+ * @returns {Promise<EnvironmentSelection | null>} The stored selection or null if not found.
+ */
+export const getEnvironmentSelection = (): Promise<EnvironmentSelection | null> => readItem('api_environment');
+
+/**
+ * Clears the selected backend environment, reverting to the default profile.
+ */
+export const clearEnvironmentSelection = (): Promise<void> => removeItem('api_environment');
+
+/**
+ * Stores the queue of mutations waiting to be synced.
+ * @param {OutboxEntry[]} entries - The queued mutations, oldest first.
+ */
+export const setOutbox = (entries: OutboxEntry[]): Promise<void> => writeItem('offline_outbox', entries);
+
+/**
+ * Retrieves the queue of mutations waiting to be synced.
+ * @returns {Promise<OutboxEntry[]>} The queued mutations, or an empty list if none are stored.
+ */
+export const getOutbox = async (): Promise<OutboxEntry[]> => (await readItem('offline_outbox')) ?? [];
+
+/**
+ * Stores whether demo mode (the in-app mock backend) is enabled.
+ * @param {boolean} enabled - Whether demo mode is on.
+ */
+export const setDemoModeEnabled = (enabled: boolean): Promise<void> => writeItem('demo_mode', enabled);
+
+/**
+ * Retrieves whether demo mode is enabled.
+ * @returns {Promise<boolean>} True if demo mode was switched on.
+ */
+export const getDemoModeEnabled = async (): Promise<boolean> => (await readItem('demo_mode')) === true;
+
+/**
+ * Stores the app lock settings, including the PIN hash.
+ * @param {AppLockSettings} settings - The app lock settings.
+ */
+export const setAppLockSettings = (settings: AppLockSettings): Promise<void> => writeItem('app_lock', settings);
+
+/**
+ * Retrieves the app lock settings.
+ * @returns {Promise<AppLockSettings | null>} The stored settings or null if the app lock is off.
+ */
+export const getAppLockSettings = (): Promise<AppLockSettings | null> => readItem('app_lock');
+
+/**
+ * Clears the app lock settings, turning the app lock off.
+ */
+export const clearAppLockSettings = (): Promise<void> => removeItem('app_lock');
+
+/**
+ * Persists the genre list fetched from the backend.
+ * @param {StoredGenres} genres - The genre list with its version and source.
+ */
+export const setGenres = (genres: StoredGenres): Promise<void> => writeItem('genres', genres);
+
+/**
+ * Retrieves the persisted genre list.
+ * @returns {Promise<StoredGenres | null>} The genre list or null if none was persisted.
+ */
+export const getGenres = (): Promise<StoredGenres | null> => readItem('genres');
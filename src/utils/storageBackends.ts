@@ -0,0 +1,84 @@
+/**
+ * @fileoverview Interchangeable key-value backends for persistent storage
+ *
+ * This file provides the low-level stores the storage utilities write to:
+ * - AsyncStorage, for regular app data
+ * - An encrypted store backed by the platform keystore (iOS Keychain / Android
+ *   Keystore), where values are encrypted with a key bound to this device
+ * - An in-memory store, used by tests and as a scratch store
+ *
+ * Every backend stores plain strings; serialization and typing happen in storage.ts.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Keychain from 'react-native-keychain';
+
+/**
+ * Minimal key-value store interface shared by all backends
+ *
+ * @interface StorageBackend
+ * @property {Function} getItem - Reads a value, resolving to null when missing
+ * @property {Function} setItem - Writes a value
+ * @property {Function} removeItem - Deletes a value
+ */
+export interface StorageBackend {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+/**
+ * Backend storing values unencrypted in AsyncStorage
+ */
+export const asyncStorageBackend: StorageBackend = {
+  getItem: key => AsyncStorage.getItem(key),
+  setItem: (key, value) => AsyncStorage.setItem(key, value),
+  removeItem: key => AsyncStorage.removeItem(key),
+};
+
+/** Prefix for keystore service names, keeping the app's entries together */
+const KEYCHAIN_SERVICE_PREFIX = 'moviereviewapp.';
+
+/**
+ * Backend storing values in the platform keystore
+ *
+ * Each key becomes its own keystore entry. Entries are only readable on this
+ * device after it was first unlocked and are excluded from backups.
+ */
+export const encryptedStorageBackend: StorageBackend = {
+  getItem: async key => {
+    const credentials = await Keychain.getGenericPassword({ service: KEYCHAIN_SERVICE_PREFIX + key });
+    return credentials ? credentials.password : null;
+  },
+  setItem: async (key, value) => {
+    const result = await Keychain.setGenericPassword(key, value, {
+      service: KEYCHAIN_SERVICE_PREFIX + key,
+      accessible: Keychain.ACCESSIBLE.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY,
+    });
+    if (!result) {
+      throw new Error(`Could not write "${key}" to the keystore`);
+    }
+  },
+  removeItem: async key => {
+    await Keychain.resetGenericPassword({ service: KEYCHAIN_SERVICE_PREFIX + key });
+  },
+};
+
+/**
+ * Creates a backend keeping values in memory only
+ *
+ * @param {Record<string, string>} [initial] - Values to start with
+ * @returns {StorageBackend} New, independent in-memory backend
+ */
+export const createMemoryBackend = (initial: Record<string, string> = {}): StorageBackend => {
+  const values = new Map(Object.entries(initial));
+  return {
+    getItem: async key => values.get(key) ?? null,
+    setItem: async (key, value) => {
+      values.set(key, value);
+    },
+    removeItem: async key => {
+      values.delete(key);
+    },
+  };
+};
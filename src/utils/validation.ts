@@ -4,6 +4,11 @@
  * This file provides Yup validation schemas for form validation across the app:
  * - Login form validation (email, password)
  * - Registration form validation (username, email, names, password)
+ * - Forgot/reset password form validation (email, reset code, new password)
+ * - Change password form validation (current and new password)
+ * - Email verification form validation (verification code)
+ * - App lock PIN forms validation (new PIN, unlock)
+ * - Account deletion form validation (password re-confirmation)
  * - Movie form validation (title, description, genre, dates, etc.)
  * 
  * Uses Yup for schema validation with TypeScript type inference for type safety.
@@ -24,6 +29,21 @@ export const LoginSchema = Yup.object().shape({
 export type LoginCredentials = Yup.InferType<typeof LoginSchema>;
 
 
+/**
+ * Strength rules for a newly chosen password, shared by every form that sets one.
+ */
+const newPasswordField = Yup.string().min(8, 'Password must be at least 8 characters').required('Password is required');
+
+/**
+ * Confirmation field that must repeat another password (or PIN) field.
+ * @param {string} field - Name of the field being confirmed.
+ * @param {string} [label] - What is being confirmed, used in the error messages.
+ */
+const confirmationOf = (field: string, label = 'Password') =>
+  Yup.string()
+    .oneOf([Yup.ref(field)], `${label}s must match`)
+    .required(`${label} confirmation is required`);
+
 /**
  * Validation schema for the registration form.
  */
@@ -32,24 +52,120 @@ export const RegisterSchema = Yup.object().shape({
   email: Yup.string().email('Invalid email').required('Email is required'),
   first_name: Yup.string().required('First name is required'),
   last_name: Yup.string().required('Last name is required'),
-  password: Yup.string().min(8, 'Password must be at least 8 characters').required('Password is required'),
-  password_confirm: Yup.string()
-    .oneOf([Yup.ref('password')], 'Passwords must match')
-    .required('Password confirmation is required'),
+  password: newPasswordField,
+  password_confirm: confirmationOf('password'),
 });
 
 export type RegisterData = Yup.InferType<typeof RegisterSchema>;
 
 
+/**
+ * Six-digit code sent by email, used for password resets and email verification.
+ */
+const emailCodeField = Yup.string()
+  .matches(/^\d{6}$/, 'The code has 6 digits')
+  .required('Code is required');
+
+/**
+ * Validation schema for requesting a password reset code.
+ */
+export const ForgotPasswordSchema = Yup.object().shape({
+  email: Yup.string().email('Invalid email').required('Email is required'),
+});
+
+export type ForgotPasswordData = Yup.InferType<typeof ForgotPasswordSchema>;
+
+
+/**
+ * Validation schema for setting a new password with a reset code.
+ */
+export const ResetPasswordSchema = Yup.object().shape({
+  code: emailCodeField,
+  password: newPasswordField,
+  password_confirm: confirmationOf('password'),
+});
+
+export type ResetPasswordData = Yup.InferType<typeof ResetPasswordSchema>;
+
+
+/**
+ * Validation schema for changing the password while logged in.
+ */
+export const ChangePasswordSchema = Yup.object().shape({
+  old_password: Yup.string().required('Current password is required'),
+  new_password: newPasswordField.notOneOf(
+    [Yup.ref('old_password')],
+    'New password must be different from the current one',
+  ),
+  new_password_confirm: confirmationOf('new_password'),
+});
+
+export type ChangePasswordData = Yup.InferType<typeof ChangePasswordSchema>;
+
+
+/**
+ * Validation schema for the email verification form.
+ */
+export const VerifyEmailSchema = Yup.object().shape({
+  code: emailCodeField,
+});
+
+
+/**
+ * Validation schema for choosing an app lock PIN.
+ */
+export const SetPinSchema = Yup.object().shape({
+  pin: Yup.string()
+    .matches(/^\d{4,6}$/, 'PIN must be 4 to 6 digits')
+    .required('PIN is required'),
+  pin_confirm: confirmationOf('pin', 'PIN'),
+});
+
+export type SetPinData = Yup.InferType<typeof SetPinSchema>;
+
+/**
+ * Validation schema for entering the app lock PIN.
+ */
+export const EnterPinSchema = Yup.object().shape({
+  pin: Yup.string().required('PIN is required'),
+});
+
+
+/**
+ * Validation schema for confirming the deletion of the account.
+ */
+export const DeleteAccountSchema = Yup.object().shape({
+  password: Yup.string().required('Password is required'),
+});
+
+export type DeleteAccountData = Yup.InferType<typeof DeleteAccountSchema>;
+
+
+/**
+ * Values of the add/edit movie form.
+ * Text inputs hold strings, so `duration` stays a string until the form is submitted.
+ */
+export interface MovieFormValues {
+  title: string;
+  description: string;
+  genres: number[];
+  release_date: string;
+  duration: string;
+  director: string;
+  cast: string;
+  poster_url: string;
+}
+
 /**
  * Validation schema for the add/update movie form.
  */
 export const MovieSchema = Yup.object().shape({
   title: Yup.string().required('Title is required'),
   description: Yup.string().required('Description is required'),
-  genre: Yup.array().of(Yup.string()).min(1, 'At least one genre is required')
-    .required('Genre is required'),  release_date: Yup.date().required('Release date is required'),
+  genres: Yup.array().of(Yup.number()).min(1, 'At least one genre is required').required('Genre is required'),
+  release_date: Yup.date().required('Release date is required'),
   duration: Yup.number().positive('Duration must be a positive number').required('Duration is required'),
   director: Yup.string().required('Director is required'),
   cast: Yup.string().required('Cast is required'),
-});
\ No newline at end of file
+  poster_url: Yup.string().url('Please enter a valid URL').required('Poster URL is required'),
+});